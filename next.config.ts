@@ -8,6 +8,12 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Product photos are sent to the admin actions as data URIs (up to 5 per listing).
+      bodySizeLimit: '25mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,54 @@
+// Generates AVIF/WebP variants for product images uploaded before the image
+// pipeline existed, and points the products at the new, metadata-free files.
+// The original uploads are left on disk; `npm run uploads:gc` reports them as
+// orphans once nothing refers to them.
+//
+//   npm run images:backfill
+
+import fs from 'fs/promises';
+import { getProductRepository } from '@/lib/repository';
+import { localUploadPath } from '@/lib/image-storage';
+import { processProductImage } from '@/lib/images';
+import { recordRevision } from '@/lib/revisions';
+
+async function main() {
+  const repository = await getProductRepository();
+  let converted = 0;
+
+  for (const product of await repository.list()) {
+    const imageVariants = { ...product.imageVariants };
+    const images: string[] = [];
+    let changed = false;
+
+    for (const src of product.images) {
+      const filePath = localUploadPath(src);
+      if (imageVariants[src] || !filePath) {
+        images.push(src);
+        continue;
+      }
+      try {
+        const { url, image } = await processProductImage(await fs.readFile(filePath), product.id);
+        images.push(url);
+        imageVariants[url] = image;
+        changed = true;
+        converted++;
+      } catch (error) {
+        console.error(`Skipping ${src} on ${product.name}:`, error);
+        images.push(src);
+      }
+    }
+
+    if (changed) {
+      const updated = await repository.save({ ...product, images, imageVariants, updatedAt: new Date().toISOString() });
+      await recordRevision({ action: 'update', actor: 'system', before: product, after: updated });
+      console.log(`Updated ${product.name} (${product.id})`);
+    }
+  }
+
+  console.log(`Generated variants for ${converted} image(s).`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
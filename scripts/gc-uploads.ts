@@ -0,0 +1,45 @@
+// Reports files in the uploads folder (UPLOADS_DIR, data/uploads by default)
+// that no product or revision references, and products whose image files are
+// missing.
+//
+//   npm run uploads:gc              report only
+//   npm run uploads:gc -- --delete  report, then delete orphans after confirmation
+//   npm run uploads:gc -- --delete --yes  skip the confirmation prompt
+
+import readline from 'readline/promises';
+import { deleteOrphanedUploads, scanUploads } from '@/lib/uploads-gc';
+import { uploadsDir } from '@/lib/image-storage';
+import { formatBytes } from '@/lib/utils';
+
+async function confirm(question: string) {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await rl.question(`${question} [y/N] `);
+  rl.close();
+  return answer.trim().toLowerCase() === 'y';
+}
+
+async function main() {
+  const report = await scanUploads();
+
+  console.log(`${report.totalFiles} file(s) in ${uploadsDir}, ${formatBytes(report.totalBytes)} in total.`);
+  console.log(`\nOrphaned uploads: ${report.orphans.length} (${formatBytes(report.orphanBytes)})`);
+  report.orphans.forEach(orphan => console.log(`  ${orphan.url}  ${formatBytes(orphan.size)}`));
+
+  console.log(`\nProducts with missing image files: ${report.missing.length}`);
+  report.missing.forEach(entry => console.log(`  ${entry.productName} (${entry.productId}): ${entry.url}`));
+
+  if (!process.argv.includes('--delete') || report.orphans.length === 0) return;
+
+  if (!process.argv.includes('--yes') && !(await confirm(`\nDelete ${report.orphans.length} orphaned file(s)?`))) {
+    console.log('Nothing deleted.');
+    return;
+  }
+
+  const { deleted, freedBytes } = await deleteOrphanedUploads(report.orphans.map(orphan => orphan.url));
+  console.log(`Deleted ${deleted} file(s), freed ${formatBytes(freedBytes)}.`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
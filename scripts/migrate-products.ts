@@ -0,0 +1,38 @@
+// Upgrades stored products to the current schema version.
+//
+//   npm run db:migrate              apply pending migrations
+//   npm run db:migrate -- --dry-run only report what would change
+
+import { migrateProducts, openProductRepository } from '@/lib/repository';
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const repository = await openProductRepository();
+  const report = await migrateProducts(repository, { dryRun });
+
+  console.log(`${dryRun ? '[dry run] ' : ''}Target schema version: v${report.targetVersion}`);
+  console.log(`Scanned ${report.scanned} product(s), ${report.upToDate} already up to date.`);
+
+  for (const product of report.migrated) {
+    console.log(`\n${product.name} (${product.id}) v${product.fromVersion} -> v${report.targetVersion}`);
+    for (const step of product.steps) {
+      console.log(`  v${step.version}: ${step.description}`);
+      if (step.changes.length === 0) {
+        console.log('    (no field changes)');
+      }
+      for (const change of step.changes) {
+        console.log(`    ${change.field}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`);
+      }
+    }
+  }
+
+  for (const product of report.quarantined) {
+    console.log(`\n${dryRun ? 'Would quarantine' : 'Quarantined'} ${product.name} (${product.id || 'no id'}):`);
+    product.issues.forEach(issue => console.log(`  - ${issue}`));
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
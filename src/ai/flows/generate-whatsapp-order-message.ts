@@ -13,12 +13,14 @@ import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
 
 const GenerateWhatsappOrderMessageInputSchema = z.object({
+  orderReference: z.string().describe('The reference the order is stored under, e.g. "LZ-250301-7KQ4".'),
   customerName: z.string().describe('The name of the customer.'),
   customerPhone: z.string().describe('The phone number of the customer.'),
   customerAddress: z.string().describe('The address of the customer.'),
   cartItems: z.array(
     z.object({
       name: z.string().describe('The name of the product.'),
+      configuration: z.string().optional().describe('The chosen unit and options, e.g. "16GB RAM, 512GB SSD".'),
       quantity: z.number().describe('The quantity of the product.'),
       price: z.number().describe('The price of the product in PKR.'),
     })
@@ -50,18 +52,19 @@ The message must be friendly, professional, and contain all the details below.
 It must explicitly state that payment is Cash on Delivery (COD).
 
 **Order Details**
+- **Order Reference:** {{{orderReference}}}
 - **Customer Name:** {{{customerName}}}
 - **Customer Phone:** {{{customerPhone}}}
 - **Customer Address:** {{{customerAddress}}}
 
 **Items Ordered**
 {{#each cartItems}}
-- {{{name}}} (x{{{quantity}}}) - PKR {{{price}}} each
+- {{{name}}}{{#if configuration}} [{{{configuration}}}]{{/if}} (x{{{quantity}}}) - PKR {{{price}}} each
 {{/each}}
 
 **Total Amount:** {{{totalAmount}}}
 
-Construct the WhatsApp message. Start with a greeting, include all details, state payment is COD, and end with a thank you from Lapzen. Put the final, complete message in the 'whatsappMessage' field of the JSON output.
+Construct the WhatsApp message. Start with a greeting, include all details (keep the order reference and each item's configuration in brackets exactly as given), state payment is COD, and end with a thank you from Lapzen. Put the final, complete message in the 'whatsappMessage' field of the JSON output.
 `,
 });
 
@@ -0,0 +1,182 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Product } from '@/lib/types';
+import { createMemoryProductRepository, setProductRepository, type ProductRepository } from '@/lib/repository';
+import { signInAs, signOut } from '@/test/admin-session';
+import { revokeSession } from '@/lib/sessions';
+import { inventoryFields } from '@/lib/stock';
+import { createOrder, getOrderById } from '@/lib/order-store';
+import { getProductRevisions } from '@/lib/revisions';
+import { deleteProduct, getAuditLogAction, saveCategory, getProductsAction, getUsersAction, inviteUser, restoreProductRevision, updateOrderStatus, updateProduct, updateUserRole } from './actions';
+
+vi.mock('next/headers', async () => (await import('@/test/next-headers')).mockNextHeaders());
+vi.mock('next/cache', () => ({ revalidatePath: vi.fn() }));
+
+const product: Product = {
+  id: 'prod_1',
+  name: 'ThinkPad T14',
+  brand: 'Lenovo',
+  price: 150000,
+  condition: 'Used',
+  images: ['https://example.com/t14.jpg'],
+  specs: { processor: 'Core i5', ram: '16GB', storage: '512GB SSD', display: '14"', battery: 'Good' },
+  description: 'A business laptop.',
+  stock: 1,
+  availability: 'in_stock',
+};
+
+let repository: ProductRepository;
+
+beforeEach(() => {
+  repository = createMemoryProductRepository([product]);
+  setProductRepository(repository);
+});
+
+afterEach(() => {
+  signOut();
+});
+
+describe('admin actions without a session', () => {
+  it('return nothing from reads', async () => {
+    expect(await getProductsAction()).toEqual([]);
+    expect(await getUsersAction()).toEqual([]);
+  });
+
+  it('refuse changes and leave the catalog alone', async () => {
+    expect(await deleteProduct(product.id)).toMatchObject({ success: false, unauthorized: 'unauthenticated' });
+    expect(await updateProduct(product.id, { ...product, name: 'Changed' })).toMatchObject({
+      success: false,
+      unauthorized: 'unauthenticated',
+      error: { formErrors: ['Your session has ended. Please log in again.'] },
+    });
+    expect(await repository.getById(product.id)).toMatchObject({ name: product.name });
+    expect((await repository.getById(product.id))?.deletedAt).toBeUndefined();
+  });
+
+  it('refuse a session that has been revoked', async () => {
+    const { session } = await signInAs('owner');
+    await revokeSession(session.id);
+    expect(await deleteProduct(product.id)).toMatchObject({ success: false, unauthorized: 'unauthenticated' });
+  });
+
+  it('refuse a user who has been disabled', async () => {
+    await signInAs('owner', { disabled: true });
+    expect(await deleteProduct(product.id)).toMatchObject({ success: false, unauthorized: 'unauthenticated' });
+  });
+});
+
+describe('admin actions with a role that lacks the permission', () => {
+  it('refuse catalog changes from sales', async () => {
+    await signInAs('sales');
+    expect(await deleteProduct(product.id)).toMatchObject({ success: false, unauthorized: 'forbidden' });
+    expect((await repository.getById(product.id))?.deletedAt).toBeUndefined();
+  });
+
+  it('refuse user management and the audit log to managers', async () => {
+    const { user } = await signInAs('manager');
+    expect(await inviteUser({ username: 'intruder', role: 'owner' })).toMatchObject({ success: false, unauthorized: 'forbidden' });
+    expect(await updateUserRole(user.id, 'owner')).toMatchObject({ success: false, unauthorized: 'forbidden' });
+    expect(await getUsersAction()).toEqual([]);
+    expect(await getAuditLogAction({})).toEqual({ entries: [], total: 0, actors: [] });
+  });
+
+  it('still let sales read the catalog', async () => {
+    await signInAs('sales');
+    expect(await getProductsAction()).toMatchObject([{ id: product.id }]);
+  });
+});
+
+describe('admin actions with the permission', () => {
+  it('let a manager move a product to the trash', async () => {
+    await signInAs('manager');
+    expect(await deleteProduct(product.id)).toEqual({ success: true });
+    expect((await repository.getById(product.id))?.deletedAt).toBeDefined();
+  });
+});
+
+describe('editing a product while its stock moves', () => {
+  it('keep stock taken meanwhile when the form left it alone', async () => {
+    await signInAs('manager');
+    const loaded = inventoryFields(product);
+    await repository.update(product.id, { stock: 0 }); // e.g. an order was confirmed
+
+    expect(await updateProduct(product.id, { ...product, name: 'ThinkPad T14 Gen 2' }, loaded)).toEqual({ success: true });
+    expect(await repository.getById(product.id)).toMatchObject({ name: 'ThinkPad T14 Gen 2', stock: 0 });
+  });
+
+  it('refuse a stock change made against numbers that have since moved', async () => {
+    await signInAs('manager');
+    const loaded = inventoryFields(product);
+    await repository.update(product.id, { stock: 0 });
+
+    expect(await updateProduct(product.id, { ...product, stock: 5 }, loaded)).toMatchObject({ success: false });
+    expect((await repository.getById(product.id))?.stock).toBe(0);
+  });
+
+  it('apply a stock change when nothing else moved it', async () => {
+    await signInAs('manager');
+    expect(await updateProduct(product.id, { ...product, stock: 5 }, inventoryFields(product))).toEqual({ success: true });
+    expect((await repository.getById(product.id))?.stock).toBe(5);
+  });
+});
+
+describe('restoring a revision', () => {
+  it('bring back the listing but keep the stock as it is now', async () => {
+    await signInAs('manager');
+    expect(await updateProduct(product.id, { ...product, name: 'ThinkPad T14 Gen 2' })).toMatchObject({ success: true });
+    const [earlier] = await getProductRevisions(product.id);
+    expect(await updateProduct(product.id, { ...product, name: 'ThinkPad T14 Gen 3' })).toMatchObject({ success: true });
+    await repository.update(product.id, { stock: 0, availability: 'sold' });
+
+    expect(await restoreProductRevision(earlier.id)).toEqual({ success: true });
+    expect(await repository.getById(product.id)).toMatchObject({ name: 'ThinkPad T14 Gen 2', stock: 0, availability: 'sold' });
+  });
+});
+
+describe('confirming orders', () => {
+  const placeOrder = () => createOrder({
+    items: [{ productId: product.id, name: product.name, quantity: 1, unitPrice: product.price, lineTotal: product.price }],
+    customer: { name: 'Ayesha', phone: '03001234567', address: 'Lahore' },
+    itemCount: 1,
+    subtotal: product.price,
+    total: product.price,
+  });
+
+  it('let only one of two orders for the last laptop take it', async () => {
+    await signInAs('sales');
+    const [first, second] = [await placeOrder(), await placeOrder()];
+
+    const results = await Promise.all([first, second].map(order => updateOrderStatus(order.id, { status: 'confirmed' })));
+
+    expect(results.filter(result => result.success)).toHaveLength(1);
+    expect(results.find(result => !result.success)).toMatchObject({ error: { formErrors: [expect.stringMatching(/^Only 0 of ThinkPad T14 in stock/)] } });
+    expect((await repository.getById(product.id))?.stock).toBe(0);
+    const statuses = [(await getOrderById(first.id))?.status, (await getOrderById(second.id))?.status];
+    expect(statuses.sort()).toEqual(['confirmed', 'pending']);
+  });
+
+  it('put stock back when a confirmed order is cancelled', async () => {
+    await signInAs('sales');
+    const order = await placeOrder();
+
+    expect(await updateOrderStatus(order.id, { status: 'confirmed' })).toEqual({ success: true });
+    expect(await updateOrderStatus(order.id, { status: 'cancelled' })).toEqual({ success: true });
+    expect((await repository.getById(product.id))?.stock).toBe(1);
+  });
+});
+
+describe('the audit log', () => {
+  it('record only the fields an edit changed', async () => {
+    await signInAs('owner');
+    expect(await saveCategory('gaming', { name: 'Gaming laptops', slug: 'gaming', parentId: 'laptops', sortOrder: 1 })).toMatchObject({ success: true });
+
+    const { entries } = await getAuditLogAction({ category: 'category' });
+    expect(entries[0]).toMatchObject({ action: 'category.update', details: { changes: [{ field: 'name', before: 'Gaming', after: 'Gaming laptops' }] } });
+  });
+
+  it('ignore filters that name a built-in property instead of a category', async () => {
+    await signInAs('owner');
+    await saveCategory('gaming', { name: 'Gaming', slug: 'gaming', parentId: 'laptops', sortOrder: 1 });
+    const all = await getAuditLogAction({});
+    expect(await getAuditLogAction({ category: 'toString' })).toEqual(all);
+  });
+});
@@ -2,70 +2,186 @@
 
 import { z } from 'zod';
 import { revalidatePath } from 'next/cache';
+import { cookies, headers } from 'next/headers';
 
-import type { Product } from '@/lib/types';
-import { getAuthCredentials, saveAuthCredentials } from '@/lib/auth';
-
-const productSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  brand: z.string().min(1, 'Brand is required'),
-  price: z.coerce.number().positive('Price must be a positive number'),
-  condition: z.enum(['New', 'Used', 'Refurbished']),
-  images: z.array(z.string()).min(1, 'At least one image is required').max(5, 'You can upload a maximum of 5 images'),
-  specs: z.object({
-    processor: z.string().min(1, 'Processor is required'),
-    ram: z.string().min(1, 'RAM is required'),
-    storage: z.string().min(1, 'Storage is required'),
-    display: z.string().min(1, 'Display size is required'),
-    battery: z.string().min(1, 'Battery info is required'),
-  }),
-  description: z.string().min(1, 'Description is required'),
-  featured: z.boolean().optional(),
-  newArrival: z.boolean().optional(),
-});
+import type { Brand, Category, InventoryUnit, Order, OrderStatus, Product } from '@/lib/types';
+import QRCode from 'qrcode';
+import { setUserPassword, verifyUserPassword } from '@/lib/auth';
+import { getCurrentSession, listSessions, renameSessionUser, revokeAllSessions, revokeSession } from '@/lib/sessions';
+import { getActiveLockouts, releaseLockout } from '@/lib/login-throttle';
+import { getSecurityEvents, recordSecurityEvent } from '@/lib/security-log';
+import { createSetupToken, createUserId, findUserByUsername, getUsers, toUserSummary, TWO_FACTOR_CLEARED, updateUsers, type AdminUser } from '@/lib/users';
+import { generateRecoveryCodes, generateTotpSecret, totpUri, verifyTotp } from '@/lib/totp';
+import { SESSION_COOKIE_NAME } from '@/lib/session-token';
+import { clientIp } from '@/lib/client-ip';
+import { authorize, formDenied } from '@/lib/authorization';
+import { getProductRepository, upgradeProduct, withStockLock } from '@/lib/repository';
+import { ROLE_LABELS } from '@/lib/permissions';
+import { adminRoleSchema, brandSchema, categorySchema, heroBannerSchema, homepageSectionSchema, inviteUserSchema, orderStatusChangeSchema, passwordSchema, productSchema, unitSchema } from '@/lib/schemas';
+import { diffFields } from '@/lib/diff';
+import { getProductRevisions, getRevision, recordRevision, type ProductRevision } from '@/lib/revisions';
+import { AUDIT_CATEGORIES, describeChanges, filterAuditEntries, type AuditCategory, type AuditEntry, type AuditFormat, type AuditQuery } from '@/lib/audit';
+import { exportAuditEntries, getAuditEntries, recordAudit } from '@/lib/audit-log';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { purgeExpiredTrash } from '@/lib/trash-purge';
+import { decodeImageDataUri, deleteProductImages, processBrandLogo, processImage, processProductImage } from '@/lib/images';
+import { deleteOrphanedUploads, scanUploads } from '@/lib/uploads-gc';
+import { normalizeSpecs } from '@/lib/specs';
+import { createUnitId, syncUnitStock, UNIT_STATUS_LABELS } from '@/lib/units';
+import { inventoryFields, mergeInventoryEdit, withCurrentInventory, type InventoryFields } from '@/lib/stock';
+import { withOptionIds } from '@/lib/variants';
+import { findBrand, getBrands, slugify, updateBrands } from '@/lib/brands';
+import { descendantIds, normalizeTags, tagCounts } from '@/lib/categories';
+import { getCategories, updateCategories } from '@/lib/category-store';
+import { createHomepageId, type HeroBanner, type HomepageConfig } from '@/lib/homepage';
+import { getHomepageConfig, updateHomepageConfig } from '@/lib/homepage-store';
+import { adjustOrderStock, canTransition, filterOrders, orderStockProblems, ORDER_STATUS_LABELS, type OrderQuery } from '@/lib/orders';
+import { getOrderById, getOrders, updateOrders } from '@/lib/order-store';
+import { exportCatalog, planCatalogImport, readImagesZip, type CatalogFormat, type ZipImages } from '@/lib/catalog-io';
+
+// Stores newly uploaded data URIs (or `zip:<name>` entries from a catalog import)
+// as resized, metadata-free variants and keeps the variant info of images the
+// product already had.
+async function uploadImages(
+  images: string[],
+  productId: string,
+  existingVariants: Product['imageVariants'] = {},
+  zipImages?: ZipImages
+): Promise<Pick<Product, 'images' | 'imageVariants'>> {
+  const urls: string[] = [];
+  const imageVariants: NonNullable<Product['imageVariants']> = {};
 
-// Helper to upload a data URI to Firebase Storage
-async function uploadImage(dataUri: string, productId: string): Promise<string> {
-  if (!dataUri.startsWith('data:image')) {
-    return dataUri; // It's an existing URL, not a new file
+  // One at a time: each image is decoded and re-encoded six times.
+  for (const image of images) {
+    let source: Buffer;
+    if (image.startsWith('data:image')) {
+      source = decodeImageDataUri(image);
+    } else if (image.startsWith('zip:') && zipImages?.has(image.slice(4).toLowerCase())) {
+      source = zipImages.get(image.slice(4).toLowerCase())!;
+    } else {
+      urls.push(image); // It's an existing URL, not a new file
+      if (existingVariants[image]) imageVariants[image] = existingVariants[image];
+      continue;
+    }
+    const { url, image: processed } = await processProductImage(source, productId);
+    urls.push(url);
+    imageVariants[url] = processed;
   }
 
-  const matches = dataUri.match(/^data:(image\/(?:png|jpeg|jpg));base64,(.*)$/);
-  if (!matches || matches.length !== 3) {
-    throw new Error('Invalid data URI format');
+  return { images: urls, imageVariants };
+}
+
+// The signed-in admin, recorded as the author of each change.
+async function getActor(): Promise<string> {
+  try {
+    const session = await getCurrentSession();
+    return session?.username ?? 'admin';
+  } catch {
+    return 'admin';
   }
+}
 
-  const [, mimeType, base64Data] = matches;
-  const fileExtension = mimeType.split('/')[1] ?? 'png';
-  
-  const storageRef = ref(storage, `products/${productId}/${Date.now()}-${Math.round(Math.random() * 1E9)}.${fileExtension}`);
-  
-  await uploadString(storageRef, base64Data, 'base64', { contentType: mimeType });
-  
-  return getDownloadURL(storageRef);
+// Appends to the audit log as the signed-in admin, with the request's IP
+// address. The change has already been made by then, so a failure to write the
+// entry is logged rather than reported as a failed change.
+async function audit(action: AuditEntry['action'], summary: string, extra: Pick<AuditEntry, 'target' | 'details'> & { actor?: string } = {}) {
+  try {
+    const session = await getCurrentSession();
+    const headerList = await headers();
+    await recordAudit({
+      actor: extra.actor ?? session?.username ?? 'admin',
+      actorId: extra.actor ? undefined : session?.userId,
+      ip: clientIp(headerList),
+      userAgent: headerList.get('user-agent') ?? undefined,
+      action,
+      summary,
+      target: extra.target,
+      details: extra.details,
+    });
+  } catch (error) {
+    console.error('Failed to write audit log:', error);
+  }
+}
+
+// Changed fields between two saved records, without the timestamp bookkeeping.
+function recordChanges(before: object, after: object) {
+  return diffFields(before, after).filter(change => change.field !== 'updatedAt');
+}
+
+// `Updated brand "Dell": name: Del → Dell`, or just `Created brand "Dell"`.
+function changeSummary(summary: string, changes: ReturnType<typeof recordChanges>) {
+  return changes.length > 0 ? `${summary}: ${describeChanges(changes)}` : summary;
+}
+
+const revisionVerbs: Record<ProductRevision['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Permanently deleted',
+};
+
+// Audits a single-product change from its revision, listing the changed fields.
+async function auditRevision(revision: ProductRevision, summary = `${revisionVerbs[revision.action]} "${revision.productName}"`) {
+  const changes = describeChanges(revision.changes);
+  await audit(`product.${revision.action}`, changes ? `${summary}: ${changes}` : summary, {
+    actor: revision.actor === 'system' ? 'system' : undefined,
+    target: { type: 'product', id: revision.productId, name: revision.productName },
+    details: { revisionId: revision.id, ...(revision.changes.length > 0 ? { changes: revision.changes } : {}) },
+  });
 }
 
+// Products store the brand's canonical name, whatever casing was typed.
+async function resolveBrand(name: string) {
+  const brand = findBrand(await getBrands(), name);
+  return brand
+    ? { brand: brand.name }
+    : { error: { formErrors: [`Unknown brand "${name}". Add it on the Brands page first.`] } };
+}
+
+// An empty category means uncategorised; anything else must still exist.
+async function resolveCategory(categoryId?: string) {
+  if (!categoryId) return { categoryId: undefined };
+  const exists = (await getCategories()).some(category => category.id === categoryId);
+  return exists ? { categoryId } : { error: { formErrors: ['That category no longer exists. Pick another one.'] } };
+}
 
 export async function addProduct(data: unknown) {
+  const { denied } = await authorize('products:write');
+  if (denied) return formDenied(denied);
+
   const result = productSchema.safeParse(data);
   if (!result.success) {
     return { success: false, error: result.error.flatten() };
   }
+  const { brand, error } = await resolveBrand(result.data.brand);
+  if (!brand) {
+    return { success: false, error };
+  }
+  const category = await resolveCategory(result.data.categoryId);
+  if (category.error) {
+    return { success: false, error: category.error };
+  }
   
   try {
     const tempId = `prod_${Date.now()}`;
-    const imageUrls = await Promise.all(result.data.images.map(image => uploadImage(image, tempId)));
+    const uploaded = await uploadImages(result.data.images, tempId);
 
-    const newProduct = {
+    const repository = await getProductRepository();
+    const product = await repository.create({
       ...result.data,
-      images: imageUrls,
-      createdAt: serverTimestamp(),
-    };
-
-    await addDoc(collection(db, 'products'), newProduct);
+      ...uploaded,
+      brand,
+      categoryId: category.categoryId,
+      tags: normalizeTags(result.data.tags ?? []),
+      variants: withOptionIds(result.data.variants),
+      structuredSpecs: normalizeSpecs(result.data.specs, result.data.description),
+    });
+    await auditRevision(await recordRevision({ action: 'create', actor: await getActor(), before: null, after: product }));
 
     revalidatePath('/admin');
     revalidatePath('/products');
+    revalidatePath('/category/[slug]', 'page');
     revalidatePath('/');
 
     return { success: true };
@@ -75,49 +191,76 @@ export async function addProduct(data: unknown) {
   }
 }
 
-export async function updateProduct(id: string, data: unknown) {
+// `loaded` is the stock as the form showed it (see inventoryFields). Stock the
+// admin did not touch is left as it is now; stock they changed is refused if it
+// moved in the meantime, e.g. because an order was confirmed.
+export async function updateProduct(id: string, data: unknown, loaded?: InventoryFields) {
+  const { denied } = await authorize('products:write');
+  if (denied) return formDenied(denied);
+
   const result = productSchema.safeParse(data);
   if (!result.success) {
     return { success: false, error: result.error.flatten() };
   }
+  const { brand, error } = await resolveBrand(result.data.brand);
+  if (!brand) {
+    return { success: false, error };
+  }
+  const category = await resolveCategory(result.data.categoryId);
+  if (category.error) {
+    return { success: false, error: category.error };
+  }
   
   try {
-    const productDocRef = doc(db, "products", id);
-    const existingDoc = await getDoc(productDocRef);
-    if (!existingDoc.exists()) {
+    const repository = await getProductRepository();
+    const productBeforeUpload = await repository.getById(id);
+    if (!productBeforeUpload) {
         return { success: false, error: { formErrors: ["Product not found"] } };
     }
 
-    const existingImages = existingDoc.data().images || [];
-    const submittedImages = result.data.images;
+    // Images dropped from the listing are kept on disk: earlier revisions still
+    // point at them, and restoring a revision brings them back.
+    const uploaded = await uploadImages(result.data.images, id, productBeforeUpload.imageVariants);
+    const variants = withOptionIds(result.data.variants);
 
-    const newImageUrls = await Promise.all(
-        submittedImages.map(img => img.startsWith('data:image') ? uploadImage(img, id) : Promise.resolve(img))
-    );
+    const saved = await withStockLock(async () => {
+      const existingProduct = await repository.getById(id);
+      if (!existingProduct) {
+        return { success: false, error: { formErrors: ['Product not found'] } };
+      }
 
-    // Clean up old images that were removed
-    const imagesToDelete = existingImages.filter((img: string) => !newImageUrls.includes(img));
-    for (const imageUrl of imagesToDelete) {
-        try {
-            const imageRef = ref(storage, imageUrl);
-            await deleteObject(imageRef);
-        } catch (err: any) {
-            if (err.code !== 'storage/object-not-found') {
-                console.error(`Failed to delete old image from storage: ${imageUrl}`, err);
-            }
-        }
-    }
-    
-    const updatedProductData = {
-      ...result.data,
-      images: newImageUrls,
-    };
+      const { merged, conflicts } = mergeInventoryEdit(
+        loaded ?? inventoryFields(productBeforeUpload),
+        inventoryFields({ ...result.data, variants }),
+        inventoryFields(existingProduct)
+      );
+      if (conflicts.length > 0) {
+        return { success: false, error: { formErrors: ['The stock of this product changed while you were editing it. Reload it and enter the stock again.'] } };
+      }
+
+      const updatedProductData = syncUnitStock({
+        ...result.data,
+        ...uploaded,
+        brand,
+        categoryId: category.categoryId,
+        tags: normalizeTags(result.data.tags ?? []),
+        stock: merged.stock,
+        availability: merged.availability,
+        variants: variants?.map(option => ({ ...option, stock: merged.optionStock[option.id] })),
+        structuredSpecs: normalizeSpecs(result.data.specs, result.data.description),
+        units: existingProduct.units,
+      });
 
-    await updateDoc(productDocRef, updatedProductData);
+      const updatedProduct = await repository.update(id, updatedProductData);
+      await auditRevision(await recordRevision({ action: 'update', actor: await getActor(), before: existingProduct, after: updatedProduct }));
+      return { success: true };
+    });
+    if (!saved.success) return saved;
 
     revalidatePath('/admin');
     revalidatePath('/products');
     revalidatePath(`/products/${id}`);
+    revalidatePath('/category/[slug]', 'page');
     revalidatePath('/');
 
     return { success: true };
@@ -127,34 +270,26 @@ export async function updateProduct(id: string, data: unknown) {
   }
 }
 
+// Moves a product to the trash. It disappears from the storefront but keeps its
+// images until it is purged, either by hand or after TRASH_RETENTION_DAYS.
 export async function deleteProduct(id: string) {
+  const { denied } = await authorize('products:delete');
+  if (denied) return denied;
+
   try {
-    const productDocRef = doc(db, 'products', id);
-    const productDoc = await getDoc(productDocRef);
-    if (!productDoc.exists()) {
+    const repository = await getProductRepository();
+    const productToDelete = await repository.getById(id);
+    if (!productToDelete || productToDelete.deletedAt) {
       return { success: false, error: 'Product not found' };
     }
-    
-    const productToDelete = productDoc.data() as Omit<Product, 'id'>;
-
-    // Delete associated images from Firebase Storage
-    if (productToDelete.images && productToDelete.images.length > 0) {
-      for (const imageUrl of productToDelete.images) {
-        try {
-            const imageRef = ref(storage, imageUrl);
-            await deleteObject(imageRef);
-        } catch (err: any) {
-            if (err.code !== 'storage/object-not-found') {
-                console.error(`Failed to delete image from storage: ${imageUrl}`, err);
-            }
-        }
-      }
-    }
-    
-    await deleteDoc(productDocRef);
+
+    await repository.save({ ...productToDelete, deletedAt: new Date().toISOString() });
+    await auditRevision(await recordRevision({ action: 'delete', actor: await getActor(), before: productToDelete, after: null }));
 
     revalidatePath('/admin');
+    revalidatePath('/admin/trash');
     revalidatePath('/products');
+    revalidatePath(`/products/${id}`);
     revalidatePath('/');
 
     return { success: true };
@@ -164,57 +299,1496 @@ export async function deleteProduct(id: string) {
   }
 }
 
+export async function restoreDeletedProduct(id: string) {
+  const { denied } = await authorize('products:write');
+  if (denied) return denied;
+
+  try {
+    const repository = await getProductRepository();
+    const trashed = await repository.getById(id);
+    if (!trashed || !trashed.deletedAt) {
+      return { success: false, error: 'Product is not in the trash' };
+    }
+
+    const { deletedAt, ...product } = trashed;
+    const restored = await repository.save({ ...product, updatedAt: new Date().toISOString() });
+    await auditRevision(await recordRevision({ action: 'restore', actor: await getActor(), before: trashed, after: restored }));
+
+    revalidatePath('/admin');
+    revalidatePath('/admin/trash');
+    revalidatePath('/products');
+    revalidatePath(`/products/${id}`);
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to restore product:', error);
+    return { success: false, error: 'Failed to restore product.' };
+  }
+}
+
+async function purge(product: Product) {
+    await deleteProductImages(product);
+
+    const repository = await getProductRepository();
+    await repository.delete(product.id);
+}
+
+// Permanently removes a trashed product and its images.
+export async function purgeProduct(id: string) {
+  const { denied } = await authorize('products:delete');
+  if (denied) return denied;
+
+  try {
+    const repository = await getProductRepository();
+    const product = await repository.getById(id);
+    if (!product || !product.deletedAt) {
+      return { success: false, error: 'Product is not in the trash' };
+    }
+
+    await purge(product);
+    await auditRevision(await recordRevision({ action: 'purge', actor: await getActor(), before: product, after: null }));
+
+    revalidatePath('/admin/trash');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to purge product:', error);
+    return { success: false, error: 'Failed to permanently delete product.' };
+  }
+}
+
+// Lists the trash, purging anything past the retention period first.
+export async function getTrashedProductsAction(): Promise<{ products: Product[]; retentionDays: number }> {
+    const { denied } = await authorize('products:read');
+    if (denied) return { products: [], retentionDays: TRASH_RETENTION_DAYS };
+
+    try {
+        await purgeExpiredTrash();
+        const repository = await getProductRepository();
+        return {
+            products: await repository.query({ status: 'trashed' }),
+            retentionDays: TRASH_RETENTION_DAYS,
+        };
+    } catch (error) {
+        console.error("Error fetching trash:", error);
+        return { products: [], retentionDays: TRASH_RETENTION_DAYS };
+    }
+}
+
 export async function getProductsAction(): Promise<Product[]> {
+    const { denied } = await authorize('products:read');
+    if (denied) return [];
+
     try {
-        const productsCol = collection(db, 'products');
-        const q = query(productsCol, orderBy('createdAt', 'desc'));
-        const productSnapshot = await getDocs(q);
-        const productList = productSnapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-        } as Product));
-        return productList;
+        const repository = await getProductRepository();
+        return await repository.query({});
     } catch (error) {
-        console.error("Error fetching products from Firestore:", error);
+        console.error("Error fetching products:", error);
         return [];
     }
 }
 
+export async function getProductRevisionsAction(productId: string) {
+    const { denied } = await authorize('products:read');
+    if (denied) return [];
 
-// --- Auth Logic ---
+    try {
+        return await getProductRevisions(productId);
+    } catch (error) {
+        console.error("Error fetching product history:", error);
+        return [];
+    }
+}
 
-const credentialsSchema = z.object({
-  currentPassword: z.string().min(1, 'Current password is required'),
-  newUsername: z.string().min(1, 'New username is required'),
-  newPassword: z.string().min(6, 'New password must be at least 6 characters'),
-});
+// Brings back an earlier version of a product's listing. Inventory (stock,
+// availability, unit statuses and option stock) stays as it is now.
+export async function restoreProductRevision(revisionId: string) {
+  const { denied } = await authorize('products:write');
+  if (denied) return denied;
 
-export async function updateCredentials(data: unknown) {
-  const result = credentialsSchema.safeParse(data);
+  try {
+    const revision = await getRevision(revisionId);
+    if (!revision) {
+      return { success: false, error: 'Revision not found' };
+    }
+
+    const repository = await getProductRepository();
+    const snapshot = upgradeProduct(revision.snapshot);
+    const { current, restored } = await withStockLock(async () => {
+      const current = await repository.getById(revision.productId);
+      const restored = await repository.save({
+        ...(current ? withCurrentInventory(snapshot, current) : snapshot),
+        updatedAt: new Date().toISOString(),
+      });
+      return { current, restored };
+    });
+    const restoredRevision = await recordRevision({
+      action: 'restore',
+      actor: await getActor(),
+      before: current,
+      after: restored,
+      restoredFrom: revision.id,
+    });
+    await auditRevision(restoredRevision, `Restored "${revision.productName}" to the version from ${revision.createdAt}`);
+
+    revalidatePath('/admin');
+    revalidatePath('/products');
+    revalidatePath(`/products/${revision.productId}`);
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to restore revision:', error);
+    return { success: false, error: 'Failed to restore revision.' };
+  }
+}
+
+
+// --- Inventory Units ---
+
+type UnitChange =
+  | { type: 'add'; data: unknown }
+  // loadedStatus: the unit's status when the form was opened.
+  | { type: 'update'; unitId: string; data: unknown; loadedStatus?: InventoryUnit['status'] }
+  | { type: 'delete'; unitId: string };
+
+// Applies one change to a listing's units, keeps its stock count in step and
+// records the change as a product revision. Unit photos dropped by an edit are
+// kept on disk for the same reason product photos are. Runs under the stock
+// lock, since unit statuses are stock: an edit that leaves the status as it was
+// loaded keeps the current one, and changing a status that moved meanwhile
+// (e.g. the unit was sold) is refused.
+function changeUnits(productId: string, change: UnitChange) {
+  return withStockLock(() => changeUnitsLocked(productId, change));
+}
+
+async function changeUnitsLocked(productId: string, change: UnitChange) {
+  const repository = await getProductRepository();
+  const product = await repository.getById(productId);
+  if (!product || product.deletedAt) {
+    return { success: false, error: { formErrors: ['Product not found'] } };
+  }
+
+  const units = [...(product.units ?? [])];
+  const index = change.type === 'add' ? -1 : units.findIndex(unit => unit.id === change.unitId);
+  if (change.type !== 'add' && index === -1) {
+    return { success: false, error: { formErrors: ['Unit not found'] } };
+  }
+
+  if (change.type === 'delete') {
+    units.splice(index, 1);
+  } else {
+    const result = unitSchema.safeParse(change.data);
+    if (!result.success) {
+      return { success: false, error: result.error.flatten() };
+    }
+
+    const unitId = change.type === 'add' ? createUnitId() : change.unitId;
+    const serial = result.data.serialNumber.toLowerCase();
+    const duplicate = (await repository.list()).find(other =>
+      other.units?.some(unit => unit.id !== unitId && unit.serialNumber.toLowerCase() === serial)
+    );
+    if (duplicate) {
+      return { success: false, error: { formErrors: [`Serial number ${result.data.serialNumber} is already recorded on "${duplicate.name}".`] } };
+    }
+
+    const existing = index === -1 ? undefined : units[index];
+    let status = result.data.status;
+    if (existing && change.type === 'update' && change.loadedStatus) {
+      if (status === change.loadedStatus) {
+        status = existing.status;
+      } else if (existing.status !== change.loadedStatus) {
+        return { success: false, error: { formErrors: [`This unit was marked ${UNIT_STATUS_LABELS[existing.status].toLowerCase()} while you were editing it. Reload it and try again.`] } };
+      }
+    }
+
+    const uploaded = await uploadImages(result.data.images, productId, existing?.imageVariants);
+    const unit: InventoryUnit = {
+      ...result.data,
+      ...uploaded,
+      status,
+      id: unitId,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    if (index === -1) units.push(unit);
+    else units[index] = unit;
+  }
+
+  // With no units left the listing falls back to its hand-entered stock, which is zero.
+  const updated = await repository.update(productId, units.length > 0 ? syncUnitStock({ ...product, units }) : { units, stock: 0 });
+  const revision = await recordRevision({ action: 'update', actor: await getActor(), before: product, after: updated });
+  const verbs = { add: 'Added a unit to', update: 'Edited a unit of', delete: 'Removed a unit from' };
+  await auditRevision(revision, `${verbs[change.type]} "${product.name}"`);
+
+  revalidatePath('/admin');
+  revalidatePath('/products');
+  revalidatePath(`/products/${productId}`);
+  revalidatePath('/');
+
+  return { success: true };
+}
+
+export async function addProductUnit(productId: string, data: unknown) {
+  const { denied } = await authorize('products:write');
+  if (denied) return formDenied(denied);
+
+  try {
+    return await changeUnits(productId, { type: 'add', data });
+  } catch (error) {
+    console.error('Failed to add unit:', error);
+    return { success: false, error: { formErrors: ['Failed to save unit.'] } };
+  }
+}
+
+export async function updateProductUnit(productId: string, unitId: string, data: unknown, loadedStatus?: InventoryUnit['status']) {
+  const { denied } = await authorize('products:write');
+  if (denied) return formDenied(denied);
+
+  try {
+    return await changeUnits(productId, { type: 'update', unitId, data, loadedStatus });
+  } catch (error) {
+    console.error('Failed to update unit:', error);
+    return { success: false, error: { formErrors: ['Failed to update unit.'] } };
+  }
+}
+
+export async function deleteProductUnit(productId: string, unitId: string) {
+  const { denied } = await authorize('products:write');
+  if (denied) return formDenied(denied);
+
+  try {
+    return await changeUnits(productId, { type: 'delete', unitId });
+  } catch (error) {
+    console.error('Failed to delete unit:', error);
+    return { success: false, error: { formErrors: ['Failed to delete unit.'] } };
+  }
+}
+
+
+// --- Brands ---
+
+export async function getBrandsAction(): Promise<(Brand & { productCount: number })[]> {
+  const { denied } = await authorize('products:read');
+  if (denied) return [];
+
+  try {
+    const repository = await getProductRepository();
+    const [brands, products] = await Promise.all([getBrands(), repository.list()]);
+    return brands.map(brand => ({
+      ...brand,
+      productCount: products.filter(product => product.brand === brand.name).length,
+    }));
+  } catch (error) {
+    console.error('Error fetching brands:', error);
+    return [];
+  }
+}
+
+// Creates a brand, or updates the one with `id`. Renaming a brand renames it on
+// every product that uses it.
+export async function saveBrand(id: string | null, data: unknown) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return formDenied(denied);
+
+  const result = brandSchema.safeParse(data);
   if (!result.success) {
     return { success: false, error: result.error.flatten() };
   }
 
   try {
-    const currentCreds = await getAuthCredentials();
-    
-    // In a real app, you would hash and compare passwords.
-    if (result.data.currentPassword !== currentCreds.password) {
-        return { success: false, error: { formErrors: ['Incorrect current password.'] } };
+    const brands = await getBrands();
+    const existing = id ? brands.find(brand => brand.id === id) : undefined;
+    if (id && !existing) {
+      return { success: false, error: { formErrors: ['Brand not found'] } };
+    }
+
+    const slug = result.data.slug || slugify(result.data.name);
+    const clash = brands.find(brand => brand.id !== id && (brand.slug === slug || brand.name.toLowerCase() === result.data.name.toLowerCase()));
+    if (clash) {
+      return { success: false, error: { formErrors: [`"${clash.name}" already uses that name or slug.`] } };
     }
 
-    const newCreds = {
-        username: result.data.newUsername,
-        password: result.data.newPassword,
+    let logo = result.data.logo || undefined;
+    if (logo?.startsWith('data:image')) {
+      logo = await processBrandLogo(decodeImageDataUri(logo), slug);
+    }
+
+    const now = new Date().toISOString();
+    const brand: Brand = {
+      id: existing?.id ?? slug,
+      name: result.data.name,
+      slug,
+      logo,
+      sortOrder: result.data.sortOrder,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
     };
+    await updateBrands(current => existing
+      ? current.map(other => (other.id === brand.id ? brand : other))
+      : [...current, brand]);
+
+    let renamedProducts = 0;
+    if (existing && existing.name !== brand.name) {
+      const repository = await getProductRepository();
+      const actor = await getActor();
+      for (const product of await repository.list()) {
+        if (product.brand !== existing.name) continue;
+        const renamed = await repository.update(product.id, { brand: brand.name });
+        await recordRevision({ action: 'update', actor, before: product, after: renamed });
+        renamedProducts++;
+      }
+    }
 
-    await saveAuthCredentials(newCreds);
+    const changes = existing ? recordChanges(existing, brand) : [];
+    await audit(
+      existing ? 'brand.update' : 'brand.create',
+      changeSummary(`${existing ? 'Updated' : 'Created'} brand "${brand.name}"`, changes),
+      { target: { type: 'brand', id: brand.id, name: brand.name }, details: existing ? { changes, renamedProducts } : undefined }
+    );
+
+    revalidatePath('/admin/brands');
+    revalidatePath('/products');
+    revalidatePath('/');
 
-    revalidatePath('/admin/settings');
-    
     return { success: true };
   } catch (error) {
-    console.error('Failed to update credentials:', error);
-    return { success: false, error: { formErrors: ['Failed to update credentials.'] } };
+    console.error('Failed to save brand:', error);
+    return { success: false, error: { formErrors: ['Failed to save brand.'] } };
+  }
+}
+
+// Only brands no product uses (trashed ones included) can be deleted. The old
+// logo stays on disk until the uploads cleanup removes it.
+export async function deleteBrand(id: string) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  try {
+    const brands = await getBrands();
+    const brand = brands.find(other => other.id === id);
+    if (!brand) {
+      return { success: false, error: 'Brand not found' };
+    }
+
+    const repository = await getProductRepository();
+    const inUse = (await repository.list()).filter(product => product.brand === brand.name).length;
+    if (inUse > 0) {
+      return { success: false, error: `${inUse} product${inUse === 1 ? '' : 's'} still use ${brand.name}.` };
+    }
+
+    await updateBrands(current => current.filter(other => other.id !== id));
+    await audit('brand.delete', `Deleted brand "${brand.name}"`, { target: { type: 'brand', id, name: brand.name } });
+
+    revalidatePath('/admin/brands');
+    revalidatePath('/products');
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete brand:', error);
+    return { success: false, error: 'Failed to delete brand.' };
+  }
+}
+
+
+
+// --- Categories & Tags ---
+
+export async function getCategoriesAction(): Promise<(Category & { depth: number; productCount: number })[]> {
+  const { denied } = await authorize('products:read');
+  if (denied) return [];
+
+  try {
+    const repository = await getProductRepository();
+    const [categories, products] = await Promise.all([getCategories(), repository.list()]);
+    return categories.map(category => ({
+      ...category,
+      productCount: products.filter(product => product.categoryId === category.id).length,
+    }));
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    return [];
+  }
+}
+
+// Creates a category, or updates the one with `id`. Products reference categories
+// by id, so a rename needs no changes to them.
+export async function saveCategory(id: string | null, data: unknown) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return formDenied(denied);
+
+  const result = categorySchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    const categories = await getCategories();
+    const existing = id ? categories.find(category => category.id === id) : undefined;
+    if (id && !existing) {
+      return { success: false, error: { formErrors: ['Category not found'] } };
+    }
+
+    const slug = result.data.slug || slugify(result.data.name);
+    const clash = categories.find(category => category.id !== id && category.slug === slug);
+    if (clash) {
+      return { success: false, error: { formErrors: [`"${clash.name}" already uses the slug "${slug}".`] } };
+    }
+
+    const parentId = result.data.parentId || undefined;
+    if (parentId && !categories.some(category => category.id === parentId)) {
+      return { success: false, error: { formErrors: ['The parent category no longer exists.'] } };
+    }
+    if (existing && parentId && descendantIds(categories, existing.id).includes(parentId)) {
+      return { success: false, error: { formErrors: ['A category cannot be placed inside itself or one of its subcategories.'] } };
+    }
+
+    const now = new Date().toISOString();
+    const category: Category = {
+      id: existing?.id ?? slug,
+      name: result.data.name,
+      slug,
+      parentId,
+      description: result.data.description || undefined,
+      sortOrder: result.data.sortOrder,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await updateCategories(current => existing
+      ? current.map(other => (other.id === category.id ? category : other))
+      : [...current, category]);
+
+    // `depth` is worked out from the tree on every read, not stored.
+    const { depth, ...stored } = existing ?? { depth: 0 };
+    const changes = existing ? recordChanges(stored, category) : [];
+    await audit(
+      existing ? 'category.update' : 'category.create',
+      changeSummary(`${existing ? 'Updated' : 'Created'} category "${category.name}"`, changes),
+      { target: { type: 'category', id: category.id, name: category.name }, details: existing ? { changes } : undefined }
+    );
+
+    revalidatePath('/admin/categories');
+    revalidatePath('/products');
+    revalidatePath('/category/[slug]', 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to save category:', error);
+    return { success: false, error: { formErrors: ['Failed to save category.'] } };
+  }
+}
+
+// Only empty categories can be deleted: no subcategories and no products
+// (trashed ones included).
+export async function deleteCategory(id: string) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  try {
+    const categories = await getCategories();
+    const category = categories.find(other => other.id === id);
+    if (!category) {
+      return { success: false, error: 'Category not found' };
+    }
+    if (categories.some(other => other.parentId === id)) {
+      return { success: false, error: `${category.name} still has subcategories.` };
+    }
+
+    const repository = await getProductRepository();
+    const inUse = (await repository.list()).filter(product => product.categoryId === id).length;
+    if (inUse > 0) {
+      return { success: false, error: `${inUse} product${inUse === 1 ? ' is' : 's are'} still listed under ${category.name}.` };
+    }
+
+    await updateCategories(current => current.filter(other => other.id !== id));
+    await audit('category.delete', `Deleted category "${category.name}"`, { target: { type: 'category', id, name: category.name } });
+
+    revalidatePath('/admin/categories');
+    revalidatePath('/products');
+    revalidatePath('/category/[slug]', 'page');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete category:', error);
+    return { success: false, error: 'Failed to delete category.' };
+  }
+}
+
+export async function getTagsAction(): Promise<{ tag: string; count: number }[]> {
+  const { denied } = await authorize('products:read');
+  if (denied) return [];
+
+  try {
+    const repository = await getProductRepository();
+    return tagCounts(await repository.list());
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return [];
+  }
+}
+
+// Renames a tag on every product that has it, or removes it when `to` is null.
+// Renaming onto an existing tag merges the two.
+async function replaceTag(from: string, to: string | null) {
+  const repository = await getProductRepository();
+  const actor = await getActor();
+  let changed = 0;
+  for (const product of await repository.list()) {
+    if (!product.tags?.includes(from)) continue;
+    const tags = normalizeTags(product.tags.flatMap(tag => (tag === from ? (to ? [to] : []) : [tag])));
+    const updated = await repository.update(product.id, { tags });
+    await recordRevision({ action: 'update', actor, before: product, after: updated });
+    changed++;
+  }
+
+  revalidatePath('/admin/categories');
+  revalidatePath('/products');
+  revalidatePath('/category/[slug]', 'page');
+  return changed;
+}
+
+export async function renameTag(from: string, to: string) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  const [tag] = normalizeTags([to]);
+  if (!tag) {
+    return { success: false, error: 'The new tag name is empty.' };
+  }
+  try {
+    const changed = await replaceTag(from, tag);
+    await audit('tag.rename', `Renamed tag "${from}" to "${tag}" on ${changed} product(s)`, { target: { type: 'tag', name: from }, details: { to: tag, products: changed } });
+    return { success: true, changed };
+  } catch (error) {
+    console.error('Failed to rename tag:', error);
+    return { success: false, error: 'Failed to rename tag.' };
+  }
+}
+
+export async function deleteTag(tag: string) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  try {
+    const changed = await replaceTag(tag, null);
+    await audit('tag.delete', `Removed tag "${tag}" from ${changed} product(s)`, { target: { type: 'tag', name: tag }, details: { products: changed } });
+    return { success: true, changed };
+  } catch (error) {
+    console.error('Failed to delete tag:', error);
+    return { success: false, error: 'Failed to delete tag.' };
+  }
+}
+
+// --- Home Page ---
+
+export async function getHomepageConfigAction(): Promise<HomepageConfig> {
+  const { denied } = await authorize('content:manage');
+  if (denied) return { banners: [], sections: [] };
+
+  return getHomepageConfig();
+}
+
+// Creates a banner, or updates the one with `id`. A replaced image stays on
+// disk until the uploads cleanup removes it.
+export async function saveHomepageBanner(id: string | null, data: unknown) {
+  const { denied } = await authorize('content:manage');
+  if (denied) return formDenied(denied);
+
+  const result = heroBannerSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    const { image, startsAt, endsAt, ...fields } = result.data;
+    const existing = id ? (await getHomepageConfig()).banners.find(banner => banner.id === id) : undefined;
+    if (id && !existing) {
+      return { success: false, error: { formErrors: ['Banner not found'] } };
+    }
+
+    let imageFields: Pick<HeroBanner, 'image' | 'imageVariants'> = {};
+    if (image?.startsWith('data:image')) {
+      const processed = await processImage(decodeImageDataUri(image), 'banner');
+      imageFields = { image: processed.url, imageVariants: { [processed.url]: processed.image } };
+    } else if (image && existing?.image === image) {
+      imageFields = { image, imageVariants: existing.imageVariants };
+    }
+
+    const banner: HeroBanner = {
+      ...fields,
+      ...imageFields,
+      id: existing?.id ?? createHomepageId('banner'),
+      startsAt: startsAt ? new Date(startsAt).toISOString() : undefined,
+      endsAt: endsAt ? new Date(endsAt).toISOString() : undefined,
+    };
+    await updateHomepageConfig(config => ({
+      ...config,
+      banners: existing
+        ? config.banners.map(other => (other.id === banner.id ? banner : other))
+        : [...config.banners, banner],
+    }));
+    const changes = existing ? recordChanges(existing, banner) : [];
+    await audit(
+      existing ? 'homepage.banner_update' : 'homepage.banner_create',
+      changeSummary(`${existing ? 'Updated' : 'Added'} home page banner "${banner.headline}"`, changes),
+      { target: { type: 'banner', id: banner.id, name: banner.headline }, details: existing ? { changes } : undefined }
+    );
+
+    revalidatePath('/admin/homepage');
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to save banner:', error);
+    return { success: false, error: { formErrors: ['Failed to save banner.'] } };
+  }
+}
+
+export async function deleteHomepageBanner(id: string) {
+  const { denied } = await authorize('content:manage');
+  if (denied) return denied;
+
+  try {
+    let removed: HeroBanner | undefined;
+    await updateHomepageConfig(config => {
+      removed = config.banners.find(banner => banner.id === id);
+      return { ...config, banners: config.banners.filter(banner => banner.id !== id) };
+    });
+    if (removed) {
+      await audit('homepage.banner_delete', `Deleted home page banner "${removed.headline}"`, { target: { type: 'banner', id, name: removed.headline } });
+    }
+
+    revalidatePath('/admin/homepage');
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to delete banner:', error);
+    return { success: false, error: 'Failed to delete banner.' };
+  }
+}
+
+// Banners are shown in this order; ids not listed keep their place at the end.
+export async function reorderHomepageBanners(ids: string[]) {
+  const { denied } = await authorize('content:manage');
+  if (denied) return denied;
+
+  try {
+    await updateHomepageConfig(config => ({
+      ...config,
+      banners: [
+        ...ids.map(id => config.banners.find(banner => banner.id === id)).filter((banner): banner is HeroBanner => !!banner),
+        ...config.banners.filter(banner => !ids.includes(banner.id)),
+      ],
+    }));
+    await audit('homepage.banner_reorder', 'Reordered the home page banners', { details: { order: ids } });
+
+    revalidatePath('/admin/homepage');
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to reorder banners:', error);
+    return { success: false, error: 'Failed to reorder banners.' };
+  }
+}
+
+// Replaces the section list as a whole: order, visibility and settings.
+export async function saveHomepageSections(data: unknown) {
+  const { denied } = await authorize('content:manage');
+  if (denied) return denied;
+
+  const result = z.array(homepageSectionSchema).safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.issues.map(issue => `Section ${Number(issue.path[0]) + 1}: ${issue.message}`).join(' ') };
+  }
+
+  try {
+    await updateHomepageConfig(config => ({
+      ...config,
+      sections: result.data.map(section => ({ ...section, id: section.id || createHomepageId('section') })),
+    }));
+    await audit('homepage.sections', 'Updated the home page sections', { details: { sections: result.data.map(section => section.type) } });
+
+    revalidatePath('/admin/homepage');
+    revalidatePath('/');
+
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to save home page sections:', error);
+    return { success: false, error: 'Failed to save home page sections.' };
+  }
+}
+
+
+// --- Catalog Import / Export ---
+
+export async function exportCatalogAction(format: CatalogFormat) {
+  const { denied } = await authorize('products:read');
+  if (denied) return denied;
+
+  try {
+    const repository = await getProductRepository();
+    const file = exportCatalog(await repository.query({}), format);
+    return {
+      success: true,
+      file: { fileName: file.fileName, mimeType: file.mimeType, base64: file.data.toString('base64') },
+    };
+  } catch (error) {
+    console.error('Failed to export catalog:', error);
+    return { success: false, error: 'Failed to export catalog.' };
+  }
+}
+
+async function readImportForm(formData: FormData) {
+  const file = formData.get('file');
+  if (!(file instanceof File) || file.size === 0) {
+    throw new Error('Choose a CSV or XLSX file to import.');
+  }
+  const zip = formData.get('images');
+  const zipImages = zip instanceof File && zip.size > 0
+    ? await readImagesZip(Buffer.from(await zip.arrayBuffer()))
+    : new Map<string, Buffer>();
+
+  const repository = await getProductRepository();
+  const products = await repository.query({});
+  const plan = planCatalogImport(Buffer.from(await file.arrayBuffer()), products, zipImages, await getBrands());
+  return { repository, products, plan, zipImages };
+}
+
+// Shows what an import would create, update or reject, without saving anything.
+export async function previewCatalogImport(formData: FormData) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  try {
+    const { plan } = await readImportForm(formData);
+    return { success: true, plan: { ...plan, rows: plan.rows.map(({ input, ...row }) => row) } };
+  } catch (error) {
+    console.error('Failed to preview import:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to read the import file.' };
+  }
+}
+
+// Applies every valid row. Rows with errors, and updates that change nothing, are
+// skipped, as are rows that change the stock of a product whose stock moved while
+// the import ran (e.g. an order was confirmed); stock a row leaves as it was is
+// not written at all.
+export async function commitCatalogImport(formData: FormData) {
+  const { denied } = await authorize('catalog:manage');
+  if (denied) return denied;
+
+  try {
+    const { repository, products, plan, zipImages } = await readImportForm(formData);
+    const planned = new Map(products.map(product => [product.id, product]));
+    const actor = await getActor();
+    let created = 0;
+    let updated = 0;
+    let stale = 0;
+
+    for (const row of plan.rows) {
+      if (!row.input) continue;
+
+      if (row.action === 'create') {
+        const tempId = `prod_${Date.now()}`;
+        const uploaded = await uploadImages(row.input.images, tempId, {}, zipImages);
+        const product = await repository.create({
+          ...row.input,
+          ...uploaded,
+          structuredSpecs: normalizeSpecs(row.input.specs, row.input.description),
+        });
+        await recordRevision({ action: 'create', actor, before: null, after: product });
+        created++;
+      } else if (row.action === 'update' && row.productId && row.changes.length > 0) {
+        const productId = row.productId;
+        const input = row.input;
+        const plannedProduct = planned.get(productId);
+        if (!plannedProduct) continue;
+        const uploaded = await uploadImages(input.images, productId, plannedProduct.imageVariants, zipImages);
+
+        const outcome = await withStockLock(async () => {
+          const existingProduct = await repository.getById(productId);
+          if (!existingProduct) return 'missing';
+          // The sheet has no option stock, so only the listing's own stock is merged.
+          const { merged, conflicts } = mergeInventoryEdit(
+            inventoryFields({ ...plannedProduct, variants: [] }),
+            inventoryFields({ ...input, variants: [] }),
+            inventoryFields({ ...existingProduct, variants: [] })
+          );
+          if (conflicts.length > 0) return 'stale';
+
+          const product = await repository.update(productId, syncUnitStock({
+            ...input,
+            ...uploaded,
+            stock: merged.stock,
+            availability: merged.availability,
+            structuredSpecs: normalizeSpecs(input.specs, input.description),
+            units: existingProduct.units,
+          }));
+          await recordRevision({ action: 'update', actor, before: existingProduct, after: product });
+          return 'updated';
+        });
+        if (outcome === 'updated') updated++;
+        if (outcome === 'stale') stale++;
+      }
+    }
+
+    const skipped = plan.summary.error + stale;
+    const file = formData.get('file');
+    await audit('import.commit', `Imported the catalog: ${created} created, ${updated} updated, ${skipped} skipped`, {
+      details: { fileName: file instanceof File ? file.name : undefined, created, updated, skipped, ...(stale > 0 ? { staleStock: stale } : {}) },
+    });
+
+    revalidatePath('/admin');
+    revalidatePath('/products');
+    revalidatePath('/');
+
+    return { success: true, summary: { created, updated, skipped, staleStock: stale } };
+  } catch (error) {
+    console.error('Failed to import catalog:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to import catalog.' };
+  }
+}
+
+
+// --- Upload Maintenance ---
+
+export async function scanUploadsAction() {
+  const { denied } = await authorize('uploads:manage');
+  if (denied) return denied;
+
+  try {
+    return { success: true, report: await scanUploads() };
+  } catch (error) {
+    console.error('Failed to scan uploads:', error);
+    return { success: false, error: 'Failed to scan uploads.' };
+  }
+}
+
+export async function deleteOrphanedUploadsAction(urls: string[]) {
+  const { denied } = await authorize('uploads:manage');
+  if (denied) return denied;
+
+  try {
+    const summary = await deleteOrphanedUploads(urls);
+    await audit('upload.delete_orphans', `Deleted ${summary.deleted} unused upload(s)`, { details: summary });
+    return { success: true, summary };
+  } catch (error) {
+    console.error('Failed to delete orphaned uploads:', error);
+    return { success: false, error: 'Failed to delete orphaned uploads.' };
+  }
+}
+
+// --- Orders ---
+
+const orderQuerySchema = z.object({
+  status: z.string().optional(),
+  search: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().or(z.literal('')),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().or(z.literal('')),
+});
+
+function parseOrderQuery(query: unknown): OrderQuery {
+  const result = orderQuerySchema.safeParse(query ?? {});
+  if (!result.success) return {};
+  const { status, search, from, to } = result.data;
+  return {
+    status: status && Object.hasOwn(ORDER_STATUS_LABELS, status) ? (status as OrderStatus) : undefined,
+    search: search || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  };
+}
+
+export async function getOrdersAction(query: unknown): Promise<Order[]> {
+  const { denied } = await authorize('orders:manage');
+  if (denied) return [];
+
+  try {
+    return filterOrders(await getOrders(), parseOrderQuery(query));
+  } catch (error) {
+    console.error('Error fetching orders:', error);
+    return [];
+  }
+}
+
+// Takes a confirmed order's items out of stock (-1), or puts a cancelled one's
+// back (+1), returning each product as it was and as it is now. If a product
+// cannot be changed, the ones already changed are put back before the error is
+// passed on.
+async function adjustStockForOrder(order: Order, direction: -1 | 1) {
+  const repository = await getProductRepository();
+  const changes: { before: Product; after: Product }[] = [];
+  try {
+    for (const productId of new Set(order.items.map(item => item.productId))) {
+      const product = await repository.getById(productId);
+      if (!product) continue; // Purged since; there is no stock left to adjust.
+
+      const adjusted = adjustOrderStock(product, order.items, direction);
+      const updated = await repository.update(productId, { units: adjusted.units, variants: adjusted.variants, stock: adjusted.stock });
+      if (updated) changes.push({ before: product, after: updated });
+    }
+  } catch (error) {
+    await undoStockForOrder(order, direction, changes);
+    throw error;
+  }
+  return changes;
+}
+
+// Reverses adjustStockForOrder on the products it changed, applied to them as
+// they are now so that edits made in the meantime are kept.
+async function undoStockForOrder(order: Order, direction: -1 | 1, changes: { before: Product }[]) {
+  const repository = await getProductRepository();
+  for (const { before } of changes) {
+    const product = await repository.getById(before.id);
+    if (!product) continue;
+    const adjusted = adjustOrderStock(product, order.items, direction < 0 ? 1 : -1);
+    await repository.update(product.id, { units: adjusted.units, variants: adjusted.variants, stock: adjusted.stock });
+  }
+}
+
+// Moves an order one step along its workflow with an internal note. Confirming
+// takes the items out of stock; cancelling a confirmed order puts them back.
+// Returned machines are checked over before being listed again, so a return
+// leaves stock to be updated by hand.
+//
+// Everything runs under the stock lock: the order is read, stock is checked
+// and changed, and only then is the new status saved. If saving fails, the
+// stock change is undone.
+export async function updateOrderStatus(id: string, data: unknown) {
+  const { user, denied } = await authorize('orders:manage');
+  if (denied) return formDenied(denied);
+
+  const result = orderStatusChangeSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+  const { status, note } = result.data;
+
+  try {
+    return await withStockLock(async () => {
+      const order = await getOrderById(id);
+      if (!order) {
+        return { success: false, error: { formErrors: ['Order not found'] } };
+      }
+      if (!canTransition(order.status, status)) {
+        return { success: false, error: { formErrors: [`A ${ORDER_STATUS_LABELS[order.status].toLowerCase()} order cannot be marked ${ORDER_STATUS_LABELS[status].toLowerCase()}.`] } };
+      }
+
+      const deduct = status === 'confirmed';
+      const restore = status === 'cancelled' && Boolean(order.stockDeducted);
+      if (deduct) {
+        const repository = await getProductRepository();
+        const current = new Map((await repository.list()).map(product => [product.id, product]));
+        const problems = orderStockProblems(order.items, current);
+        if (problems.length > 0) {
+          return {
+            success: false,
+            error: { formErrors: problems.map(problem => `Only ${problem.available} of ${problem.name} in stock (the order needs ${problem.requested}).`) },
+          };
+        }
+      }
+
+      const stockChanges = deduct || restore ? await adjustStockForOrder(order, deduct ? -1 : 1) : [];
+
+      // Only applied if nobody moved the order on since it was read; otherwise
+      // the stock change is undone.
+      const at = new Date().toISOString();
+      let changed = false;
+      try {
+        await updateOrders(orders => orders.map(other => {
+          if (other.id !== id || other.status !== order.status) return other;
+          changed = true;
+          return {
+            ...other,
+            status,
+            stockDeducted: deduct || (other.stockDeducted && !restore) || undefined,
+            history: [...other.history, { status, at, actor: user.username, ...(note ? { note } : {}) }],
+            updatedAt: at,
+          };
+        }));
+      } catch (error) {
+        await undoStockForOrder(order, deduct ? -1 : 1, stockChanges);
+        throw error;
+      }
+      if (!changed) {
+        await undoStockForOrder(order, deduct ? -1 : 1, stockChanges);
+        return { success: false, error: { formErrors: ['Someone else has just updated this order. Reload it and try again.'] } };
+      }
+
+      const actor = await getActor();
+      for (const { before, after } of stockChanges) {
+        const revision = await recordRevision({ action: 'update', actor, before, after });
+        await auditRevision(revision, `${deduct ? 'Took stock for' : 'Returned stock from'} order ${order.reference}: "${before.name}"`);
+        revalidatePath(`/products/${before.id}`);
+      }
+      if (stockChanges.length > 0) {
+        revalidatePath('/admin');
+        revalidatePath('/products');
+        revalidatePath('/');
+      }
+
+      const summary = `Marked order ${order.reference} as ${ORDER_STATUS_LABELS[status].toLowerCase()}`;
+      await audit(`order.${status}`, note ? `${summary}: ${note}` : summary, {
+        target: { type: 'order', id: order.id, name: order.reference },
+        details: { from: order.status, to: status, ...(note ? { note } : {}) },
+      });
+      revalidatePath('/admin/orders');
+      return { success: true };
+    });
+  } catch (error) {
+    console.error('Failed to update order status:', error);
+    const message = error instanceof Error && error.message.startsWith('Not enough stock') ? error.message : 'Failed to update the order.';
+    return { success: false, error: { formErrors: [message] } };
+  }
+}
+
+
+// --- Auth Logic ---
+
+const credentialsSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newUsername: z.string().trim().min(1, 'New username is required'),
+  newPassword: passwordSchema,
+}).refine(data => !data.newPassword.toLowerCase().includes(data.newUsername.toLowerCase()), {
+  message: 'Password cannot contain the username',
+  path: ['newPassword'],
+}).refine(data => data.newPassword !== data.currentPassword, {
+  message: 'New password must differ from the current one',
+  path: ['newPassword'],
+});
+
+export async function updateCredentials(data: unknown) {
+  const { session, user, denied } = await authorize('account:manage');
+  if (denied) return formDenied(denied);
+
+  const result = credentialsSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    if (!(await verifyUserPassword(user, result.data.currentPassword))) {
+        return { success: false, error: { formErrors: ['Incorrect current password.'] } };
+    }
+    const taken = findUserByUsername(await getUsers(), result.data.newUsername);
+    if (taken && taken.id !== user.id) {
+        return { success: false, error: { formErrors: ['That username is already taken.'] } };
+    }
+
+    await setUserPassword(user.id, result.data.newPassword, { username: result.data.newUsername });
+
+    // Anyone else holding a session signed in with the old password is logged out.
+    await revokeAllSessions(user.id, session.id);
+    await renameSessionUser(user.id, result.data.newUsername);
+    await audit(
+      'account.credentials',
+      user.username === result.data.newUsername ? 'Changed their password' : `Changed their password and username from "${user.username}"`,
+      { target: { type: 'user', id: user.id, name: result.data.newUsername } }
+    );
+
+    revalidatePath('/admin/settings');
+    
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update credentials:', error);
+    return { success: false, error: { formErrors: ['Failed to update credentials.'] } };
+  }
+}
+
+
+// --- Two-factor login ---
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your app'),
+});
+
+const confirmPasswordSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+});
+
+function updateUser(id: string, changes: Partial<AdminUser>) {
+  const updatedAt = new Date().toISOString();
+  return updateUsers(users => users.map(user => (user.id === id ? { ...user, ...changes, updatedAt } : user)));
+}
+
+export async function getTwoFactorStatusAction() {
+  const { user, denied } = await authorize('account:manage');
+  if (denied) return { enabled: false, recoveryCodesLeft: 0 };
+  return { enabled: Boolean(user.totpSecret), recoveryCodesLeft: user.recoveryCodeHashes?.length ?? 0 };
+}
+
+// Starts enrollment with a new secret, returned both as text and as a QR code
+// image for the authenticator app. Nothing changes for logging in until the
+// secret is confirmed with a code.
+export async function beginTwoFactorSetup() {
+  const { user, denied } = await authorize('account:manage');
+  if (denied) return denied;
+
+  if (user.totpSecret) {
+    return { success: false, error: 'Two-factor login is already on.' };
+  }
+
+  try {
+    const secret = generateTotpSecret();
+    await updateUser(user.id, { totpPendingSecret: secret });
+    const qrCode = await QRCode.toDataURL(totpUri(secret, user.username), { margin: 1, width: 220 });
+    return { success: true, secret, qrCode };
+  } catch (error) {
+    console.error('Failed to start two-factor setup:', error);
+    return { success: false, error: 'Failed to start setting up two-factor login.' };
+  }
+}
+
+// Turns two-factor login on once the user proves their app has the secret, and
+// returns their recovery codes, which are not shown again.
+export async function confirmTwoFactorSetup(data: unknown) {
+  const { user, denied } = await authorize('account:manage');
+  if (denied) return formDenied(denied);
+
+  const result = twoFactorCodeSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    const secret = user.totpPendingSecret;
+    if (!secret) {
+      return { success: false, error: { formErrors: ['Start the setup again.'] } };
+    }
+    const step = verifyTotp(secret, result.data.code);
+    if (step === null) {
+      return { success: false, error: { formErrors: ['That code is not right. Check the time on your phone and try the next code.'] } };
+    }
+    const { codes, hashes } = generateRecoveryCodes();
+    await updateUser(user.id, { totpSecret: secret, totpLastStep: step, totpPendingSecret: undefined, recoveryCodeHashes: hashes });
+    await audit('account.two_factor_on', 'Turned on two-factor login', { target: { type: 'user', id: user.id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true, recoveryCodes: codes };
+  } catch (error) {
+    console.error('Failed to turn on two-factor login:', error);
+    return { success: false, error: { formErrors: ['Failed to turn on two-factor login.'] } };
+  }
+}
+
+// Replaces all recovery codes. Asks for the password, like turning two-factor off.
+export async function regenerateRecoveryCodes(data: unknown) {
+  const { user, denied } = await authorize('account:manage');
+  if (denied) return formDenied(denied);
+
+  const result = confirmPasswordSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    if (!user.totpSecret) {
+      return { success: false, error: { formErrors: ['Two-factor login is not on.'] } };
+    }
+    if (!(await verifyUserPassword(user, result.data.password))) {
+      return { success: false, error: { formErrors: ['Incorrect password.'] } };
+    }
+    const { codes, hashes } = generateRecoveryCodes();
+    await updateUser(user.id, { recoveryCodeHashes: hashes });
+    await audit('account.recovery_codes', 'Created new two-factor recovery codes', { target: { type: 'user', id: user.id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true, recoveryCodes: codes };
+  } catch (error) {
+    console.error('Failed to regenerate recovery codes:', error);
+    return { success: false, error: { formErrors: ['Failed to create new recovery codes.'] } };
+  }
+}
+
+export async function disableTwoFactor(data: unknown) {
+  const { user, denied } = await authorize('account:manage');
+  if (denied) return formDenied(denied);
+
+  const result = confirmPasswordSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    if (!(await verifyUserPassword(user, result.data.password))) {
+      return { success: false, error: { formErrors: ['Incorrect password.'] } };
+    }
+    await updateUser(user.id, TWO_FACTOR_CLEARED);
+    await audit('account.two_factor_off', 'Turned off two-factor login', { target: { type: 'user', id: user.id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to turn off two-factor login:', error);
+    return { success: false, error: { formErrors: ['Failed to turn off two-factor login.'] } };
+  }
+}
+
+
+// --- Sessions ---
+
+export async function getSessionsAction() {
+  const { session: current, denied } = await authorize('account:manage');
+  if (denied) return [];
+
+  try {
+    return (await listSessions(current.userId)).map(session => ({ ...session, current: session.id === current.id }));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return [];
+  }
+}
+
+export async function revokeSessionAction(id: string) {
+  const { session: current, denied } = await authorize('account:manage');
+  if (denied) return denied;
+
+  try {
+    if (!(await listSessions(current.userId)).some(session => session.id === id)) {
+      return { success: false, error: 'Session not found' };
+    }
+    await revokeSession(id);
+    await audit('session.revoke', 'Ended one of their sessions', { details: { sessionId: id.slice(0, 8) } });
+    revalidatePath('/admin/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to revoke session:', error);
+    return { success: false, error: 'Failed to end the session.' };
+  }
+}
+
+// Ends every session of the signed-in admin, this one included.
+export async function logoutEverywhere() {
+  const { session, denied } = await authorize('account:manage');
+  if (denied) return denied;
+
+  try {
+    // Audited first: once the sessions are gone the log cannot tell who this was.
+    await audit('session.revoke_all', 'Logged out everywhere');
+    await revokeAllSessions(session.userId);
+    (await cookies()).delete(SESSION_COOKIE_NAME);
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to log out everywhere:', error);
+    return { success: false, error: 'Failed to end the sessions.' };
+  }
+}
+
+
+// --- Admin users ---
+
+export async function getUsersAction() {
+  const { denied } = await authorize('users:manage');
+  if (denied) return [];
+
+  try {
+    return (await getUsers()).map(toUserSummary).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return [];
+  }
+}
+
+// Looks up a user the signed-in owner may change. Owners cannot change their
+// own role or lock themselves out here, which also means there is always at
+// least one active owner left.
+async function findManagedUser(id: string, actor: AdminUser): Promise<{ user: AdminUser; error?: undefined } | { user?: undefined; error: string }> {
+  if (id === actor.id) {
+    return { error: 'You cannot change your own account here. Use the form above instead.' };
+  }
+  const user = (await getUsers()).find(other => other.id === id);
+  return user ? { user } : { error: 'User not found' };
+}
+
+// Creates the user without a password and returns a one-time link token, which
+// the owner passes on so the new user can choose their own password.
+export async function inviteUser(data: unknown) {
+  const { denied } = await authorize('users:manage');
+  if (denied) return formDenied(denied);
+
+  const result = inviteUserSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    if (findUserByUsername(await getUsers(), result.data.username)) {
+      return { success: false, error: { formErrors: ['That username is already taken.'] } };
+    }
+    const { token, fields } = createSetupToken();
+    const now = new Date().toISOString();
+    const user: AdminUser = { id: createUserId(), username: result.data.username, role: result.data.role, ...fields, createdAt: now, updatedAt: now };
+    await updateUsers(users => [...users, user]);
+    await audit('user.invite', `Invited "${user.username}" as ${ROLE_LABELS[user.role]}`, { target: { type: 'user', id: user.id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true, token, expiresAt: fields.setupTokenExpiresAt };
+  } catch (error) {
+    console.error('Failed to invite user:', error);
+    return { success: false, error: { formErrors: ['Failed to invite the user.'] } };
+  }
+}
+
+export async function updateUserRole(id: string, role: unknown) {
+  const { user: actor, denied } = await authorize('users:manage');
+  if (denied) return denied;
+
+  const parsed = adminRoleSchema.safeParse(role);
+  if (!parsed.success) {
+    return { success: false, error: 'Unknown role' };
+  }
+
+  try {
+    const { user, error } = await findManagedUser(id, actor);
+    if (!user) return { success: false, error };
+    const updatedAt = new Date().toISOString();
+    await updateUsers(users => users.map(other => (other.id === id ? { ...other, role: parsed.data, updatedAt } : other)));
+    await audit('user.role', `Changed "${user.username}" from ${ROLE_LABELS[user.role]} to ${ROLE_LABELS[parsed.data]}`, { target: { type: 'user', id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to change role:', error);
+    return { success: false, error: 'Failed to change the role.' };
+  }
+}
+
+// Disabling a user also ends their sessions; enabling lets them log in again
+// with the password they had.
+export async function setUserDisabled(id: string, disabled: boolean) {
+  const { user: actor, denied } = await authorize('users:manage');
+  if (denied) return denied;
+
+  try {
+    const { user, error } = await findManagedUser(id, actor);
+    if (!user) return { success: false, error };
+    const updatedAt = new Date().toISOString();
+    await updateUsers(users => users.map(other => (other.id === id ? { ...other, disabled: disabled || undefined, updatedAt } : other)));
+    if (disabled) await revokeAllSessions(id);
+    await audit(disabled ? 'user.disable' : 'user.enable', `${disabled ? 'Disabled' : 'Enabled'} "${user.username}"`, { target: { type: 'user', id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to update user:', error);
+    return { success: false, error: disabled ? 'Failed to disable the user.' : 'Failed to enable the user.' };
+  }
+}
+
+// Clears the user's password and two-factor login, logs them out everywhere and
+// returns a new one-time link token for choosing another password.
+export async function resetUserPassword(id: string) {
+  const { user: actor, denied } = await authorize('users:manage');
+  if (denied) return denied;
+
+  try {
+    const { user, error } = await findManagedUser(id, actor);
+    if (!user) return { success: false, error };
+    const { token, fields } = createSetupToken();
+    const updatedAt = new Date().toISOString();
+    await updateUsers(users =>
+      users.map(other => (other.id === id ? { ...other, ...fields, ...TWO_FACTOR_CLEARED, passwordHash: undefined, password: undefined, updatedAt } : other))
+    );
+    await revokeAllSessions(id);
+    await audit('user.reset_password', `Reset the password of "${user.username}"`, { target: { type: 'user', id, name: user.username } });
+    revalidatePath('/admin/settings');
+    return { success: true, token, expiresAt: fields.setupTokenExpiresAt };
+  } catch (error) {
+    console.error('Failed to reset password:', error);
+    return { success: false, error: 'Failed to reset the password.' };
+  }
+}
+
+
+// --- Security log ---
+
+export async function getSecurityLogAction() {
+  const { denied } = await authorize('security:manage');
+  if (denied) return { events: [], lockouts: [] };
+
+  try {
+    const [events, lockouts] = await Promise.all([getSecurityEvents(), getActiveLockouts()]);
+    return { events, lockouts };
+  } catch (error) {
+    console.error('Error fetching security log:', error);
+    return { events: [], lockouts: [] };
+  }
+}
+
+export async function releaseLockoutAction(key: string) {
+  const { user, denied } = await authorize('security:manage');
+  if (denied) return denied;
+
+  try {
+    if (!(await releaseLockout(key))) {
+      return { success: false, error: 'That lockout has already ended.' };
+    }
+    await recordSecurityEvent({ type: 'lockout_released', detail: `${key} released by ${user.username}` });
+    await audit('security.release_lockout', `Released the login lockout on ${key.replace(':', ' ')}`, { target: { type: 'lockout', id: key } });
+    revalidatePath('/admin/security');
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to release lockout:', error);
+    return { success: false, error: 'Failed to release the lockout.' };
+  }
+}
+
+
+// --- Audit log ---
+
+// Entries sent to the page at once, and the most it may ask for by loading more;
+// the export always has every match.
+const AUDIT_PAGE_SIZE = 100;
+const AUDIT_MAX_ENTRIES = 2000;
+
+const auditQuerySchema = z.object({
+  category: z.string().optional(),
+  actor: z.string().optional(),
+  search: z.string().optional(),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().or(z.literal('')),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().or(z.literal('')),
+});
+
+function parseAuditQuery(query: unknown): AuditQuery {
+  const result = auditQuerySchema.safeParse(query ?? {});
+  if (!result.success) return {};
+  const { category, actor, search, from, to } = result.data;
+  return {
+    category: category && Object.hasOwn(AUDIT_CATEGORIES, category) ? (category as AuditCategory) : undefined,
+    actor: actor || undefined,
+    search: search || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  };
+}
+
+export async function getAuditLogAction(query: unknown, limit = AUDIT_PAGE_SIZE) {
+  const { denied } = await authorize('audit:read');
+  if (denied) return { entries: [], total: 0, actors: [] };
+
+  try {
+    const entries = await getAuditEntries();
+    const matches = filterAuditEntries(entries, parseAuditQuery(query));
+    const count = Math.min(Math.max(Math.floor(Number(limit)) || AUDIT_PAGE_SIZE, 1), AUDIT_MAX_ENTRIES);
+    return {
+      entries: matches.slice(0, count),
+      total: matches.length,
+      actors: Array.from(new Set(entries.map(entry => entry.actor))).sort(),
+    };
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return { entries: [], total: 0, actors: [] };
+  }
+}
+
+export async function exportAuditLogAction(format: AuditFormat, query: unknown) {
+  const { denied } = await authorize('audit:read');
+  if (denied) return denied;
+
+  try {
+    const file = exportAuditEntries(filterAuditEntries(await getAuditEntries(), parseAuditQuery(query)), format);
+    return {
+      success: true,
+      file: { fileName: file.fileName, mimeType: file.mimeType, base64: file.data.toString('base64') },
+    };
+  } catch (error) {
+    console.error('Failed to export audit log:', error);
+    return { success: false, error: 'Failed to export the audit log.' };
   }
 }
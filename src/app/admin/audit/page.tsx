@@ -0,0 +1,214 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { AUDIT_CATEGORIES, type AuditCategory, type AuditEntry, type AuditFormat } from '@/lib/audit';
+import { exportAuditLogAction, getAuditLogAction } from '../actions';
+import { ArrowLeft, Download, Eye } from 'lucide-react';
+
+const PAGE_SIZE = 100;
+// The most the server sends; beyond that, export the matches instead.
+const MAX_ENTRIES = 2000;
+
+type Filters = { category: AuditCategory | 'all'; actor: string; search: string; from: string; to: string };
+
+const emptyFilters: Filters = { category: 'all', actor: 'all', search: '', from: '', to: '' };
+
+// The filters as the server actions take them.
+function toQuery(filters: Filters) {
+  return {
+    category: filters.category === 'all' ? undefined : filters.category,
+    actor: filters.actor === 'all' ? undefined : filters.actor,
+    search: filters.search,
+    from: filters.from,
+    to: filters.to,
+  };
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actors, setActors] = useState<string[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchEntries = async () => {
+    setLoading(true);
+    const result = await getAuditLogAction(toQuery(filters), limit);
+    setEntries(result.entries);
+    setTotal(result.total);
+    setActors(result.actors);
+    setLoading(false);
+  };
+
+  // Typing in the search box waits for a pause before asking the server.
+  useEffect(() => {
+    const timer = setTimeout(fetchEntries, 300);
+    return () => clearTimeout(timer);
+  }, [filters, limit]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+    setLimit(PAGE_SIZE);
+  };
+
+  const handleExport = async (format: AuditFormat) => {
+    const result = await exportAuditLogAction(format, toQuery(filters));
+    if (!result.success || !('file' in result) || !result.file) {
+      toast({ title: 'Export failed', description: result.error, variant: 'destructive' });
+      return;
+    }
+    const bytes = Uint8Array.from(atob(result.file.base64), char => char.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: result.file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.file.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <div className="flex justify-between items-center">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('csv')}>
+            <Download className="mr-2 h-4 w-4" /> Export CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('json')}>
+            <Download className="mr-2 h-4 w-4" /> Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Log</CardTitle>
+          <CardDescription>
+            Every change made in the admin panel, and every login, newest first. Exports include all entries matching the filters.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input id="audit-search" value={filters.search} onChange={(e) => setFilter('search', e.target.value)} placeholder="Product, user, IP address..." />
+            </div>
+            <div className="space-y-2">
+              <Label>Area</Label>
+              <Select value={filters.category} onValueChange={value => setFilter('category', value as Filters['category'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everything</SelectItem>
+                  {(Object.keys(AUDIT_CATEGORIES) as AuditCategory[]).map(category => (
+                    <SelectItem key={category} value={category}>{AUDIT_CATEGORIES[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Who</Label>
+              <Select value={filters.actor} onValueChange={value => setFilter('actor', value)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Anyone</SelectItem>
+                  {actors.map(actor => <SelectItem key={actor} value={actor}>{actor}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input id="audit-from" type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input id="audit-to" type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Summary</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && entries.length === 0 ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={6}><Skeleton className="h-5 w-full" /></TableCell>
+                  </TableRow>
+                ))
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No entries match these filters.</TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">
+                      {entry.actor}
+                      {entry.attemptedUsername && (
+                        <div className="text-xs font-normal text-muted-foreground">as &ldquo;{entry.attemptedUsername}&rdquo;</div>
+                      )}
+                    </TableCell>
+                    <TableCell><Badge variant="outline" className="whitespace-nowrap">{entry.action}</Badge></TableCell>
+                    <TableCell className="max-w-md">{entry.summary}</TableCell>
+                    <TableCell>{entry.ip ?? '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <Dialog>
+                        <DialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="View details"><Eye className="h-4 w-4" /></Button>
+                        </DialogTrigger>
+                        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+                          <DialogHeader><DialogTitle>{entry.action}</DialogTitle></DialogHeader>
+                          <pre className="rounded-md bg-muted p-4 text-xs whitespace-pre-wrap break-all">{JSON.stringify(entry, null, 2)}</pre>
+                        </DialogContent>
+                      </Dialog>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          {total > entries.length && (
+            <div className="text-center">
+              {limit < MAX_ENTRIES ? (
+                <Button variant="outline" disabled={loading} onClick={() => setLimit(limit + PAGE_SIZE)}>
+                  Show More ({total - entries.length} remaining)
+                </Button>
+              ) : (
+                <p className="text-sm text-muted-foreground">Showing the newest {entries.length} of {total} entries. Export to see them all.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Brand } from '@/lib/types';
+import BrandForm from '@/components/BrandForm';
+import { deleteBrand, getBrandsAction } from '../actions';
+import { ArrowLeft, Edit, Plus, Trash2 } from 'lucide-react';
+
+type BrandRow = Brand & { productCount: number };
+
+export default function BrandsPage() {
+  const [brands, setBrands] = useState<BrandRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<BrandRow | 'new' | null>(null);
+  const { toast } = useToast();
+
+  const fetchBrands = async () => {
+    setLoading(true);
+    try {
+      setBrands(await getBrandsAction());
+    } catch (error) {
+      toast({ title: 'Failed to fetch brands', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBrands();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteBrand(id);
+    if (result.success) {
+      toast({ title: 'Brand deleted' });
+      fetchBrands();
+    } else {
+      toast({ title: 'Error deleting brand', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const onFormFinished = () => {
+    setEditing(null);
+    fetchBrands();
+  };
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="mb-6">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Brands</CardTitle>
+            <CardDescription>
+              Products pick their brand from this list. The order here is the order shoppers see in filters and on the home page.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" /> Add Brand
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Logo</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 4 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-8 w-16" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-8" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-8" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : brands.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No brands yet.</TableCell>
+                </TableRow>
+              ) : (
+                brands.map(brand => (
+                  <TableRow key={brand.id}>
+                    <TableCell>
+                      {brand.logo ? (
+                        <div className="relative h-8 w-16">
+                          <Image src={brand.logo} alt={`${brand.name} logo`} fill className="object-contain" sizes="64px" />
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground text-sm">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-medium">{brand.name}</TableCell>
+                    <TableCell className="font-mono text-xs">{brand.slug}</TableCell>
+                    <TableCell>{brand.sortOrder}</TableCell>
+                    <TableCell>{brand.productCount}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" aria-label="Edit" onClick={() => setEditing(brand)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Delete" disabled={brand.productCount > 0}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete {brand.name}?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The brand will no longer be offered when adding products or in the store filters.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleDelete(brand.id)}>Delete</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={isOpen => !isOpen && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader><DialogTitle>{editing === 'new' ? 'Add Brand' : 'Edit Brand'}</DialogTitle></DialogHeader>
+          {editing !== null && (
+            <BrandForm
+              brand={editing === 'new' ? undefined : editing}
+              nextSortOrder={brands.reduce((max, brand) => Math.max(max, brand.sortOrder + 1), 0)}
+              onFinished={onFormFinished}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Category } from '@/lib/types';
+import CategoryForm from '@/components/CategoryForm';
+import { deleteCategory, deleteTag, getCategoriesAction, getTagsAction, renameTag } from '../actions';
+import { ArrowLeft, Check, Edit, ExternalLink, Plus, Trash2, X } from 'lucide-react';
+
+type CategoryRow = Category & { depth: number; productCount: number };
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<CategoryRow[]>([]);
+  const [tags, setTags] = useState<{ tag: string; count: number }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<CategoryRow | 'new' | null>(null);
+  const [renaming, setRenaming] = useState<{ from: string; to: string } | null>(null);
+  const { toast } = useToast();
+
+  const fetchTaxonomy = async () => {
+    setLoading(true);
+    try {
+      const [categoryList, tagList] = await Promise.all([getCategoriesAction(), getTagsAction()]);
+      setCategories(categoryList);
+      setTags(tagList);
+    } catch (error) {
+      toast({ title: 'Failed to fetch categories', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTaxonomy();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteCategory(id);
+    if (result.success) {
+      toast({ title: 'Category deleted' });
+      fetchTaxonomy();
+    } else {
+      toast({ title: 'Error deleting category', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const result = await renameTag(renaming.from, renaming.to);
+    if (result.success) {
+      toast({ title: 'Tag renamed', description: `Updated ${result.changed} product${result.changed === 1 ? '' : 's'}.` });
+      setRenaming(null);
+      fetchTaxonomy();
+    } else {
+      toast({ title: 'Error renaming tag', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteTag = async (tag: string) => {
+    const result = await deleteTag(tag);
+    if (result.success) {
+      toast({ title: 'Tag removed', description: `Removed from ${result.changed} product${result.changed === 1 ? '' : 's'}.` });
+      fetchTaxonomy();
+    } else {
+      toast({ title: 'Error removing tag', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const onFormFinished = () => {
+    setEditing(null);
+    fetchTaxonomy();
+  };
+
+  return (
+    <div className="container mx-auto py-10 space-y-8">
+      <div>
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Categories</CardTitle>
+            <CardDescription>
+              Each product sits in one category. A category page also lists everything in its subcategories.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" /> Add Category
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Products</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 4 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-5 w-32" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-8" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-8" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : categories.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">No categories yet.</TableCell>
+                </TableRow>
+              ) : (
+                categories.map(category => {
+                  const hasChildren = categories.some(other => other.parentId === category.id);
+                  return (
+                    <TableRow key={category.id}>
+                      <TableCell className="font-medium" style={{ paddingLeft: `${1 + category.depth * 1.5}rem` }}>
+                        {category.depth > 0 && <span className="text-muted-foreground mr-1">└</span>}
+                        {category.name}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{category.slug}</TableCell>
+                      <TableCell>{category.sortOrder}</TableCell>
+                      <TableCell>{category.productCount}</TableCell>
+                      <TableCell className="text-right">
+                        <Button asChild variant="ghost" size="icon" aria-label="View page">
+                          <Link href={`/category/${category.slug}`} target="_blank"><ExternalLink className="h-4 w-4" /></Link>
+                        </Button>
+                        <Button variant="ghost" size="icon" aria-label="Edit" onClick={() => setEditing(category)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label="Delete" disabled={category.productCount > 0 || hasChildren}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete {category.name}?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Its page at /category/{category.slug} will stop working and it disappears from the store filters.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleDelete(category.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tags</CardTitle>
+          <CardDescription>
+            Tags are added on each product. Renaming a tag to one that already exists merges the two.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : tags.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No product has tags yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {tags.map(({ tag, count }) => renaming?.from === tag ? (
+                <div key={tag} className="flex items-center gap-1">
+                  <Input
+                    autoFocus
+                    className="h-8 w-48"
+                    value={renaming.to}
+                    onChange={e => setRenaming({ from: tag, to: e.target.value })}
+                    onKeyDown={e => e.key === 'Enter' && handleRename()}
+                  />
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Save" onClick={handleRename}><Check className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Cancel" onClick={() => setRenaming(null)}><X className="h-4 w-4" /></Button>
+                </div>
+              ) : (
+                <Badge key={tag} variant="secondary" className="gap-1 py-1 font-normal">
+                  <button type="button" onClick={() => setRenaming({ from: tag, to: tag })} className="hover:underline" title="Rename">
+                    {tag}
+                  </button>
+                  <span className="text-muted-foreground">({count})</span>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <button type="button" aria-label={`Remove ${tag}`}><X className="h-3 w-3" /></button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove the tag &quot;{tag}&quot;?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          It will be taken off {count} product{count === 1 ? '' : 's'}.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDeleteTag(tag)}>Remove</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={isOpen => !isOpen && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader><DialogTitle>{editing === 'new' ? 'Add Category' : 'Edit Category'}</DialogTitle></DialogHeader>
+          {editing !== null && (
+            <CategoryForm
+              category={editing === 'new' ? undefined : editing}
+              categories={categories}
+              nextSortOrder={categories.reduce((max, category) => Math.max(max, category.sortOrder + 1), 0)}
+              onFinished={onFormFinished}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
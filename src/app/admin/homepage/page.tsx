@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import BannerForm from '@/components/BannerForm';
+import HomepageSectionsEditor from '@/components/HomepageSectionsEditor';
+import { isBannerLive, type HeroBanner, type HomepageConfig } from '@/lib/homepage';
+import type { Product } from '@/lib/types';
+import { deleteHomepageBanner, getHomepageConfigAction, getProductsAction, reorderHomepageBanners } from '../actions';
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Plus, Trash2 } from 'lucide-react';
+
+function scheduleLabel(banner: HeroBanner) {
+  const format = (iso: string) => new Date(iso).toLocaleString();
+  if (banner.startsAt && banner.endsAt) return `${format(banner.startsAt)} to ${format(banner.endsAt)}`;
+  if (banner.startsAt) return `From ${format(banner.startsAt)}`;
+  if (banner.endsAt) return `Until ${format(banner.endsAt)}`;
+  return 'Always';
+}
+
+export default function HomepageAdminPage() {
+  const [config, setConfig] = useState<HomepageConfig | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [editing, setEditing] = useState<HeroBanner | 'new' | null>(null);
+  const { toast } = useToast();
+
+  const fetchConfig = async () => {
+    try {
+      const [homepage, productList] = await Promise.all([getHomepageConfigAction(), getProductsAction()]);
+      setConfig(homepage);
+      setProducts(productList);
+    } catch (error) {
+      toast({ title: 'Failed to load the home page settings', variant: 'destructive' });
+    }
+  };
+
+  useEffect(() => {
+    fetchConfig();
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    const result = await deleteHomepageBanner(id);
+    if (result.success) {
+      toast({ title: 'Banner deleted' });
+      fetchConfig();
+    } else {
+      toast({ title: 'Error deleting banner', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleMove = async (index: number, offset: number) => {
+    if (!config) return;
+    const ids = config.banners.map(banner => banner.id);
+    const [id] = ids.splice(index, 1);
+    ids.splice(index + offset, 0, id);
+    const result = await reorderHomepageBanners(ids);
+    if (result.success) {
+      fetchConfig();
+    } else {
+      toast({ title: 'Error reordering banners', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-10 space-y-8">
+      <div>
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="space-y-1.5">
+            <CardTitle>Hero Banners</CardTitle>
+            <CardDescription>Live banners rotate at the top of the home page in this order.</CardDescription>
+          </div>
+          <Button onClick={() => setEditing('new')}>
+            <Plus className="mr-2 h-4 w-4" /> Add Banner
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!config ? (
+            Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)
+          ) : config.banners.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No banners. The home page starts with its first section.</p>
+          ) : (
+            config.banners.map((banner, index) => (
+              <div key={banner.id} className="flex items-center gap-4 rounded-md border p-3">
+                <div className="relative h-14 w-28 shrink-0 overflow-hidden rounded bg-muted">
+                  {banner.image && <Image src={banner.image} alt="" fill className="object-cover" sizes="112px" />}
+                </div>
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">{banner.headline.replace(/\*/g, '')}</p>
+                  <p className="text-sm text-muted-foreground truncate">{banner.ctaLabel} → {banner.ctaHref} · {scheduleLabel(banner)}</p>
+                </div>
+                <Badge variant={isBannerLive(banner) ? 'default' : 'secondary'}>
+                  {isBannerLive(banner) ? 'Live' : banner.enabled ? 'Scheduled' : 'Disabled'}
+                </Badge>
+                <div className="flex shrink-0">
+                  <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => handleMove(index, -1)} aria-label="Move up"><ArrowUp className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" disabled={index === config.banners.length - 1} onClick={() => handleMove(index, 1)} aria-label="Move down"><ArrowDown className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(banner)} aria-label="Edit"><Edit className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(banner.id)} aria-label="Delete"><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Home Page Sections</CardTitle>
+          <CardDescription>Choose which sections appear below the banners, in what order. Sections with nothing to show are skipped.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {config ? (
+            <HomepageSectionsEditor sections={config.sections} products={products} onSaved={fetchConfig} />
+          ) : (
+            <Skeleton className="h-48 w-full" />
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={editing !== null} onOpenChange={isOpen => !isOpen && setEditing(null)}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader><DialogTitle>{editing === 'new' ? 'Add Banner' : 'Edit Banner'}</DialogTitle></DialogHeader>
+          {editing !== null && (
+            <BannerForm
+              banner={editing === 'new' ? undefined : editing}
+              onFinished={() => { setEditing(null); fetchConfig(); }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
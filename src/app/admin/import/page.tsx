@@ -0,0 +1,170 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { CatalogFormat, ImportPlan } from '@/lib/catalog-io';
+import { commitCatalogImport, exportCatalogAction, previewCatalogImport } from '../actions';
+import { ArrowLeft, Download, FileSearch, Upload } from 'lucide-react';
+
+type PreviewPlan = Omit<ImportPlan, 'rows'> & { rows: Omit<ImportPlan['rows'][number], 'input'>[] };
+
+const actionVariants = {
+  create: 'default',
+  update: 'secondary',
+  error: 'destructive',
+} as const;
+
+export default function ImportExportPage() {
+  const { toast } = useToast();
+  const formRef = useRef<HTMLFormElement>(null);
+  const [plan, setPlan] = useState<PreviewPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: CatalogFormat) => {
+    const result = await exportCatalogAction(format);
+    if (!result.success || !result.file) {
+      toast({ title: 'Export failed', description: result.error, variant: 'destructive' });
+      return;
+    }
+    const bytes = Uint8Array.from(atob(result.file.base64), char => char.charCodeAt(0));
+    const url = URL.createObjectURL(new Blob([bytes], { type: result.file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = result.file.fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePreview = async () => {
+    if (!formRef.current) return;
+    setBusy(true);
+    const result = await previewCatalogImport(new FormData(formRef.current));
+    setBusy(false);
+    if (result.success && result.plan) {
+      setPlan(result.plan);
+    } else {
+      setPlan(null);
+      toast({ title: 'Could not read file', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!formRef.current) return;
+    setBusy(true);
+    const result = await commitCatalogImport(new FormData(formRef.current));
+    setBusy(false);
+    if (result.success && result.summary) {
+      toast({
+        title: 'Import complete',
+        description: `${result.summary.created} created, ${result.summary.updated} updated, ${result.summary.skipped} skipped.`
+          + (result.summary.staleStock > 0 ? ` ${result.summary.staleStock} had their stock changed during the import; preview again to review them.` : ''),
+      });
+      setPlan(null);
+      formRef.current.reset();
+    } else {
+      toast({ title: 'Import failed', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const pendingChanges = plan ? plan.summary.create + plan.rows.filter(row => row.action === 'update' && row.changes.length > 0).length : 0;
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <div>
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Export Catalog</CardTitle>
+          <CardDescription>Download every listed product as a spreadsheet. The same columns are used for importing.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Button variant="outline" onClick={() => handleExport('csv')}><Download className="mr-2 h-4 w-4" /> CSV</Button>
+          <Button variant="outline" onClick={() => handleExport('xlsx')}><Download className="mr-2 h-4 w-4" /> XLSX</Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Import Catalog</CardTitle>
+          <CardDescription>
+            Rows with an <code>id</code> update that product; rows without one create a new product.
+            List photos in the <code>images</code> column separated by <code>;</code>, either as existing URLs or as file names from the images zip.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <form ref={formRef} className="grid gap-4 md:grid-cols-2" onChange={() => setPlan(null)}>
+            <div className="space-y-2">
+              <Label htmlFor="file">Spreadsheet (CSV or XLSX)</Label>
+              <Input id="file" name="file" type="file" accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="images">Images zip (optional)</Label>
+              <Input id="images" name="images" type="file" accept=".zip,application/zip" />
+              <p className="text-xs text-muted-foreground">JPEG, PNG or WebP photos; up to 300 per import, 15 MB each.</p>
+            </div>
+          </form>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePreview} disabled={busy}>
+              <FileSearch className="mr-2 h-4 w-4" /> {busy && !plan ? 'Reading...' : 'Preview'}
+            </Button>
+            <Button onClick={handleCommit} disabled={busy || !plan || pendingChanges === 0}>
+              <Upload className="mr-2 h-4 w-4" /> {busy && plan ? 'Importing...' : `Import ${pendingChanges} row(s)`}
+            </Button>
+          </div>
+
+          {plan && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {plan.summary.create} to create, {plan.summary.update} to update, {plan.summary.error} with errors (skipped).
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.rows.map(row => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell><Badge variant={actionVariants[row.action]}>{row.action}</Badge></TableCell>
+                      <TableCell className="text-sm">
+                        {row.action === 'error' && (
+                          <ul className="list-disc pl-4 text-destructive">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        )}
+                        {row.action === 'update' && (row.changes.length === 0
+                          ? <span className="text-muted-foreground">No changes</span>
+                          : row.changes.map(change => change.field).join(', '))}
+                        {row.action === 'create' && <span className="text-muted-foreground">New product</span>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
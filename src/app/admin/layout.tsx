@@ -1,11 +1,26 @@
-export default function AdminLayout({
+import { redirect } from 'next/navigation';
+import { getCurrentUser } from '@/lib/authorization';
+import { AdminUserProvider } from '@/context/AdminUserProvider';
+
+export default async function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  // The middleware has checked the token's signature; this catches sessions that
+  // were revoked since, and users who were disabled. Logging out clears the
+  // leftover cookie.
+  const current = await getCurrentUser();
+  if (!current) {
+    redirect('/api/logout');
+  }
+  const { id, username, role } = current.user;
+
   return (
-    <div className="bg-background text-foreground min-h-[calc(100vh-theme(spacing.20))]">
-      {children}
-    </div>
+    <AdminUserProvider user={{ id, username, role }}>
+      <div className="bg-background text-foreground min-h-[calc(100vh-theme(spacing.20))]">
+        {children}
+      </div>
+    </AdminUserProvider>
   );
 }
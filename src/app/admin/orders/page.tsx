@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import OrderDetails from '@/components/OrderDetails';
+import type { Order, OrderStatus } from '@/lib/types';
+import { ORDER_STATUSES, ORDER_STATUS_LABELS } from '@/lib/orders';
+import { getOrdersAction } from '../actions';
+import { ArrowLeft, Eye, RefreshCw } from 'lucide-react';
+
+type Filters = { status: OrderStatus | 'all'; search: string; from: string; to: string };
+
+const emptyFilters: Filters = { status: 'all', search: '', from: '', to: '' };
+
+const statusVariants: Record<OrderStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'default',
+  confirmed: 'secondary',
+  packed: 'secondary',
+  dispatched: 'secondary',
+  delivered: 'outline',
+  cancelled: 'destructive',
+  returned: 'destructive',
+};
+
+export default function OrdersPage() {
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrders = async () => {
+    setLoading(true);
+    setOrders(await getOrdersAction({ ...filters, status: filters.status === 'all' ? undefined : filters.status }));
+    setLoading(false);
+  };
+
+  // Typing in the search box waits for a pause before asking the server.
+  useEffect(() => {
+    const timer = setTimeout(fetchOrders, 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const openOrder = orders.find(order => order.id === openId);
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <div className="flex justify-between items-center">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+        <Button variant="outline" onClick={fetchOrders} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Orders</CardTitle>
+          <CardDescription>Orders placed through the cart, newest first. Open one to see its items and move it along.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="order-search">Search</Label>
+              <Input id="order-search" value={filters.search} onChange={(e) => setFilter('search', e.target.value)} placeholder="Reference, customer name or phone..." />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={filters.status} onValueChange={value => setFilter('status', value as Filters['status'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any status</SelectItem>
+                  {ORDER_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{ORDER_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="order-from">From</Label>
+                <Input id="order-from" type="date" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="order-to">To</Label>
+                <Input id="order-to" type="date" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && orders.length === 0 ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={7}><Skeleton className="h-5 w-full" /></TableCell>
+                  </TableRow>
+                ))
+              ) : orders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">No orders match these filters.</TableCell>
+                </TableRow>
+              ) : (
+                orders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-mono font-medium whitespace-nowrap">{order.reference}</TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(order.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <p className="font-medium">{order.customer.name}</p>
+                      <p className="text-sm text-muted-foreground">{order.customer.phone}</p>
+                    </TableCell>
+                    <TableCell>{order.itemCount}</TableCell>
+                    <TableCell className="whitespace-nowrap">PKR {order.total.toLocaleString()}</TableCell>
+                    <TableCell><Badge variant={statusVariants[order.status]}>{ORDER_STATUS_LABELS[order.status]}</Badge></TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" aria-label="View order" onClick={() => setOpenId(order.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(openOrder)} onOpenChange={isOpen => { if (!isOpen) setOpenId(null); }}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          {openOrder && (
+            <>
+              <DialogHeader><DialogTitle>Order {openOrder.reference}</DialogTitle></DialogHeader>
+              {/* Keyed on the status so the form starts over after each move. */}
+              <OrderDetails key={`${openOrder.id}:${openOrder.status}`} order={openOrder} onChanged={fetchOrders} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,5 @@
 'use client';
-import {useState , type FC , useEffect} from 'react'
-import Image from 'next/image':
+
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -9,12 +8,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useToast } from '@/hooks/use-toast';
 import type { Product } from '@/lib/types';
 import { getProductsAction, deleteProduct } from './actions';
-import { Edit, Plus, Trash2, LogOut, Settings } from 'lucide-react';
+import { Boxes, Edit, FileSpreadsheet, FolderTree, HardDrive, History, LayoutTemplate, Plus, ScrollText, ShieldAlert, ShoppingBag, Tags, Trash2, LogOut, Settings } from 'lucide-react';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useRouter } from 'next/navigation';
 import { Skeleton } from '@/components/ui/skeleton';
 import Link from 'next/link';
 import LaptopForm from '@/components/LaptopForm';
+import ProductHistory from '@/components/ProductHistory';
+import StockBadge from '@/components/StockBadge';
+import ProductUnits from '@/components/ProductUnits';
+import { useAdminUser } from '@/context/AdminUserProvider';
+import { csrfHeaders } from '@/lib/csrf';
 
 export default function AdminPage() {
   const [products, setProducts] = useState<Product[]>([]);
@@ -23,6 +27,7 @@ export default function AdminPage() {
   const [editingProduct, setEditingProduct] = useState<Product | undefined>(undefined);
   const { toast } = useToast();
   const router = useRouter();
+  const { can } = useAdminUser();
 
   const fetchProducts = async () => {
     setLoading(true);
@@ -42,7 +47,8 @@ export default function AdminPage() {
 
   const handleLogout = async () => {
     try {
-      await fetch('/api/logout', { method: 'POST' });
+      const response = await fetch('/api/logout', { method: 'POST', headers: csrfHeaders() });
+      if (!response.ok) throw new Error('Logout failed');
       toast({ title: 'Logged out successfully' });
       router.push('/login');
     } catch (error) {
@@ -64,7 +70,7 @@ export default function AdminPage() {
   const handleDelete = async (id: string) => {
       const result = await deleteProduct(id);
       if(result.success) {
-          toast({ title: 'Product deleted successfully' });
+          toast({ title: 'Product moved to trash' });
           fetchProducts();
       } else {
           toast({ title: 'Error deleting product', description: result.error, variant: 'destructive'});
@@ -76,6 +82,62 @@ export default function AdminPage() {
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Admin Panel</h1>
         <div className="flex items-center gap-2">
+            {can('orders:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/orders">
+                        <ShoppingBag className="mr-2 h-4 w-4" /> Orders
+                    </Link>
+                </Button>
+            )}
+            {can('content:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/homepage">
+                        <LayoutTemplate className="mr-2 h-4 w-4" /> Home Page
+                    </Link>
+                </Button>
+            )}
+            {can('catalog:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/categories">
+                        <FolderTree className="mr-2 h-4 w-4" /> Categories
+                    </Link>
+                </Button>
+            )}
+            {can('catalog:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/brands">
+                        <Tags className="mr-2 h-4 w-4" /> Brands
+                    </Link>
+                </Button>
+            )}
+            {can('products:delete') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/trash">
+                        <Trash2 className="mr-2 h-4 w-4" /> Trash
+                    </Link>
+                </Button>
+            )}
+            {can('uploads:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/uploads">
+                        <HardDrive className="mr-2 h-4 w-4" /> Uploads
+                    </Link>
+                </Button>
+            )}
+            {can('audit:read') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/audit">
+                        <ScrollText className="mr-2 h-4 w-4" /> Audit Log
+                    </Link>
+                </Button>
+            )}
+            {can('security:manage') && (
+                <Button asChild variant="ghost">
+                    <Link href="/admin/security">
+                        <ShieldAlert className="mr-2 h-4 w-4" /> Security
+                    </Link>
+                </Button>
+            )}
             <Button asChild variant="ghost">
                 <Link href="/admin/settings">
                     <Settings className="mr-2 h-4 w-4" /> Settings
@@ -90,11 +152,22 @@ export default function AdminPage() {
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Manage Products</CardTitle>
-          <Button asChild>
-            <Link href="/admin/upload">
-              <Plus className="mr-2 h-4 w-4" /> Add New Laptop
-            </Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            {can('catalog:manage') && (
+              <Button asChild variant="outline">
+                <Link href="/admin/import">
+                  <FileSpreadsheet className="mr-2 h-4 w-4" /> Import / Export
+                </Link>
+              </Button>
+            )}
+            {can('products:write') && (
+              <Button asChild>
+                <Link href="/admin/upload">
+                  <Plus className="mr-2 h-4 w-4" /> Add New Laptop
+                </Link>
+              </Button>
+            )}
+          </div>
         </CardHeader>
         <CardContent>
           <Table>
@@ -103,6 +176,7 @@ export default function AdminPage() {
                 <TableHead>Name</TableHead>
                 <TableHead>Brand</TableHead>
                 <TableHead>Price</TableHead>
+                <TableHead>Stock</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -113,6 +187,7 @@ export default function AdminPage() {
                           <TableCell><Skeleton className="h-5 w-48" /></TableCell>
                           <TableCell><Skeleton className="h-5 w-24" /></TableCell>
                           <TableCell><Skeleton className="h-5 w-20" /></TableCell>
+                          <TableCell><Skeleton className="h-5 w-16" /></TableCell>
                           <TableCell className="text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
                       </TableRow>
                   ))
@@ -122,34 +197,61 @@ export default function AdminPage() {
                       <TableCell className="font-medium">{product.name}</TableCell>
                       <TableCell>{product.brand}</TableCell>
                       <TableCell>PKR {product.price.toLocaleString()}</TableCell>
+                      <TableCell><StockBadge product={product} /></TableCell>
                       <TableCell className="text-right">
-                        <Dialog open={isEditDialogOpen && editingProduct?.id === product.id} onOpenChange={(isOpen) => { if(!isOpen) { setEditingProduct(undefined); setEditDialogOpen(false); } else { setEditDialogOpen(true); }}}>
+                        {can('products:write') && (
+                          <>
+                            <Dialog open={isEditDialogOpen && editingProduct?.id === product.id} onOpenChange={(isOpen) => { if(!isOpen) { setEditingProduct(undefined); setEditDialogOpen(false); } else { setEditDialogOpen(true); }}}>
+                                <DialogTrigger asChild>
+                                    <Button variant="ghost" size="icon" onClick={() => handleEdit(product)}><Edit className="h-4 w-4" /></Button>
+                                </DialogTrigger>
+                                <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+                                    <DialogHeader><DialogTitle>Edit Product</DialogTitle></DialogHeader>
+                                    {editingProduct && <LaptopForm product={editingProduct} onFinished={onEditFormFinished} />}
+                                </DialogContent>
+                            </Dialog>
+
+                            <Dialog>
+                                <DialogTrigger asChild>
+                                    <Button variant="ghost" size="icon" aria-label="Manage units"><Boxes className="h-4 w-4" /></Button>
+                                </DialogTrigger>
+                                <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+                                    <DialogHeader><DialogTitle>Units: {product.name}</DialogTitle></DialogHeader>
+                                    <ProductUnits product={product} onChanged={fetchProducts} />
+                                </DialogContent>
+                            </Dialog>
+                          </>
+                        )}
+
+                        <Dialog>
                             <DialogTrigger asChild>
-                                <Button variant="ghost" size="icon" onClick={() => handleEdit(product)}><Edit className="h-4 w-4" /></Button>
+                                <Button variant="ghost" size="icon" aria-label="View history"><History className="h-4 w-4" /></Button>
                             </DialogTrigger>
                             <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
-                                <DialogHeader><DialogTitle>Edit Product</DialogTitle></DialogHeader>
-                                {editingProduct && <LaptopForm product={editingProduct} onFinished={onEditFormFinished} />}
+                                <DialogHeader><DialogTitle>History: {product.name}</DialogTitle></DialogHeader>
+                                <ProductHistory productId={product.id} onRestored={fetchProducts} />
                             </DialogContent>
                         </Dialog>
-                        
-                        <AlertDialog>
-                          <AlertDialogTrigger asChild>
-                            <Button variant="ghost" size="icon"><Trash2 className="h-4 w-4 text-destructive" /></Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                This action cannot be undone. This will permanently delete the product and its images.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancel</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDelete(product.id)}>Delete</AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
+
+                        {can('products:delete') && (
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="icon"><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The product will be hidden from the store and moved to the trash, where it can be restored until it is purged.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDelete(product.id)}>Move to Trash</AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))
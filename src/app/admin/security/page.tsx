@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import type { LockoutSummary } from '@/lib/login-throttle';
+import type { SecurityEvent, SecurityEventType } from '@/lib/security-log';
+import { getSecurityLogAction, releaseLockoutAction } from '../actions';
+import { ArrowLeft, LockOpen, RefreshCw } from 'lucide-react';
+
+// Events shown at once; the log itself keeps more.
+const PAGE_SIZE = 200;
+
+const eventLabels: Record<SecurityEventType, string> = {
+  login_success: 'Login',
+  login_failure: 'Failed login',
+  login_blocked: 'Blocked attempt',
+  lockout: 'Locked out',
+  lockout_released: 'Lockout released',
+};
+
+const eventVariants: Record<SecurityEventType, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  login_success: 'secondary',
+  login_failure: 'outline',
+  login_blocked: 'outline',
+  lockout: 'destructive',
+  lockout_released: 'default',
+};
+
+export default function SecurityPage() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [lockouts, setLockouts] = useState<LockoutSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [type, setType] = useState<SecurityEventType | 'all'>('all');
+  const [shown, setShown] = useState(PAGE_SIZE);
+  const { toast } = useToast();
+
+  const fetchLog = async () => {
+    setLoading(true);
+    const result = await getSecurityLogAction();
+    setEvents(result.events);
+    setLockouts(result.lockouts);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchLog();
+  }, []);
+
+  const handleRelease = async (lockout: LockoutSummary) => {
+    const result = await releaseLockoutAction(lockout.key);
+    if (result.success) {
+      toast({ title: 'Lockout released', description: `${lockout.subject} can try to log in again.` });
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+    fetchLog();
+  };
+
+  const filtered = type === 'all' ? events : events.filter(event => event.type === type);
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <div className="flex justify-between items-center">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+        <Button variant="outline" onClick={fetchLog} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Active Lockouts</CardTitle>
+          <CardDescription>Usernames and addresses locked out after too many failed logins.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <Skeleton className="h-14 w-full" />
+          ) : lockouts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing is locked out.</p>
+          ) : (
+            lockouts.map(lockout => (
+              <div key={lockout.key} className="flex items-center gap-4 rounded-md border p-3">
+                <div className="flex-grow min-w-0">
+                  <p className="font-medium truncate">
+                    {lockout.subject}
+                    <Badge variant="outline" className="ml-2">{lockout.scope === 'ip' ? 'IP address' : 'Username'}</Badge>
+                  </p>
+                  <p className="text-sm text-muted-foreground">Locked until {new Date(lockout.until).toLocaleString()}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleRelease(lockout)}>
+                  <LockOpen className="mr-2 h-4 w-4" /> Unlock
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Security Log</CardTitle>
+            <CardDescription>Successful and failed admin logins, newest first.</CardDescription>
+          </div>
+          <Select value={type} onValueChange={value => { setType(value as SecurityEventType | 'all'); setShown(PAGE_SIZE); }}>
+            <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All events</SelectItem>
+              {(Object.keys(eventLabels) as SecurityEventType[]).map(eventType => (
+                <SelectItem key={eventType} value={eventType}>{eventLabels[eventType]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Username</TableHead>
+                <TableHead>IP Address</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 5 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell colSpan={5}><Skeleton className="h-5 w-full" /></TableCell>
+                  </TableRow>
+                ))
+              ) : filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No events recorded.</TableCell>
+                </TableRow>
+              ) : (
+                filtered.slice(0, shown).map(event => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                    <TableCell><Badge variant={eventVariants[event.type]}>{eventLabels[event.type]}</Badge></TableCell>
+                    <TableCell className="font-medium">{event.username ?? '-'}</TableCell>
+                    <TableCell>{event.ip ?? '-'}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs truncate" title={event.userAgent}>
+                      {event.detail ?? event.userAgent ?? ''}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          {!loading && filtered.length > shown && (
+            <div className="mt-4 text-center">
+              <Button variant="outline" onClick={() => setShown(shown + PAGE_SIZE)}>
+                Show More ({filtered.length - shown} remaining)
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,10 +5,15 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { updateCredentials } from '../actions';
+import { passwordSchema } from '@/lib/schemas';
+import ActiveSessions from '@/components/ActiveSessions';
+import AdminUsers from '@/components/AdminUsers';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import { useAdminUser } from '@/context/AdminUserProvider';
 import Link from 'next/link';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ArrowLeft, AlertTriangle } from 'lucide-react';
@@ -16,9 +21,15 @@ import { useRouter } from 'next/navigation';
 
 const credentialsSchema = z.object({
     currentPassword: z.string().min(1, 'Current password is required'),
-    newUsername: z.string().min(1, 'New username is required'),
-    newPassword: z.string().min(6, 'New password must be at least 6 characters long.'),
+    newUsername: z.string().trim().min(1, 'New username is required'),
+    newPassword: passwordSchema,
     confirmPassword: z.string(),
+}).refine(data => !data.newPassword.toLowerCase().includes(data.newUsername.toLowerCase()), {
+    message: 'Password cannot contain the username',
+    path: ['newPassword'],
+}).refine(data => data.newPassword !== data.currentPassword, {
+    message: 'New password must differ from the current one',
+    path: ['newPassword'],
 }).refine(data => data.newPassword === data.confirmPassword, {
     message: "Passwords don't match",
     path: ['confirmPassword'],
@@ -29,6 +40,7 @@ type CredentialsFormValues = z.infer<typeof credentialsSchema>;
 export default function SettingsPage() {
     const { toast } = useToast();
     const router = useRouter();
+    const { can } = useAdminUser();
     const form = useForm<CredentialsFormValues>({
         resolver: zodResolver(credentialsSchema),
         defaultValues: {
@@ -44,7 +56,7 @@ export default function SettingsPage() {
         if (result.success) {
             toast({ 
                 title: 'Credentials updated successfully', 
-                description: 'Please log out and log back in for the changes to take effect.' 
+                description: 'Any other devices signed in to the admin have been logged out.' 
             });
             form.reset();
         } else {
@@ -70,7 +82,7 @@ export default function SettingsPage() {
             <Card>
                 <CardHeader>
                     <CardTitle>Admin Settings</CardTitle>
-                    <CardDescription>Update your login username and password here.</CardDescription>
+                    <CardDescription>Update your own login username and password here.</CardDescription>
                 </CardHeader>
                 <CardContent>
                     <Form {...form}>
@@ -93,6 +105,7 @@ export default function SettingsPage() {
                                 <FormItem>
                                     <FormLabel>New Password</FormLabel>
                                     <FormControl><Input type="password" {...field} placeholder="Enter new password" /></FormControl>
+                                    <FormDescription>At least 10 characters, with a letter and a number, and not containing the username.</FormDescription>
                                     <FormMessage />
                                 </FormItem>
                             )} />
@@ -110,6 +123,20 @@ export default function SettingsPage() {
                     </Form>
                 </CardContent>
             </Card>
+
+            <div className="mt-8">
+                <TwoFactorSettings />
+            </div>
+
+            <div className="mt-8">
+                <ActiveSessions />
+            </div>
+
+            {can('users:manage') && (
+                <div className="mt-8">
+                    <AdminUsers />
+                </div>
+            )}
         </div>
     );
 }
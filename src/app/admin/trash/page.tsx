@@ -0,0 +1,146 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { Product } from '@/lib/types';
+import { getTrashedProductsAction, purgeProduct, restoreDeletedProduct } from '../actions';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export default function TrashPage() {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchTrash = async () => {
+    setLoading(true);
+    try {
+      const result = await getTrashedProductsAction();
+      setProducts(result.products);
+      setRetentionDays(result.retentionDays);
+    } catch (error) {
+      toast({ title: 'Failed to fetch trash', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (id: string) => {
+    const result = await restoreDeletedProduct(id);
+    if (result.success) {
+      toast({ title: 'Product restored' });
+      fetchTrash();
+    } else {
+      toast({ title: 'Error restoring product', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handlePurge = async (id: string) => {
+    const result = await purgeProduct(id);
+    if (result.success) {
+      toast({ title: 'Product permanently deleted' });
+      fetchTrash();
+    } else {
+      toast({ title: 'Error deleting product', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-10">
+      <div className="mb-6">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Trash</CardTitle>
+          <CardDescription>
+            Deleted products are hidden from the store and permanently removed, with their images, after {retentionDays} days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Brand</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Purged on</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-5 w-48" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-8 w-20 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : products.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">The trash is empty.</TableCell>
+                </TableRow>
+              ) : (
+                products.map(product => {
+                  const deletedAt = new Date(product.deletedAt!);
+                  const purgeAt = new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">{product.name}</TableCell>
+                      <TableCell>{product.brand}</TableCell>
+                      <TableCell>{deletedAt.toLocaleDateString()}</TableCell>
+                      <TableCell>{purgeAt.toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" aria-label="Restore" onClick={() => handleRestore(product.id)}>
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" aria-label="Delete permanently"><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                This action cannot be undone. This will permanently delete the product and its images.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handlePurge(product.id)}>Delete</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { UploadsReport } from '@/lib/uploads-gc';
+import { formatBytes } from '@/lib/utils';
+import { deleteOrphanedUploadsAction, scanUploadsAction } from '../actions';
+import { ArrowLeft, RefreshCw, Trash2 } from 'lucide-react';
+
+export default function UploadsPage() {
+  const [report, setReport] = useState<UploadsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const scan = async () => {
+    setLoading(true);
+    const result = await scanUploadsAction();
+    if (result.success && result.report) {
+      setReport(result.report);
+    } else {
+      toast({ title: 'Failed to scan uploads', description: result.error, variant: 'destructive' });
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    scan();
+  }, []);
+
+  const handleDelete = async () => {
+    if (!report) return;
+    const result = await deleteOrphanedUploadsAction(report.orphans.map(orphan => orphan.url));
+    if (result.success && result.summary) {
+      toast({ title: 'Orphaned uploads deleted', description: `Removed ${result.summary.deleted} file(s), freed ${formatBytes(result.summary.freedBytes)}.` });
+      scan();
+    } else {
+      toast({ title: 'Error deleting uploads', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-10 space-y-6">
+      <div className="flex justify-between items-center">
+        <Button asChild variant="ghost">
+          <Link href="/admin">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Admin Panel
+          </Link>
+        </Button>
+        <Button variant="outline" onClick={scan} disabled={loading}>
+          <RefreshCw className="mr-2 h-4 w-4" /> Rescan
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Orphaned Uploads</CardTitle>
+            <CardDescription>
+              {report
+                ? `${report.orphans.length} of ${report.totalFiles} files in the uploads folder (${formatBytes(report.orphanBytes)} of ${formatBytes(report.totalBytes)}) are not used by any product or revision.`
+                : 'Files in the uploads folder that no product or revision refers to.'}
+            </CardDescription>
+          </div>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" disabled={loading || !report || report.orphans.length === 0}>
+                <Trash2 className="mr-2 h-4 w-4" /> Delete Orphans
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {report?.orphans.length} file(s)?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This action cannot be undone. {formatBytes(report?.orphanBytes ?? 0)} of unused images will be removed from disk.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Last modified</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                Array.from({ length: 3 }).map((_, i) => (
+                  <TableRow key={i}>
+                    <TableCell><Skeleton className="h-5 w-64" /></TableCell>
+                    <TableCell><Skeleton className="h-5 w-24" /></TableCell>
+                    <TableCell className="text-right"><Skeleton className="h-5 w-16 ml-auto" /></TableCell>
+                  </TableRow>
+                ))
+              ) : report?.orphans.length ? (
+                report.orphans.map(orphan => (
+                  <TableRow key={orphan.url}>
+                    <TableCell className="font-mono text-xs">{orphan.url}</TableCell>
+                    <TableCell>{new Date(orphan.modifiedAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">{formatBytes(orphan.size)}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground py-8">No orphaned uploads.</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Missing Images</CardTitle>
+          <CardDescription>Products that refer to image files which no longer exist on disk.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Image</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!loading && report?.missing.length ? (
+                report.missing.map(entry => (
+                  <TableRow key={`${entry.productId}-${entry.url}`}>
+                    <TableCell className="font-medium">{entry.productName}</TableCell>
+                    <TableCell className="font-mono text-xs">{entry.url}</TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={2} className="text-center text-muted-foreground py-8">
+                    {loading ? 'Scanning...' : 'Every product image is present.'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getAuditEntries } from '@/lib/audit-log';
+import { POST } from './route';
+
+function login(username: string, password: string) {
+  return POST(new Request('http://localhost:9002/api/login', {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', 'x-forwarded-for': `203.0.113.${Math.floor(Math.random() * 250)}` },
+    body: JSON.stringify({ username, password }),
+  }));
+}
+
+describe('POST /api/login throttling', () => {
+  it('counts a parallel burst of guesses one by one', async () => {
+    const responses = await Promise.all(Array.from({ length: 10 }, () => login('admin', 'wrong-password')));
+    const statuses = responses.map(response => response.status);
+
+    // Three free attempts and a fourth that starts the backoff; every other
+    // guess arrives while that backoff is in force.
+    expect(statuses.filter(status => status === 401)).toHaveLength(4);
+    expect(statuses.filter(status => status === 429)).toHaveLength(6);
+  });
+
+  it('throttles only the username when no proxy is trusted', async () => {
+    // Forged X-Forwarded-For addresses do not reset a username's count...
+    const statuses: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      statuses.push((await login('owner', 'wrong-password')).status);
+    }
+    expect(statuses.slice(-1)).toEqual([429]);
+
+    // ...and failures against other names, from clients whose address is
+    // unknown, are never pooled into one key that would lock everyone out
+    // (an address is locked out after 30).
+    for (let i = 0; i < 31; i++) {
+      expect((await login(`user-${i}`, 'wrong-password')).status).toBe(401);
+    }
+  });
+});
+
+describe('POST /api/login behind a trusted proxy', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('throttles a client address that tries many usernames', async () => {
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '1');
+    vi.resetModules();
+    const { POST: post } = await import('./route');
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 12; i++) {
+      const response = await post(new Request('http://localhost:9002/api/login', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', 'x-forwarded-for': '198.51.100.7' },
+        body: JSON.stringify({ username: `guess-${i}`, password: 'wrong-password' }),
+      }));
+      statuses.push(response.status);
+    }
+    expect(statuses.slice(0, 10)).toEqual(Array(10).fill(401));
+    expect(statuses).toContain(429);
+  });
+});
+
+describe('POST /api/login audit trail', () => {
+  it('logs a failed login as anonymous, with the typed username kept apart', async () => {
+    expect((await login('=cmd|calc', 'wrong-password')).status).toBe(401);
+
+    const [entry] = await getAuditEntries();
+    expect(entry).toMatchObject({ action: 'auth.login_failed', actor: 'anonymous', attemptedUsername: '=cmd|calc' });
+  });
+});
@@ -1,14 +1,39 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { cookies } from 'next/headers';
-import { getAuthCredentials } from '@/lib/auth';
+import { checkCredentials } from '@/lib/auth';
+import { getLoginBlock, withLoginAttemptLock } from '@/lib/login-throttle';
+import { createLoginChallenge } from '@/lib/login-challenges';
+import { blockedResponse, failedLoginResponse, loginClient, successfulLoginResponse, type LoginClient } from '@/lib/login-response';
+import { recordSecurityEvent } from '@/lib/security-log';
 
 const loginSchema = z.object({
   username: z.string(),
   password: z.string(),
 });
 
-const AUTH_COOKIE_NAME = 'lapzen_auth';
+async function attemptLogin(username: string, password: string, client: LoginClient) {
+  // While waiting out a backoff or lockout the password is not even checked,
+  // so guesses made in that time tell the caller nothing.
+  const block = await getLoginBlock(client.ip, username);
+  if (block) {
+    await recordSecurityEvent({ type: 'login_blocked', username, ...client, detail: block.locked ? `${block.scope} locked` : `${block.scope} backoff` });
+    return blockedResponse(block);
+  }
+
+  const user = await checkCredentials(username, password);
+  if (!user) {
+    return failedLoginResponse(username, client, 'Invalid username or password');
+  }
+
+  // With two-factor login on, the password only earns a challenge; the session
+  // is issued by /api/login/verify once the code checks out.
+  if (user.totpSecret) {
+    const challenge = await createLoginChallenge(user.id);
+    return NextResponse.json({ message: 'Enter your authentication code', twoFactorRequired: true, challenge }, { status: 200 });
+  }
+
+  return successfulLoginResponse(user, client);
+}
 
 export async function POST(request: Request) {
   try {
@@ -20,21 +45,9 @@ export async function POST(request: Request) {
     }
 
     const { username, password } = parsed.data;
-    const adminCreds = await getAuthCredentials();
-
-
-    if (username === adminCreds.username && password === adminCreds.password) {
-      const cookieStore = cookies();
-      cookieStore.set(AUTH_COOKIE_NAME, 'true', {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        maxAge: 60 * 60 * 24, // 1 day
-        path: '/',
-      });
-      return NextResponse.json({ message: 'Login successful' }, { status: 200 });
-    } else {
-      return NextResponse.json({ message: 'Invalid username or password' }, { status: 401 });
-    }
+    const client = loginClient(request);
+
+    return await withLoginAttemptLock(client.ip, username, () => attemptLogin(username, password, client));
   } catch (error) {
     console.error(error);
     return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
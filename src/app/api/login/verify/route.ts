@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifySecondFactor } from '@/lib/auth';
+import { getLoginBlock, withLoginAttemptLock } from '@/lib/login-throttle';
+import { completeLoginChallenge, getLoginChallenge, recordChallengeFailure } from '@/lib/login-challenges';
+import { blockedResponse, failedLoginResponse, loginClient, successfulLoginResponse } from '@/lib/login-response';
+import { recordSecurityEvent } from '@/lib/security-log';
+import { getUserById } from '@/lib/users';
+
+const verifySchema = z.object({
+  challenge: z.string().min(1),
+  code: z.string().trim().min(1).max(32),
+});
+
+// Second login step for users with two-factor login: exchanges the challenge
+// from /api/login and a current code for a session.
+export async function POST(request: Request) {
+  try {
+    const parsed = verifySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+    }
+
+    const { challenge, code } = parsed.data;
+    const client = loginClient(request);
+
+    const pending = await getLoginChallenge(challenge);
+    const user = pending && (await getUserById(pending.userId));
+    if (!user || user.disabled || !user.totpSecret) {
+      return NextResponse.json({ message: 'This login has expired. Please enter your password again.', restart: true }, { status: 401 });
+    }
+
+    return await withLoginAttemptLock(client.ip, user.username, async () => {
+      // Wrong codes count towards the same backoff and lockout as wrong passwords.
+      const block = await getLoginBlock(client.ip, user.username);
+      if (block) {
+        await recordSecurityEvent({ type: 'login_blocked', username: user.username, ...client, detail: block.locked ? `${block.scope} locked` : `${block.scope} backoff` });
+        return blockedResponse(block);
+      }
+
+      const method = await verifySecondFactor(user, code);
+      if (!method) {
+        await recordChallengeFailure(challenge);
+        return failedLoginResponse(user.username, client, 'Invalid authentication code', 'wrong two-factor code');
+      }
+
+      await completeLoginChallenge(challenge);
+      return successfulLoginResponse(user, client, method === 'recovery' ? 'recovery code used' : 'two-factor');
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,14 +1,42 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
+import { getCurrentSession, revokeSession } from '@/lib/sessions';
+import { SESSION_COOKIE_NAME } from '@/lib/session-token';
+import { recordAudit } from '@/lib/audit-log';
+import { clientIp } from '@/lib/client-ip';
 
-const AUTH_COOKIE_NAME = 'lapzen_auth';
+// Ends the session on the server as well as in the browser, so a copied cookie
+// stops working too.
+async function logout(request: Request, response: NextResponse) {
+  const session = await getCurrentSession();
+  if (session) {
+    await revokeSession(session.id);
+    await recordAudit({
+      actor: session.username,
+      actorId: session.userId,
+      ip: clientIp(request.headers),
+      userAgent: request.headers.get('user-agent') ?? undefined,
+      action: 'auth.logout',
+      summary: 'Logged out',
+    });
+  }
+  response.cookies.delete(SESSION_COOKIE_NAME);
+  return response;
+}
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
-    const cookieStore = cookies();
-    cookieStore.delete(AUTH_COOKIE_NAME);
-    return NextResponse.json({ message: 'Logout successful' }, { status: 200 });
+    return await logout(request, NextResponse.json({ message: 'Logout successful' }, { status: 200 }));
   } catch (error) {
     return NextResponse.json({ message: 'Internal Server Error' }, { status: 500 });
   }
 }
+
+// The admin layout sends revoked sessions here to clear the cookie, which a page
+// cannot do itself.
+export async function GET(request: Request) {
+  try {
+    return await logout(request, NextResponse.redirect(new URL('/login', request.url)));
+  } catch (error) {
+    return NextResponse.redirect(new URL('/login', request.url));
+  }
+}
@@ -2,17 +2,38 @@
 'use server';
 
 import { generateWhatsappOrderMessage } from '@/ai/flows/generate-whatsapp-order-message';
-import type { CartItem } from '@/lib/types';
+import type { CartItem, Order, OrderItem } from '@/lib/types';
+import { getProductRepository } from '@/lib/repository';
+import { findStockProblems } from '@/lib/stock';
+import { cartItemConfiguration, cartItemPrice } from '@/lib/cart';
+import { createOrder, discardOrder } from '@/lib/order-store';
 import { z } from 'zod';
 
 const checkoutSchema = z.object({
-    customerName: z.string().min(2, { message: "Name must be at least 2 characters." }),
-    customerPhone: z.string().min(10, { message: "Please enter a valid phone number." }),
-    customerAddress: z.string().min(10, { message: "Please enter a valid address." }),
+    customerName: z.string().trim().min(2, { message: "Name must be at least 2 characters." }),
+    customerPhone: z.string().trim().min(10, { message: "Please enter a valid phone number." }),
+    customerAddress: z.string().trim().min(10, { message: "Please enter a valid address." }),
 });
 
+// What the browser sends for each cart line. Everything else about the line,
+// from the product's name to its price, is looked up in the catalog.
+const cartLineSchema = z.object({
+    productId: z.string().min(1),
+    quantity: z.number().int().min(1).max(100),
+    unitId: z.string().min(1).optional(),
+    variant: z.object({
+        ram: z.string().optional(),
+        storage: z.string().optional(),
+        colour: z.string().optional(),
+    }).strict().optional(),
+});
+
+export type CheckoutLine = z.infer<typeof cartLineSchema>;
+
+const cartSchema = z.array(cartLineSchema).max(50, { message: "Your cart has too many items." });
+
 export async function createWhatsappOrderMessage(
-    cartItems: CartItem[],
+    cartLines: CheckoutLine[],
     data: {
         customerName: string;
         customerPhone: string;
@@ -27,36 +48,102 @@ export async function createWhatsappOrderMessage(
             error: validationResult.error.flatten().fieldErrors 
         };
     }
+
+    const cartResult = cartSchema.safeParse(cartLines);
+    if (!cartResult.success) {
+        return { success: false, error: { cart: ['Your cart could not be read. Please refresh the page and try again.'] } };
+    }
     
-    if (cartItems.length === 0) {
+    if (cartResult.data.length === 0) {
         return { success: false, error: { cart: ['Your cart is empty.'] } };
     }
 
-    try {
-        const input = {
-            ...data,
-            cartItems: cartItems.map(item => ({
-                name: item.product.name,
-                quantity: item.quantity,
-                price: item.product.price
-            }))
+    const repository = await getProductRepository();
+    const current = new Map((await repository.list()).map(product => [product.id, product]));
+
+    const gone = cartResult.data.filter(line => !current.get(line.productId) || current.get(line.productId)!.deletedAt);
+    if (gone.length > 0) {
+        return { success: false, error: { cart: ['Some items in your cart are no longer sold. Remove them and try again.'] } };
+    }
+
+    // Priced from the catalog, not the copy of the product the browser kept.
+    const cartItems: CartItem[] = cartResult.data.map(line => ({
+        product: current.get(line.productId)!,
+        quantity: line.quantity,
+        unitId: line.unitId,
+        variant: line.variant,
+    }));
+
+    const stockProblems = findStockProblems(cartItems, current);
+    if (stockProblems.length > 0) {
+        return {
+            success: false,
+            error: {
+                stock: stockProblems.map(problem => problem.available === 0
+                    ? `${problem.name} is no longer available.`
+                    : `Only ${problem.available} of ${problem.name} available (you asked for ${problem.requested}).`),
+            },
+        };
+    }
+
+    const items: OrderItem[] = cartItems.map(item => {
+        const unitPrice = cartItemPrice(item);
+        return {
+            productId: item.product.id,
+            name: item.product.name,
+            configuration: cartItemConfiguration(item) || undefined,
+            unitId: item.unitId,
+            variant: item.variant,
+            quantity: item.quantity,
+            unitPrice,
+            lineTotal: unitPrice * item.quantity,
         };
+    });
+    const customer = validationResult.data;
 
-        const result = await generateWhatsappOrderMessage(input);
+    let order: Order | undefined;
+    try {
+        const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+        order = await createOrder({
+            items,
+            customer: { name: customer.customerName, phone: customer.customerPhone, address: customer.customerAddress },
+            itemCount: items.reduce((sum, item) => sum + item.quantity, 0),
+            subtotal,
+            total: subtotal,
+        });
+
+        const result = await generateWhatsappOrderMessage({
+            ...customer,
+            orderReference: order.reference,
+            cartItems: items.map(item => ({
+                name: item.name,
+                configuration: item.configuration,
+                quantity: item.quantity,
+                price: item.unitPrice,
+            })),
+        });
 
         if (!result.whatsappMessage) {
             throw new Error('The AI model returned an empty message. Please try again.');
         }
 
-        return { success: true, message: result.whatsappMessage };
+        // Staff match the chat to the order by its reference, so it must survive
+        // whatever wording the model chose.
+        const message = result.whatsappMessage.includes(order.reference)
+            ? result.whatsappMessage
+            : `Order reference: ${order.reference}\n\n${result.whatsappMessage}`;
+
+        return { success: true, message, reference: order.reference };
 
     } catch (err) {
         const error = err instanceof Error ? err : new Error(String(err));
         console.error("Error generating WhatsApp message:", error);
+        if (order) {
+            await discardOrder(order.id).catch(discardError => console.error("Error discarding order:", discardError));
+        }
         return { 
             success: false, 
             error: { server: [error.message || 'Failed to generate order message. Please try again.'] } 
         };
     }
 }
-    
\ No newline at end of file
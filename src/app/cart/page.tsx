@@ -2,7 +2,6 @@
 
 import { useCart } from '@/context/CartProvider';
 import { Button } from '@/components/ui/button';
-import Image from 'next/image';
 import Link from 'next/link';
 import { Minus, Plus, ShoppingCart, Trash2, X } from 'lucide-react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,6 +15,8 @@ import { createWhatsappOrderMessage } from './actions';
 import { useState } from 'react';
 import { useToast } from '@/hooks/use-toast';
 import { Separator } from '@/components/ui/separator';
+import ProductImage from '@/components/ProductImage';
+import { cartItemKey, cartItemName, cartItemPrice, maxLineQuantity } from '@/lib/cart';
 
 const checkoutSchema = z.object({
   customerName: z.string().min(2, "Name is required"),
@@ -39,7 +40,8 @@ export default function CartPage() {
 
   const onSubmit = async (values: z.infer<typeof checkoutSchema>) => {
     setIsSubmitting(true);
-    const result = await createWhatsappOrderMessage(cartItems, values);
+    const lines = cartItems.map(({ product, quantity, unitId, variant }) => ({ productId: product.id, quantity, unitId, variant }));
+    const result = await createWhatsappOrderMessage(lines, values);
     
     if (result.success && result.message) {
       const whatsappNumber = "92309009022";
@@ -48,7 +50,7 @@ export default function CartPage() {
       
       toast({
           title: "Order Prepared!",
-          description: "Redirecting to WhatsApp to send your order.",
+          description: `Your order reference is ${result.reference}. Redirecting to WhatsApp to send your order.`,
       });
 
       window.open(whatsappUrl, '_blank');
@@ -56,9 +58,11 @@ export default function CartPage() {
       form.reset();
 
     } else {
+        const stockErrors = result.error && 'stock' in result.error ? result.error.stock : undefined;
+        const cartErrors = result.error && 'cart' in result.error ? result.error.cart : undefined;
         toast({
-            title: "Error",
-            description: "Could not create order message. Please try again.",
+            title: stockErrors ? "Not enough stock" : "Error",
+            description: (stockErrors ?? cartErrors)?.join(' ') ?? "Could not create order message. Please try again.",
             variant: "destructive",
         })
       console.error("Order submission failed", result.error);
@@ -82,22 +86,22 @@ export default function CartPage() {
         <div className="grid lg:grid-cols-3 gap-8 xl:gap-12">
           <div className="lg:col-span-2 space-y-4">
              {cartItems.map(item => (
-                <Card key={item.product.id} className="flex items-center p-4">
+                <Card key={cartItemKey(item)} className="flex items-center p-4">
                     <div className="relative w-24 h-24 rounded-md overflow-hidden">
-                        <Image src={item.product.images[0]} alt={item.product.name} fill className="object-cover" data-ai-hint="laptop computer"/>
+                        <ProductImage product={item.product} src={item.product.images[0]} alt={item.product.name} size="thumb" sizes="96px" />
                     </div>
                     <div className="ml-4 flex-grow">
-                        <Link href={`/products/${item.product.id}`} className="font-semibold font-headline hover:text-primary">{item.product.name}</Link>
-                        <p className="text-sm text-muted-foreground">PKR {item.product.price.toLocaleString()}</p>
+                        <Link href={`/products/${item.product.id}`} className="font-semibold font-headline hover:text-primary">{cartItemName(item)}</Link>
+                        <p className="text-sm text-muted-foreground">PKR {cartItemPrice(item).toLocaleString()}</p>
                         <div className="flex items-center gap-2 mt-2">
-                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => updateQuantity(item.product.id, item.quantity - 1)}><Minus className="h-4 w-4" /></Button>
+                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => updateQuantity(cartItemKey(item), item.quantity - 1)}><Minus className="h-4 w-4" /></Button>
                             <span>{item.quantity}</span>
-                            <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => updateQuantity(item.product.id, item.quantity + 1)}><Plus className="h-4 w-4" /></Button>
+                            <Button variant="outline" size="icon" className="h-8 w-8" disabled={item.quantity >= maxLineQuantity(item, cartItems)} onClick={() => updateQuantity(cartItemKey(item), item.quantity + 1)}><Plus className="h-4 w-4" /></Button>
                         </div>
                     </div>
                     <div className="text-right">
-                        <p className="font-semibold">PKR {(item.product.price * item.quantity).toLocaleString()}</p>
-                        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive mt-2" onClick={() => removeFromCart(item.product.id)}><Trash2 className="h-4 w-4" /></Button>
+                        <p className="font-semibold">PKR {(cartItemPrice(item) * item.quantity).toLocaleString()}</p>
+                        <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive mt-2" onClick={() => removeFromCart(cartItemKey(item))}><Trash2 className="h-4 w-4" /></Button>
                     </div>
                 </Card>
              ))}
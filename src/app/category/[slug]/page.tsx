@@ -0,0 +1,90 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { ChevronRight, Frown } from 'lucide-react';
+import ProductCard from '@/components/ProductCard';
+import { Button } from '@/components/ui/button';
+import { getProductRepository } from '@/lib/repository';
+import { categoryPath, descendantIds } from '@/lib/categories';
+import { getCategories } from '@/lib/category-store';
+import { toStorefrontProduct } from '@/lib/units';
+
+interface CategoryPageProps {
+  params: {
+    slug: string;
+  };
+}
+
+export const revalidate = 60;
+
+export async function generateStaticParams() {
+  const categories = await getCategories();
+  return categories.map(category => ({
+    slug: category.slug,
+  }));
+}
+
+export default async function CategoryPage({ params }: CategoryPageProps) {
+  const categories = await getCategories();
+  const category = categories.find(other => other.slug === params.slug);
+  if (!category) {
+    notFound();
+  }
+
+  const repository = await getProductRepository();
+  const products = (await repository.query({ categoryIds: descendantIds(categories, category.id) })).map(toStorefrontProduct);
+  const children = categories.filter(other => other.parentId === category.id);
+  const trail = categoryPath(categories, category.id);
+
+  return (
+    <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <nav className="flex items-center gap-1 text-sm text-muted-foreground mb-6" aria-label="Breadcrumb">
+        <Link href="/products" className="hover:text-primary">All Laptops</Link>
+        {trail.map(step => (
+          <span key={step.id} className="flex items-center gap-1">
+            <ChevronRight className="h-4 w-4" />
+            {step.id === category.id ? (
+              <span className="text-foreground">{step.name}</span>
+            ) : (
+              <Link href={`/category/${step.slug}`} className="hover:text-primary">{step.name}</Link>
+            )}
+          </span>
+        ))}
+      </nav>
+
+      <div className="text-center mb-10">
+        <h1 className="text-4xl md:text-5xl font-extrabold font-headline">{category.name}</h1>
+        {category.description && <p className="text-lg text-muted-foreground mt-2">{category.description}</p>}
+      </div>
+
+      {children.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2 mb-10">
+          {children.map(child => (
+            <Button key={child.id} asChild variant="outline" className="rounded-full">
+              <Link href={`/category/${child.slug}`}>{child.name}</Link>
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {products.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+          {products.map(product => (
+            <ProductCard key={product.id} product={product} />
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-col items-center justify-center min-h-[40vh] bg-card rounded-lg p-8">
+          <Frown className="w-16 h-16 text-muted-foreground mb-4" />
+          <h2 className="text-2xl font-headline font-semibold">Nothing Here Yet</h2>
+          <p className="text-muted-foreground mt-2">Check back soon, or browse the full collection.</p>
+        </div>
+      )}
+
+      <div className="text-center mt-12">
+        <Button asChild variant="outline" size="lg">
+          <Link href={`/products?category=${category.slug}`}>Filter {category.name} in the full catalog</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
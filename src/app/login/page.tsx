@@ -1,38 +1,87 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Lock } from 'lucide-react';
+import { csrfHeaders } from '@/lib/csrf';
+
+// "14 min 5 s", "40 s".
+function formatWait(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+}
 
 export default function LoginPage() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  // Set once the password is accepted for a user with two-factor login.
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  // Set while the server refuses attempts: until when, and whether it is a lockout.
+  const [wait, setWait] = useState<{ until: number; locked: boolean } | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
   const router = useRouter();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (!wait) return;
+    const tick = () => {
+      const seconds = Math.ceil((wait.until - Date.now()) / 1000);
+      if (seconds <= 0) {
+        setWait(null);
+        setError('');
+      }
+      setSecondsLeft(Math.max(0, seconds));
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [wait]);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
     try {
-      const response = await fetch('/api/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username, password }),
-      });
+      const response = challenge
+        ? await fetch('/api/login/verify', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+            body: JSON.stringify({ challenge, code }),
+          })
+        : await fetch('/api/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...csrfHeaders() },
+            body: JSON.stringify({ username, password }),
+          });
+      const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.twoFactorRequired) {
+        setChallenge(data.challenge);
+        setCode('');
+      } else if (response.ok) {
         toast({ title: 'Login successful!' });
         router.push('/admin');
       } else {
-        const data = await response.json();
-        setError(data.message || 'Invalid username or password');
-        toast({ title: 'Login failed', description: data.message || 'Invalid username or password', variant: 'destructive' });
+        if (data.restart) {
+          setChallenge(null);
+          setPassword('');
+        }
+        if (data.retryAfter) {
+          setWait({ until: Date.now() + data.retryAfter * 1000, locked: Boolean(data.locked) });
+        }
+        const message = data.attemptsLeft
+          ? `${data.message}. ${data.attemptsLeft} ${data.attemptsLeft === 1 ? 'attempt' : 'attempts'} left before login is locked.`
+          : data.message || 'Invalid username or password';
+        setError(message);
+        toast({ title: response.status === 429 ? 'Too many attempts' : 'Login failed', description: message, variant: 'destructive' });
       }
     } catch (err) {
       setError('An error occurred during login.');
@@ -45,36 +94,74 @@ export default function LoginPage() {
       <Card className="w-full max-w-sm">
         <CardHeader className="text-center space-y-2">
           <CardTitle className="text-2xl font-headline">Admin Login</CardTitle>
-          <CardDescription>Enter your credentials to access the admin panel.</CardDescription>
+          <CardDescription>
+            {challenge
+              ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'
+              : 'Enter your credentials to access the admin panel.'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <form onSubmit={handleLogin} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                placeholder="admin"
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="password"
-                required
-              />
-            </div>
-            {error && <p className="text-sm text-destructive">{error}</p>}
-            <Button type="submit" className="w-full">
-              Login
+            {challenge ? (
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code</Label>
+                <Input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  required
+                />
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="username">Username</Label>
+                  <Input
+                    id="username"
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="admin"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="password"
+                    required
+                  />
+                </div>
+              </>
+            )}
+            {wait?.locked ? (
+              <Alert variant="destructive">
+                <Lock className="h-4 w-4" />
+                <AlertTitle>Login temporarily locked</AlertTitle>
+                <AlertDescription>
+                  There have been too many failed attempts. You can try again in {formatWait(secondsLeft)}, or ask an owner of the store to unlock it.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              error && <p className="text-sm text-destructive">{error}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={wait !== null}>
+              {wait && !wait.locked ? `Try again in ${formatWait(secondsLeft)}` : challenge ? 'Verify' : 'Login'}
             </Button>
+            {challenge && (
+              <Button type="button" variant="ghost" className="w-full" onClick={() => { setChallenge(null); setPassword(''); setError(''); }}>
+                Back
+              </Button>
+            )}
           </form>
         </CardContent>
       </Card>
@@ -1,82 +1,112 @@
 import ProductCard from '@/components/ProductCard';
-import { Button } from '@/components/ui/button';
-import { getProductsAction } from '@/app/admin/actions';
-import { ArrowRight } from 'lucide-react';
-import Link from 'next/link';
+import BrandStrip from '@/components/BrandStrip';
+import HeroBanner from '@/components/HeroBanner';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { getProductRepository } from '@/lib/repository';
+import { getBrands } from '@/lib/brands';
+import { isBannerLive, type HomepageSection } from '@/lib/homepage';
+import { getHomepageConfig } from '@/lib/homepage-store';
+import type { Brand, Product } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// Scheduled banners switch on and off by time, so the page cannot stay cached
+// until the next admin save.
+export const revalidate = 60;
+
+type RenderedSection = { section: HomepageSection; products: Product[]; brands: Brand[] };
+
+async function loadSection(section: HomepageSection): Promise<RenderedSection> {
+  const repository = await getProductRepository();
+  const limit = section.limit;
+  let products: Product[] = [];
+  let brands: Brand[] = [];
+
+  switch (section.type) {
+    case 'featured':
+      products = await repository.query({ featured: true, limit });
+      break;
+    case 'new-arrivals':
+      products = await repository.query({ newArrival: true, limit });
+      break;
+    case 'price-band':
+      products = await repository.query({ minPrice: section.minPrice, maxPrice: section.maxPrice, sort: 'price-asc', limit });
+      break;
+    case 'product-list': {
+      const active = await repository.query({});
+      products = (section.productIds ?? [])
+        .map(id => active.find(product => product.id === id))
+        .filter((product): product is Product => !!product)
+        .slice(0, limit);
+      break;
+    }
+    case 'all-products':
+      products = await repository.query({ limit });
+      break;
+    case 'brands': {
+      const active = await repository.query({});
+      brands = (await getBrands())
+        .filter(brand => active.some(product => product.brand === brand.name))
+        .slice(0, limit);
+      break;
+    }
+  }
+
+  return { section, products, brands };
+}
 
 export default async function Home() {
-  const products = await getProductsAction();
-  const featuredProducts = products.filter(p => p.featured).slice(0, 3);
-  const newArrivals = products.filter(p => p.newArrival).slice(0, 3);
+  const config = await getHomepageConfig();
+  const now = new Date();
+  const banners = config.banners.filter(banner => isBannerLive(banner, now));
+  const sections = (await Promise.all(config.sections.filter(section => section.enabled).map(loadSection)))
+    .filter(({ section, products, brands }) => (section.type === 'brands' ? brands.length > 0 : products.length > 0));
 
   return (
     <div className="space-y-16 md:space-y-24 pb-24">
       {/* Hero Section */}
-      <section className="container mx-auto px-4 sm:px-6 lg:px-8 pt-12">
-        <div className="text-center py-16 md:py-24">
-            <h1 className="text-4xl md:text-5xl lg:text-6xl font-extrabold font-headline tracking-tight">
-              Find Your <span className="text-primary">Perfect</span> Laptop
-            </h1>
-            <p className="text-lg md:text-xl text-muted-foreground max-w-2xl mx-auto mt-6">
-              Discover top-tier new and pre-loved laptops from the world's leading brands. Unmatched quality, unbeatable prices.
-            </p>
-            <div className="flex gap-4 justify-center mt-8">
-              <Button asChild size="lg" className="font-bold">
-                <Link href="/products">Shop All Laptops <ArrowRight className="ml-2 h-5 w-5" /></Link>
-              </Button>
-              <Button asChild size="lg" variant="outline">
-                <Link href="/about">About Us</Link>
-              </Button>
-            </div>
-        </div>
-      </section>
-
-      {/* Featured Products Section */}
-      {featuredProducts.length > 0 && (
-        <section className="container mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="text-center mb-12">
-            <h2 className="text-3xl md:text-4xl font-bold font-headline">Featured Laptops</h2>
-            <p className="text-lg text-muted-foreground mt-2">Handpicked for performance and value</p>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {featuredProducts.map(product => (
-              <ProductCard key={product.id} product={product} />
-            ))}
-          </div>
+      {banners.length > 0 && (
+        <section className="container mx-auto px-4 sm:px-6 lg:px-8 pt-12">
+          {banners.length === 1 ? (
+            <HeroBanner banner={banners[0]} priority />
+          ) : (
+            <Carousel opts={{ loop: true }}>
+              <CarouselContent>
+                {banners.map((banner, index) => (
+                  <CarouselItem key={banner.id}>
+                    <HeroBanner banner={banner} priority={index === 0} />
+                  </CarouselItem>
+                ))}
+              </CarouselContent>
+              <CarouselPrevious className="left-4" />
+              <CarouselNext className="right-4" />
+            </Carousel>
+          )}
         </section>
       )}
-      
-      {/* New Arrivals Section */}
-      {newArrivals.length > 0 && (
-         <section className="bg-card py-16 md:py-24">
+
+      {sections.map(({ section, products, brands }, index) => {
+        // Every other section sits on a card-coloured band.
+        const banded = index % 2 === 1;
+        return (
+          <section key={section.id} className={cn(banded && 'bg-card py-16 md:py-24')}>
             <div className="container mx-auto px-4 sm:px-6 lg:px-8">
-            <div className="text-center mb-12">
-                <h2 className="text-3xl md:text-4xl font-bold font-headline">New Arrivals</h2>
-                <p className="text-lg text-muted-foreground mt-2">Check out the latest additions to our collection</p>
-            </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                {newArrivals.map(product => (
-                <ProductCard key={product.id} product={product} />
-                ))}
-            </div>
+              <div className="text-center mb-12">
+                <h2 className="text-3xl md:text-4xl font-bold font-headline">{section.title}</h2>
+                {section.subtitle && <p className="text-lg text-muted-foreground mt-2">{section.subtitle}</p>}
+              </div>
+              {section.type === 'brands' ? (
+                <BrandStrip brands={brands} />
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                  {products.map(product => (
+                    <ProductCard key={product.id} product={product} />
+                  ))}
+                </div>
+              )}
             </div>
-         </section>
-      )}
-
-      {/* All Products Section */}
-      {products.length > 0 && (
-        <section className="container mx-auto px-4 sm:px-6 lg:px-8">
-          <div className="text-center mb-12">
-            <h2 className="text-3xl md:text-4xl font-bold font-headline">All Our Laptops</h2>
-            <p className="text-lg text-muted-foreground mt-2">Browse the complete collection</p>
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {products.map(product => (
-              <ProductCard key={product.id} product={product} />
-            ))}
-          </div>
-        </section>
-      )}
+          </section>
+        );
+      })}
     </div>
   );
 }
@@ -1,11 +1,16 @@
-import { getProductsAction } from '@/app/admin/actions';
+import Link from 'next/link';
+import { getProductRepository } from '@/lib/repository';
 import { notFound } from 'next/navigation';
-import Image from 'next/image';
 import { Card, CardContent } from '@/components/ui/card';
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
 import { Badge } from '@/components/ui/badge';
-import AddToCartButton from '@/components/AddToCartButton';
+import ProductPurchase from '@/components/ProductPurchase';
 import { Table, TableBody, TableCell, TableRow } from '@/components/ui/table';
+import ProductImage from '@/components/ProductImage';
+import StockBadge from '@/components/StockBadge';
+import { toStorefrontProduct } from '@/lib/units';
+import { categoryPath } from '@/lib/categories';
+import { getCategories } from '@/lib/category-store';
 
 interface ProductPageProps {
   params: {
@@ -14,19 +19,22 @@ interface ProductPageProps {
 }
 
 export async function generateStaticParams() {
-    const products = await getProductsAction();
+    const repository = await getProductRepository();
+    const products = await repository.query({});
     return products.map(product => ({
         id: product.id,
     }));
 }
 
 export default async function ProductPage({ params }: ProductPageProps) {
-  const products = await getProductsAction();
-  const product = products.find(p => p.id === params.id);
+  const repository = await getProductRepository();
+  const stored = await repository.getById(params.id);
 
-  if (!product) {
+  if (!stored || stored.deletedAt) {
     notFound();
   }
+  const product = toStorefrontProduct(stored);
+  const categories = product.categoryId ? categoryPath(await getCategories(), product.categoryId) : [];
 
   return (
     <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12 md:py-20">
@@ -39,12 +47,13 @@ export default async function ProductPage({ params }: ProductPageProps) {
                   <Card className="overflow-hidden">
                     <CardContent className="p-0">
                       <div className="aspect-square relative">
-                        <Image
+                        <ProductImage
+                          product={product}
                           src={src}
                           alt={`${product.name} image ${index + 1}`}
-                          fill
-                          className="object-cover"
+                          size="full"
                           sizes="(max-width: 768px) 100vw, 50vw"
+                          priority={index === 0}
                         />
                       </div>
                     </CardContent>
@@ -63,9 +72,12 @@ export default async function ProductPage({ params }: ProductPageProps) {
 
         <div className="space-y-6">
           <div className="space-y-2">
-            <Badge variant={product.condition === 'New' ? 'default' : 'secondary'} className="bg-primary/10 text-primary border-primary/20">
-                {product.condition}
-            </Badge>
+            <div className="flex items-center gap-2">
+                <Badge variant={product.condition === 'New' ? 'default' : 'secondary'} className="bg-primary/10 text-primary border-primary/20">
+                    {product.condition}
+                </Badge>
+                <StockBadge product={product} />
+            </div>
             <h1 className="text-3xl md:text-4xl font-bold font-headline">{product.name}</h1>
             <p className="text-3xl font-headline text-primary font-semibold">
                 {new Intl.NumberFormat('en-PK', { style: 'currency', currency: 'PKR', minimumFractionDigits: 0 }).format(product.price)}
@@ -73,6 +85,16 @@ export default async function ProductPage({ params }: ProductPageProps) {
           </div>
 
           <p className="text-muted-foreground font-body text-lg">{product.description}</p>
+
+          {product.tags && product.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {product.tags.map(tag => (
+                <Link key={tag} href={`/products?tag=${encodeURIComponent(tag)}`}>
+                  <Badge variant="outline" className="font-normal hover:bg-accent">#{tag}</Badge>
+                </Link>
+              ))}
+            </div>
+          )}
           
           <Card>
             <CardContent className="p-6">
@@ -83,6 +105,19 @@ export default async function ProductPage({ params }: ProductPageProps) {
                             <TableCell className="font-medium">Brand</TableCell>
                             <TableCell>{product.brand}</TableCell>
                         </TableRow>
+                        {categories.length > 0 && (
+                            <TableRow>
+                                <TableCell className="font-medium">Category</TableCell>
+                                <TableCell>
+                                    {categories.map((category, index) => (
+                                        <span key={category.id}>
+                                            {index > 0 && ' › '}
+                                            <Link href={`/category/${category.slug}`} className="hover:text-primary underline-offset-4 hover:underline">{category.name}</Link>
+                                        </span>
+                                    ))}
+                                </TableCell>
+                            </TableRow>
+                        )}
                         <TableRow>
                             <TableCell className="font-medium">Processor</TableCell>
                             <TableCell>{product.specs.processor}</TableCell>
@@ -99,12 +134,30 @@ export default async function ProductPage({ params }: ProductPageProps) {
                             <TableCell className="font-medium">Display</TableCell>
                             <TableCell>{product.specs.display}</TableCell>
                         </TableRow>
+                        {product.structuredSpecs?.screen?.refreshHz && (
+                            <TableRow>
+                                <TableCell className="font-medium">Refresh Rate</TableCell>
+                                <TableCell>{product.structuredSpecs.screen.refreshHz} Hz</TableCell>
+                            </TableRow>
+                        )}
+                        {product.structuredSpecs?.gpu && (
+                            <TableRow>
+                                <TableCell className="font-medium">Graphics</TableCell>
+                                <TableCell>{product.structuredSpecs.gpu}</TableCell>
+                            </TableRow>
+                        )}
+                        {product.structuredSpecs?.os && (
+                            <TableRow>
+                                <TableCell className="font-medium">Operating System</TableCell>
+                                <TableCell>{product.structuredSpecs.os}</TableCell>
+                            </TableRow>
+                        )}
                     </TableBody>
                 </Table>
             </CardContent>
           </Card>
 
-          <AddToCartButton product={product} />
+          <ProductPurchase product={product} />
 
         </div>
       </div>
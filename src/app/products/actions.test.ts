@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Product } from '@/lib/types';
+import { createMemoryProductRepository, setProductRepository } from '@/lib/repository';
+import { getProductsAction } from './actions';
+
+const listed: Product = {
+  id: 'prod_1',
+  name: 'ThinkPad T14',
+  brand: 'Lenovo',
+  price: 150000,
+  condition: 'Used',
+  images: ['https://example.com/t14.jpg'],
+  specs: { processor: 'Core i5', ram: '16GB', storage: '512GB SSD', display: '14"', battery: 'Good' },
+  description: 'A business laptop.',
+  stock: 1,
+  availability: 'in_stock',
+};
+const trashed: Product = { ...listed, id: 'prod_2', name: 'EliteBook 840', brand: 'HP', deletedAt: '2025-01-01T00:00:00.000Z' };
+
+beforeEach(() => {
+  setProductRepository(createMemoryProductRepository([listed, trashed]));
+});
+
+describe('getProductsAction', () => {
+  it('lists only products that are not in the trash, whatever status is asked for', async () => {
+    for (const query of [{}, { status: 'trashed' }, { status: 'all' }]) {
+      expect((await getProductsAction(query)).map(product => product.id)).toEqual([listed.id]);
+    }
+  });
+
+  it('applies the storefront filters', async () => {
+    expect(await getProductsAction({ brands: ['HP'] })).toEqual([]);
+    expect((await getProductsAction({ search: 'thinkpad', sort: 'price-asc' })).map(product => product.id)).toEqual([listed.id]);
+  });
+
+  it('returns nothing for a malformed query', async () => {
+    expect(await getProductsAction({ limit: 1e9 })).toEqual([]);
+  });
+});
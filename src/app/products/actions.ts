@@ -0,0 +1,50 @@
+'use server';
+
+import { z } from 'zod';
+import type { Brand, Category, Product, ProductQuery } from '@/lib/types';
+import { getProductRepository } from '@/lib/repository';
+import { toStorefrontProduct } from '@/lib/units';
+import { getBrands } from '@/lib/brands';
+import { getCategories } from '@/lib/category-store';
+
+// The filters a shopper can set. Anything else a caller sends is dropped, and
+// trashed products are never listed.
+const storefrontQuerySchema = z.object({
+    search: z.string().max(200).optional(),
+    categoryIds: z.array(z.string().max(100)).max(50).optional(),
+    brands: z.array(z.string().max(100)).max(50).optional(),
+    sort: z.enum(['newest', 'price-asc', 'price-desc']).optional(),
+    limit: z.number().int().min(1).max(200).optional(),
+});
+
+export async function getProductsAction(query: unknown = {}): Promise<Product[]> {
+    const result = storefrontQuerySchema.safeParse(query ?? {});
+    if (!result.success) return [];
+
+    try {
+        const repository = await getProductRepository();
+        const storefrontQuery: ProductQuery = { ...result.data, status: 'active' };
+        return (await repository.query(storefrontQuery)).map(toStorefrontProduct);
+    } catch (error) {
+        console.error("Error fetching products:", error);
+        return [];
+    }
+}
+
+export async function getBrandsAction(): Promise<Brand[]> {
+    try {
+        return await getBrands();
+    } catch (error) {
+        console.error("Error fetching brands:", error);
+        return [];
+    }
+}
+
+export async function getCategoriesAction(): Promise<(Category & { depth: number })[]> {
+    try {
+        return await getCategories();
+    } catch (error) {
+        console.error("Error fetching categories:", error);
+        return [];
+    }
+}
@@ -3,42 +3,67 @@
 import { useState, useMemo, useEffect } from 'react';
 import ProductCard from '@/components/ProductCard';
 import { ProductFilters } from '@/components/ProductFilters';
-import type { Product } from '@/lib/types';
+import type { Brand, Category, Product } from '@/lib/types';
 import { Frown } from 'lucide-react';
-import { getProductsAction } from '@/app/admin/actions';
+import { getBrandsAction, getCategoriesAction, getProductsAction } from './actions';
+import { descendantIds } from '@/lib/categories';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 
 export default function ProductsPage() {
     const [allProducts, setAllProducts] = useState<Product[]>([]);
+    const [brands, setBrands] = useState<Brand[]>([]);
+    const [categories, setCategories] = useState<(Category & { depth: number })[]>([]);
     const [loading, setLoading] = useState(true);
     
     // Default max price, will be updated when products are loaded
     const [maxPrice, setMaxPrice] = useState(1000000);
     
     const [filters, setFilters] = useState<{
-        brand: string;
+        brands: string[];
+        categories: string[];
+        tags: string[];
         priceRange: [number, number];
         conditions: string[];
         processor: string;
-        ram: string;
+        cpuFamilies: string[];
+        ramGb: number[];
+        storageTypes: string[];
     }>({
-        brand: '',
+        brands: [],
+        categories: [],
+        tags: [],
         priceRange: [0, maxPrice],
         conditions: [],
         processor: '',
-        ram: '',
+        cpuFamilies: [],
+        ramGb: [],
+        storageTypes: [],
     });
 
     useEffect(() => {
         const fetchProducts = async () => {
             setLoading(true);
-            const products = await getProductsAction();
+            const [products, brandList, categoryList] = await Promise.all([getProductsAction(), getBrandsAction(), getCategoriesAction()]);
             setAllProducts(products);
+            setBrands(brandList);
+            setCategories(categoryList);
             const newMaxPrice = products.length > 0 ? Math.max(...products.map(p => p.price)) : 1000000;
             setMaxPrice(newMaxPrice);
             // Update the filter's price range with the actual max price from data
-            setFilters(prev => ({ ...prev, priceRange: [0, newMaxPrice] }));
+            // Links such as the home page brand strip preselect a brand with ?brand=<slug>;
+            // category pages and product tags link with ?category=<slug> and ?tag=<tag>.
+            const params = new URLSearchParams(window.location.search);
+            const linkedBrand = brandList.find(brand => brand.slug === params.get('brand'));
+            const linkedCategory = categoryList.find(category => category.slug === params.get('category'));
+            const linkedTag = params.get('tag');
+            setFilters(prev => ({
+                ...prev,
+                priceRange: [0, newMaxPrice],
+                brands: linkedBrand ? [linkedBrand.name] : prev.brands,
+                categories: linkedCategory ? [linkedCategory.id] : prev.categories,
+                tags: linkedTag ? [linkedTag] : prev.tags,
+            }));
             setLoading(false);
         };
         fetchProducts();
@@ -53,25 +78,52 @@ export default function ProductsPage() {
 
     const handleResetFilters = () => {
         setFilters({
-            brand: '',
+            brands: [],
+            categories: [],
+            tags: [],
             priceRange: [0, maxPrice],
             conditions: [],
             processor: '',
-            ram: '',
+            cpuFamilies: [],
+            ramGb: [],
+            storageTypes: [],
         });
     };
 
     const filteredProducts = useMemo(() => {
+        // A ticked category also matches everything in its subcategories.
+        const categoryIds = new Set(filters.categories.flatMap(id => descendantIds(categories, id)));
         return allProducts.filter(product => {
-            const brandMatch = filters.brand === '' || product.brand.toLowerCase().includes(filters.brand.toLowerCase());
+            const brandMatch = filters.brands.length === 0 || filters.brands.includes(product.brand);
+            const categoryMatch = categoryIds.size === 0 || categoryIds.has(product.categoryId ?? '');
+            const tagMatch = filters.tags.length === 0 || filters.tags.some(tag => product.tags?.includes(tag));
             const priceMatch = product.price <= filters.priceRange[1];
             const conditionMatch = filters.conditions.length === 0 || filters.conditions.includes(product.condition);
             const processorMatch = filters.processor === '' || product.specs.processor.toLowerCase().includes(filters.processor.toLowerCase());
-            const ramMatch = filters.ram === '' || product.specs.ram.toLowerCase().includes(filters.ram.toLowerCase());
+            const specs = product.structuredSpecs;
+            const cpuMatch = filters.cpuFamilies.length === 0 || filters.cpuFamilies.includes(specs?.cpu?.family ?? '');
+            const ramMatch = filters.ramGb.length === 0 || filters.ramGb.includes(specs?.ramGb ?? -1);
+            const storageMatch = filters.storageTypes.length === 0 || filters.storageTypes.includes(specs?.storage?.type ?? '');
             
-            return brandMatch && priceMatch && conditionMatch && processorMatch && ramMatch;
+            return brandMatch && categoryMatch && tagMatch && priceMatch && conditionMatch && processorMatch && cpuMatch && ramMatch && storageMatch;
         });
-    }, [filters, allProducts]);
+    }, [filters, allProducts, categories]);
+
+    const filterOptions = useMemo(() => {
+        const unique = <T,>(values: (T | undefined)[]) => Array.from(new Set(values.filter((v): v is T => v !== undefined)));
+        return {
+            // Every brand in the collection, in its configured order, as long as something is listed under it.
+            brands: brands.map(brand => brand.name).filter(name => allProducts.some(p => p.brand === name)),
+            // Categories with something listed in them or below them.
+            categories: categories
+                .filter(category => descendantIds(categories, category.id).some(id => allProducts.some(p => p.categoryId === id)))
+                .map(({ id, name, depth }) => ({ id, name, depth })),
+            tags: unique(allProducts.flatMap(p => p.tags ?? [])).sort(),
+            cpuFamilies: unique(allProducts.map(p => p.structuredSpecs?.cpu?.family)).sort(),
+            ramGb: unique(allProducts.map(p => p.structuredSpecs?.ramGb)).sort((a, b) => a - b),
+            storageTypes: unique(allProducts.map(p => p.structuredSpecs?.storage?.type)).sort(),
+        };
+    }, [allProducts, brands, categories]);
 
     return (
         <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -83,6 +135,7 @@ export default function ProductsPage() {
                 <aside className="lg:col-span-1">
                     <ProductFilters 
                         filters={filters}
+                        options={filterOptions}
                         onFilterChange={handleFilterChange}
                         onResetFilters={handleResetFilters}
                         maxPrice={maxPrice}
@@ -0,0 +1,60 @@
+'use server';
+
+import { z } from 'zod';
+import { headers } from 'next/headers';
+import { redeemSetupToken } from '@/lib/auth';
+import { passwordSchema } from '@/lib/schemas';
+import { findUserBySetupToken, getUsers } from '@/lib/users';
+import { recordAudit } from '@/lib/audit-log';
+import { clientIp } from '@/lib/client-ip';
+
+// Setting a password from an invitation or reset link. The link's token is the
+// only credential, so these actions need no session.
+
+const setupSchema = z.object({
+  token: z.string().min(1),
+  password: passwordSchema,
+});
+
+// The username a setup link is for, or null when it is unknown, used or expired.
+export async function getPasswordSetup(token: string) {
+  try {
+    const user = findUserBySetupToken(await getUsers(), token);
+    return user ? { username: user.username } : null;
+  } catch (error) {
+    console.error('Error checking setup link:', error);
+    return null;
+  }
+}
+
+export async function completePasswordSetup(data: unknown) {
+  const result = setupSchema.safeParse(data);
+  if (!result.success) {
+    return { success: false, error: result.error.flatten() };
+  }
+
+  try {
+    const redeemed = await redeemSetupToken(result.data.token, result.data.password);
+    if ('error' in redeemed) {
+      const message = redeemed.error === 'contains_username'
+        ? 'Password cannot contain the username'
+        : 'This link has expired or was already used. Ask an owner for a new one.';
+      return { success: false, error: { formErrors: [message] } };
+    }
+    const { user } = redeemed;
+    const headerList = await headers();
+    await recordAudit({
+      actor: user.username,
+      actorId: user.id,
+      ip: clientIp(headerList),
+      userAgent: headerList.get('user-agent') ?? undefined,
+      action: 'user.set_password',
+      summary: 'Set their password from an invitation or reset link',
+      target: { type: 'user', id: user.id, name: user.username },
+    });
+    return { success: true };
+  } catch (error) {
+    console.error('Failed to set password:', error);
+    return { success: false, error: { formErrors: ['Failed to set the password.'] } };
+  }
+}
@@ -0,0 +1,36 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import SetPasswordForm from '@/components/SetPasswordForm';
+import { getPasswordSetup } from './actions';
+
+export const dynamic = 'force-dynamic';
+
+type SetPasswordPageProps = {
+  searchParams: {
+    token?: string;
+  };
+};
+
+export default async function SetPasswordPage({ searchParams }: SetPasswordPageProps) {
+  const token = searchParams.token ?? '';
+  const setup = token ? await getPasswordSetup(token) : null;
+
+  return (
+    <div className="container flex items-center justify-center min-h-[calc(100vh-20rem)] py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader className="text-center space-y-2">
+          <CardTitle className="text-2xl font-headline">Set Your Password</CardTitle>
+          <CardDescription>
+            {setup
+              ? <>Choose a password for <span className="font-medium text-foreground">{setup.username}</span>.</>
+              : 'This link has expired or was already used. Ask an owner of the store for a new one.'}
+          </CardDescription>
+        </CardHeader>
+        {setup && (
+          <CardContent>
+            <SetPasswordForm token={token} username={setup.username} />
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { uploadsDir } from '@/lib/image-storage';
+import { GET } from './route';
+
+function get(...segments: string[]) {
+  return GET(new Request(`http://localhost:9002/uploads/${segments.join('/')}`), { params: Promise.resolve({ path: segments }) });
+}
+
+beforeAll(() => {
+  fs.mkdirSync(uploadsDir, { recursive: true });
+  fs.writeFileSync(path.join(uploadsDir, 'product-1-full.webp'), 'webp bytes');
+  fs.writeFileSync(path.join(uploadsDir, 'notes.html'), '<script>alert(1)</script>');
+  fs.writeFileSync(path.join(uploadsDir, '..', 'users.json'), '[]');
+});
+
+describe('GET /uploads/[...path]', () => {
+  it('serves an uploaded image', async () => {
+    const response = await get('product-1-full.webp');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('image/webp');
+    expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    expect(await response.text()).toBe('webp bytes');
+  });
+
+  it('does not serve files outside the uploads folder', async () => {
+    expect((await get('..', 'users.json')).status).toBe(404);
+    expect((await get('../users.json')).status).toBe(404);
+    expect((await get('..\\users.json')).status).toBe(404);
+    expect((await get(path.join(uploadsDir, '..', 'users.json'))).status).toBe(404);
+  });
+
+  it('does not serve files that are not images, or missing ones', async () => {
+    expect((await get('notes.html')).status).toBe(404);
+    expect((await get('missing.webp')).status).toBe(404);
+    expect((await get('image.webp\0.html')).status).toBe(404);
+  });
+});
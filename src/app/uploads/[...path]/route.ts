@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { resolveUploadPath } from '@/lib/image-storage';
+
+// Serves uploaded images from the uploads folder (UPLOADS_DIR). Only the image
+// types the upload pipeline writes are served; anything else is a 404, as is
+// any path that leads outside the folder.
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.webp': 'image/webp',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.png': 'image/png',
+};
+
+function notFound() {
+  return new Response('Not found', { status: 404 });
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const segments = (await params).path;
+  // Next has already decoded each segment, so a "/" or "\" in one was sent encoded.
+  if (segments.some(segment => segment === '..' || /[\\/]/.test(segment))) return notFound();
+
+  const filePath = resolveUploadPath(segments.join('/'));
+  const contentType = filePath && CONTENT_TYPES[path.extname(filePath).toLowerCase()];
+  if (!filePath || !contentType) return notFound();
+
+  try {
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) return notFound();
+    const data = await fs.readFile(filePath);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.length),
+        // Upload names are never reused, so a file's contents never change.
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+        'Last-Modified': stat.mtime.toUTCString(),
+      },
+    });
+  } catch {
+    return notFound();
+  }
+}
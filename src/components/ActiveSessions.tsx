@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogOut, Monitor } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import type { AdminSession } from '@/lib/sessions';
+import { getSessionsAction, logoutEverywhere, revokeSessionAction } from '@/app/admin/actions';
+
+type SessionRow = AdminSession & { current: boolean };
+
+// "Chrome on Windows" from a user agent string; good enough to tell devices apart.
+function describeDevice(userAgent?: string) {
+  if (!userAgent) return 'Unknown device';
+  const browser = ['Edg', 'OPR', 'Firefox', 'Chrome', 'Safari'].find(name => userAgent.includes(`${name}/`));
+  const os = ['Windows', 'Android', 'iPhone', 'iPad', 'Mac OS', 'Linux'].find(name => userAgent.includes(name));
+  const browserName = browser === 'Edg' ? 'Edge' : browser === 'OPR' ? 'Opera' : browser;
+  return [browserName ?? 'Browser', os && `on ${os === 'Mac OS' ? 'macOS' : os}`].filter(Boolean).join(' ');
+}
+
+export default function ActiveSessions() {
+  const [sessions, setSessions] = useState<SessionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const fetchSessions = async () => {
+    setLoading(true);
+    setSessions(await getSessionsAction());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (id: string) => {
+    const result = await revokeSessionAction(id);
+    if (result.success) {
+      toast({ title: 'Session ended' });
+      fetchSessions();
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleLogoutEverywhere = async () => {
+    const result = await logoutEverywhere();
+    if (result.success) {
+      router.push('/login');
+      router.refresh();
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Active Sessions</CardTitle>
+          <CardDescription>Devices currently signed in to the admin panel.</CardDescription>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline"><LogOut className="mr-2 h-4 w-4" /> Log Out Everywhere</Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Log out everywhere?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Every session ends immediately, including this one. You will need to log in again.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleLogoutEverywhere}>Log Out Everywhere</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          Array.from({ length: 2 }).map((_, i) => <Skeleton key={i} className="h-14 w-full" />)
+        ) : (
+          sessions.map(session => (
+            <div key={session.id} className="flex items-center gap-4 rounded-md border p-3">
+              <Monitor className="h-5 w-5 text-muted-foreground shrink-0" />
+              <div className="flex-grow min-w-0">
+                <p className="font-medium">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                </p>
+                <p className="text-sm text-muted-foreground truncate">
+                  {session.ip ? `${session.ip} · ` : ''}Signed in {new Date(session.createdAt).toLocaleString()} · Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </p>
+              </div>
+              {!session.current && (
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(session.id)}>End</Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,20 +1,35 @@
 'use client';
 
 import { useCart } from '@/context/CartProvider';
-import type { Product } from '@/lib/types';
+import type { Product, VariantSelection } from '@/lib/types';
 import { Button } from './ui/button';
 import { ShoppingCart } from 'lucide-react';
+import { AVAILABILITY_LABELS, availableQuantity, getAvailability } from '@/lib/stock';
+import { cartItemKey, maxLineQuantity } from '@/lib/cart';
 
 interface AddToCartButtonProps {
     product: Product;
+    variant?: VariantSelection;
 }
 
-export default function AddToCartButton({ product }: AddToCartButtonProps) {
-    const { addToCart } = useCart();
+export default function AddToCartButton({ product, variant }: AddToCartButtonProps) {
+    const { addToCart, cartItems } = useCart();
+    const available = availableQuantity(product);
+    const key = cartItemKey({ product, variant });
+    const inCart = cartItems.find(item => cartItemKey(item) === key)?.quantity ?? 0;
+    const soldOutInCart = inCart >= maxLineQuantity({ product, variant }, cartItems);
+
+    if (available === 0) {
+        return (
+            <Button size="lg" disabled>
+                {AVAILABILITY_LABELS[getAvailability(product)]}
+            </Button>
+        );
+    }
 
     return (
-        <Button size="lg" onClick={() => addToCart(product)}>
-            <ShoppingCart className="mr-2 h-5 w-5" /> Add to Cart
+        <Button size="lg" onClick={() => addToCart(product, { variant })} disabled={soldOutInCart}>
+            <ShoppingCart className="mr-2 h-5 w-5" /> {soldOutInCart ? 'All Available Units in Cart' : 'Add to Cart'}
         </Button>
     );
 }
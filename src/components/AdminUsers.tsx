@@ -0,0 +1,255 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { z } from 'zod';
+import { Copy, KeyRound, UserPlus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { useAdminUser } from '@/context/AdminUserProvider';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, type AdminRole } from '@/lib/permissions';
+import { inviteUserSchema } from '@/lib/schemas';
+import type { AdminUserSummary } from '@/lib/users';
+import { getUsersAction, inviteUser, resetUserPassword, setUserDisabled, updateUserRole } from '@/app/admin/actions';
+
+type InviteFormValues = z.infer<typeof inviteUserSchema>;
+
+const roles = Object.keys(ROLE_LABELS) as AdminRole[];
+
+const statusLabels: Record<AdminUserSummary['status'], string> = {
+  active: 'Active',
+  invited: 'Invited',
+  disabled: 'Disabled',
+};
+
+function setupLink(token: string) {
+  return `${window.location.origin}/set-password?token=${encodeURIComponent(token)}`;
+}
+
+export default function AdminUsers() {
+  const [users, setUsers] = useState<AdminUserSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isInviteOpen, setInviteOpen] = useState(false);
+  // The one-time link from the last invite or reset, shown until dismissed.
+  const [link, setLink] = useState<{ username: string; url: string; expiresAt: string } | null>(null);
+  const { toast } = useToast();
+  const { id: currentUserId } = useAdminUser();
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteUserSchema),
+    defaultValues: { username: '', role: 'sales' },
+  });
+
+  const fetchUsers = async () => {
+    setLoading(true);
+    setUsers(await getUsersAction());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const onInvite: SubmitHandler<InviteFormValues> = async (data) => {
+    const result = await inviteUser(data);
+    if (result.success && 'token' in result && result.token) {
+      setInviteOpen(false);
+      form.reset();
+      setLink({ username: data.username, url: setupLink(result.token), expiresAt: result.expiresAt });
+      fetchUsers();
+    } else {
+      const errorMessage = result.error?.formErrors?.join(', ') || 'An unknown error occurred.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  const handleRoleChange = async (user: AdminUserSummary, role: string) => {
+    const result = await updateUserRole(user.id, role);
+    if (result.success) {
+      toast({ title: 'Role updated', description: `${user.username} is now ${ROLE_LABELS[role as AdminRole]}.` });
+      fetchUsers();
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleDisabled = async (user: AdminUserSummary, disabled: boolean) => {
+    const result = await setUserDisabled(user.id, disabled);
+    if (result.success) {
+      toast({ title: disabled ? 'User disabled' : 'User enabled' });
+      fetchUsers();
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleReset = async (user: AdminUserSummary) => {
+    const result = await resetUserPassword(user.id);
+    if (result.success && 'token' in result && result.token) {
+      setLink({ username: user.username, url: setupLink(result.token), expiresAt: result.expiresAt });
+      fetchUsers();
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const copyLink = async () => {
+    if (!link) return;
+    try {
+      await navigator.clipboard.writeText(link.url);
+      toast({ title: 'Link copied' });
+    } catch {
+      toast({ title: 'Could not copy the link', description: 'Select it and copy it by hand.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="space-y-1.5">
+          <CardTitle>Admin Users</CardTitle>
+          <CardDescription>Who can sign in to the admin panel, and what they may do.</CardDescription>
+        </div>
+        <Dialog open={isInviteOpen} onOpenChange={setInviteOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline"><UserPlus className="mr-2 h-4 w-4" /> Invite User</Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Invite User</DialogTitle>
+              <DialogDescription>You will get a link to send them, where they choose their own password.</DialogDescription>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onInvite)} className="space-y-4">
+                <FormField name="username" control={form.control} render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl><Input {...field} /></FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <FormField name="role" control={form.control} render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                      <SelectContent>
+                        {roles.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>{ROLE_DESCRIPTIONS[field.value]}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )} />
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? 'Inviting...' : 'Create Invitation'}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Username</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Last Login</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 2 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={5}><Skeleton className="h-8 w-full" /></TableCell>
+                </TableRow>
+              ))
+            ) : (
+              users.map(user => (
+                <TableRow key={user.id}>
+                  <TableCell className="font-medium">
+                    {user.username}
+                    {user.id === currentUserId && <Badge variant="secondary" className="ml-2">You</Badge>}
+                    {user.twoFactor && <Badge variant="outline" className="ml-2">2FA</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {user.id === currentUserId ? (
+                      ROLE_LABELS[user.role]
+                    ) : (
+                      <Select value={user.role} onValueChange={role => handleRoleChange(user, role)}>
+                        <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {roles.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={user.status === 'disabled' ? 'destructive' : user.status === 'invited' ? 'outline' : 'secondary'}>
+                      {statusLabels[user.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}</TableCell>
+                  <TableCell className="text-right">
+                    {user.id !== currentUserId && (
+                      <>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="sm"><KeyRound className="mr-2 h-4 w-4" /> Reset</Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Reset {user.username}&apos;s password?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Their current password and two-factor login stop working and they are logged out everywhere. You will get a link to send them for choosing a new one.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleReset(user)}>Reset Password</AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                        <Button variant="ghost" size="sm" onClick={() => handleDisabled(user, user.status !== 'disabled')}>
+                          {user.status === 'disabled' ? 'Enable' : 'Disable'}
+                        </Button>
+                      </>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={link !== null} onOpenChange={isOpen => { if (!isOpen) setLink(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Password Link for {link?.username}</DialogTitle>
+            <DialogDescription>
+              Send this link to {link?.username}. It works once, expires on {link && new Date(link.expiresAt).toLocaleString()}, and is not shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={link?.url ?? ''} onFocus={event => event.target.select()} />
+            <Button variant="outline" size="icon" aria-label="Copy link" onClick={copyLink}><Copy className="h-4 w-4" /></Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
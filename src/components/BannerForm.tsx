@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, type FC } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Image from 'next/image';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { HeroBanner } from '@/lib/homepage';
+import { saveHomepageBanner } from '@/app/admin/actions';
+
+const bannerFormSchema = z.object({
+  headline: z.string().trim().min(1, 'Headline is required'),
+  subheadline: z.string(),
+  image: z.string(),
+  ctaLabel: z.string().trim().min(1, 'Button text is required'),
+  ctaHref: z.string().trim().regex(/^(\/|https?:\/\/)/, 'Use a path such as /products or a full https:// link'),
+  enabled: z.boolean(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+});
+
+type BannerFormValues = z.infer<typeof bannerFormSchema>;
+
+// <input type="datetime-local"> works in local time without a zone.
+function toLocalInput(iso?: string) {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+interface BannerFormProps {
+  banner?: HeroBanner;
+  onFinished: () => void;
+}
+
+const BannerForm: FC<BannerFormProps> = ({ banner, onFinished }) => {
+  const { toast } = useToast();
+  const [imagePreview, setImagePreview] = useState(banner?.image ?? '');
+
+  const form = useForm<BannerFormValues>({
+    resolver: zodResolver(bannerFormSchema),
+    defaultValues: {
+      headline: banner?.headline ?? '',
+      subheadline: banner?.subheadline ?? '',
+      image: banner?.image ?? '',
+      ctaLabel: banner?.ctaLabel ?? 'Shop Now',
+      ctaHref: banner?.ctaHref ?? '/products',
+      enabled: banner?.enabled ?? true,
+      startsAt: toLocalInput(banner?.startsAt),
+      endsAt: toLocalInput(banner?.endsAt),
+    },
+  });
+
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setImagePreview(reader.result as string);
+      form.setValue('image', reader.result as string);
+    };
+    reader.onerror = () => toast({ title: "Error reading file", variant: "destructive" });
+    reader.readAsDataURL(file);
+    e.target.value = "";
+  };
+
+  const removeImage = () => {
+    setImagePreview('');
+    form.setValue('image', '');
+  };
+
+  const onSubmit: SubmitHandler<BannerFormValues> = async (data) => {
+    const result = await saveHomepageBanner(banner?.id ?? null, {
+      ...data,
+      // Sent as ISO strings so the server does not have to guess the admin's time zone.
+      startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : undefined,
+      endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : undefined,
+    });
+    if (result.success) {
+      toast({ title: `Banner ${banner ? 'updated' : 'added'}` });
+      onFinished();
+    } else {
+      const fieldErrors = Object.values(result.error && 'fieldErrors' in result.error ? result.error.fieldErrors : {}).flat();
+      const formErrors = [...(result.error?.formErrors ?? []), ...fieldErrors];
+      toast({ title: "Error", description: formErrors.length > 0 ? formErrors.join(', ') : 'An unknown error occurred.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField name="headline" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Headline</FormLabel>
+            <FormControl><Input {...field} placeholder="Find Your *Perfect* Laptop" /></FormControl>
+            <FormDescription>Wrap words in *asterisks* to show them in the accent colour.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="subheadline" control={form.control} render={({ field }) => (
+          <FormItem><FormLabel>Subheadline</FormLabel><FormControl><Textarea {...field} rows={2} /></FormControl><FormMessage /></FormItem>
+        )} />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField name="ctaLabel" control={form.control} render={({ field }) => (
+            <FormItem><FormLabel>Button Text</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+          )} />
+          <FormField name="ctaHref" control={form.control} render={({ field }) => (
+            <FormItem><FormLabel>Button Link</FormLabel><FormControl><Input {...field} placeholder="/products?brand=dell" /></FormControl><FormMessage /></FormItem>
+          )} />
+          <FormField name="startsAt" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Show From</FormLabel>
+              <FormControl><Input type="datetime-local" {...field} /></FormControl>
+              <FormDescription>Leave empty to show right away.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="endsAt" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Show Until</FormLabel>
+              <FormControl><Input type="datetime-local" {...field} /></FormControl>
+              <FormDescription>Leave empty to keep it up.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )} />
+        </div>
+        <FormItem>
+          <FormLabel>Background Image</FormLabel>
+          <FormControl>
+            <Input type="file" accept="image/jpeg,image/png,image/jpg,image/webp" onChange={handleImageChange} />
+          </FormControl>
+          <FormDescription>Optional. Without an image the banner is shown as centred text.</FormDescription>
+          {imagePreview && (
+            <div className="relative group mt-2 aspect-[3/1] w-full overflow-hidden rounded-md border">
+              <Image src={imagePreview} alt="Banner preview" fill className="object-cover" />
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                onClick={removeImage}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </FormItem>
+        <FormField name="enabled" control={form.control} render={({ field }) => (
+          <FormItem className="flex flex-row items-center justify-between rounded-md border p-4">
+            <FormLabel>Enabled</FormLabel>
+            <FormControl><Switch checked={field.value} onCheckedChange={field.onChange} /></FormControl>
+          </FormItem>
+        )} />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : (banner ? 'Update Banner' : 'Add Banner')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default BannerForm;
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, type FC } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Image from 'next/image';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import type { Brand } from '@/lib/types';
+import { saveBrand } from '@/app/admin/actions';
+
+const brandFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  slug: z.string().trim().regex(/^([a-z0-9]+(?:-[a-z0-9]+)*)?$/, 'Use lowercase letters, numbers and dashes'),
+  logo: z.string(),
+  sortOrder: z.coerce.number().int('Sort order must be a whole number'),
+});
+
+type BrandFormValues = z.infer<typeof brandFormSchema>;
+
+interface BrandFormProps {
+  brand?: Brand;
+  nextSortOrder: number;
+  onFinished: () => void;
+}
+
+const BrandForm: FC<BrandFormProps> = ({ brand, nextSortOrder, onFinished }) => {
+  const { toast } = useToast();
+  const [logoPreview, setLogoPreview] = useState(brand?.logo ?? '');
+
+  const form = useForm<BrandFormValues>({
+    resolver: zodResolver(brandFormSchema),
+    defaultValues: {
+      name: brand?.name ?? '',
+      slug: brand?.slug ?? '',
+      logo: brand?.logo ?? '',
+      sortOrder: brand?.sortOrder ?? nextSortOrder,
+    },
+  });
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setLogoPreview(reader.result as string);
+      form.setValue('logo', reader.result as string);
+    };
+    reader.onerror = () => toast({ title: "Error reading file", variant: "destructive" });
+    reader.readAsDataURL(file);
+    e.target.value = "";
+  };
+
+  const removeLogo = () => {
+    setLogoPreview('');
+    form.setValue('logo', '');
+  };
+
+  const onSubmit: SubmitHandler<BrandFormValues> = async (data) => {
+    const result = await saveBrand(brand?.id ?? null, data);
+    if (result.success) {
+      toast({ title: `Brand ${brand ? 'updated' : 'added'}` });
+      onFinished();
+    } else {
+      const formErrors = result.error?.formErrors ?? [];
+      toast({ title: "Error", description: formErrors.length > 0 ? formErrors.join(', ') : 'An unknown error occurred.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField name="name" control={form.control} render={({ field }) => (
+          <FormItem><FormLabel>Name</FormLabel><FormControl><Input {...field} placeholder="e.g. Lenovo" /></FormControl><FormMessage /></FormItem>
+        )} />
+        <FormField name="slug" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Slug</FormLabel>
+            <FormControl><Input {...field} placeholder="Generated from the name" /></FormControl>
+            <FormDescription>Used in links such as /products?brand=lenovo.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="sortOrder" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sort Order</FormLabel>
+            <FormControl><Input type="number" {...field} /></FormControl>
+            <FormDescription>Lower numbers come first.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormItem>
+          <FormLabel>Logo</FormLabel>
+          <FormControl>
+            <Input type="file" accept="image/jpeg,image/png,image/jpg,image/webp" onChange={handleLogoChange} />
+          </FormControl>
+          {logoPreview && (
+            <div className="relative group mt-2 h-16 w-32 rounded-md border bg-white">
+              <Image src={logoPreview} alt="Logo preview" fill className="object-contain p-2" />
+              <Button
+                type="button"
+                variant="destructive"
+                size="icon"
+                className="absolute -top-2 -right-2 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                onClick={removeLogo}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </FormItem>
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : (brand ? 'Update Brand' : 'Add Brand')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default BrandForm;
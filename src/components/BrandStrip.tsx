@@ -0,0 +1,30 @@
+import Image from 'next/image';
+import Link from 'next/link';
+import type { Brand } from '@/lib/types';
+
+interface BrandStripProps {
+  brands: Brand[];
+}
+
+// Logos (or names, for brands without one) linking to the filtered catalog.
+export default function BrandStrip({ brands }: BrandStripProps) {
+  return (
+    <div className="flex flex-wrap justify-center gap-4 md:gap-6">
+      {brands.map(brand => (
+        <Link
+          key={brand.id}
+          href={`/products?brand=${brand.slug}`}
+          className="flex h-20 w-36 items-center justify-center rounded-lg border bg-card p-4 transition-all hover:shadow-md hover:-translate-y-0.5"
+        >
+          {brand.logo ? (
+            <div className="relative h-full w-full">
+              <Image src={brand.logo} alt={brand.name} fill className="object-contain" sizes="144px" />
+            </div>
+          ) : (
+            <span className="font-headline text-lg font-semibold">{brand.name}</span>
+          )}
+        </Link>
+      ))}
+    </div>
+  );
+}
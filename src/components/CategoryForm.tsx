@@ -0,0 +1,116 @@
+'use client';
+
+import type { FC } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { Category } from '@/lib/types';
+import { descendantIds } from '@/lib/categories';
+import { saveCategory } from '@/app/admin/actions';
+
+const categoryFormSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  slug: z.string().trim().regex(/^([a-z0-9]+(?:-[a-z0-9]+)*)?$/, 'Use lowercase letters, numbers and dashes'),
+  parentId: z.string(),
+  description: z.string(),
+  sortOrder: z.coerce.number().int('Sort order must be a whole number'),
+});
+
+type CategoryFormValues = z.infer<typeof categoryFormSchema>;
+
+interface CategoryFormProps {
+  category?: Category;
+  // Every category, in tree order.
+  categories: (Category & { depth: number })[];
+  nextSortOrder: number;
+  onFinished: () => void;
+}
+
+const CategoryForm: FC<CategoryFormProps> = ({ category, categories, nextSortOrder, onFinished }) => {
+  const { toast } = useToast();
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: {
+      name: category?.name ?? '',
+      slug: category?.slug ?? '',
+      parentId: category?.parentId ?? '',
+      description: category?.description ?? '',
+      sortOrder: category?.sortOrder ?? nextSortOrder,
+    },
+  });
+
+  // A category cannot move under itself or anything below it.
+  const excluded = category ? descendantIds(categories, category.id) : [];
+  const parents = categories.filter(other => !excluded.includes(other.id));
+
+  const onSubmit: SubmitHandler<CategoryFormValues> = async (data) => {
+    const result = await saveCategory(category?.id ?? null, data);
+    if (result.success) {
+      toast({ title: `Category ${category ? 'updated' : 'added'}` });
+      onFinished();
+    } else {
+      const formErrors = result.error?.formErrors ?? [];
+      toast({ title: "Error", description: formErrors.length > 0 ? formErrors.join(', ') : 'An unknown error occurred.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField name="name" control={form.control} render={({ field }) => (
+          <FormItem><FormLabel>Name</FormLabel><FormControl><Input {...field} placeholder="e.g. Gaming" /></FormControl><FormMessage /></FormItem>
+        )} />
+        <FormField name="slug" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Slug</FormLabel>
+            <FormControl><Input {...field} placeholder="Generated from the name" /></FormControl>
+            <FormDescription>The category page lives at /category/&lt;slug&gt;.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="parentId" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Parent</FormLabel>
+            <Select onValueChange={value => field.onChange(value === 'none' ? '' : value)} defaultValue={field.value || 'none'}>
+              <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+              <SelectContent>
+                <SelectItem value="none">None (top level)</SelectItem>
+                {parents.map(parent => (
+                  <SelectItem key={parent.id} value={parent.id}>{'\u00a0\u00a0'.repeat(parent.depth)}{parent.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="description" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Description</FormLabel>
+            <FormControl><Textarea {...field} rows={3} placeholder="Shown under the title on the category page" /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="sortOrder" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Sort Order</FormLabel>
+            <FormControl><Input type="number" {...field} /></FormControl>
+            <FormDescription>Lower numbers come first among categories with the same parent.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : (category ? 'Update Category' : 'Add Category')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default CategoryForm;
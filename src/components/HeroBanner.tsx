@@ -0,0 +1,48 @@
+import Link from 'next/link';
+import { ArrowRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ProductImage from '@/components/ProductImage';
+import { headlineParts, type HeroBanner as HeroBannerData } from '@/lib/homepage';
+import { cn } from '@/lib/utils';
+
+interface HeroBannerProps {
+  banner: HeroBannerData;
+  priority?: boolean;
+}
+
+// A banner with an image puts its text over the picture; without one it is the
+// plain centred hero the site started with.
+export default function HeroBanner({ banner, priority }: HeroBannerProps) {
+  const hasImage = !!banner.image;
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-xl', hasImage && 'min-h-[22rem] md:min-h-[28rem] flex items-center')}>
+      {banner.image && (
+        <>
+          <ProductImage product={banner} src={banner.image} alt="" size="full" sizes="100vw" priority={priority} />
+          <div className="absolute inset-0 bg-gradient-to-r from-background/90 via-background/70 to-background/20" />
+        </>
+      )}
+      <div className={cn('relative py-16 md:py-24', hasImage ? 'px-8 md:px-16 max-w-2xl' : 'text-center')}>
+        <h1 className="text-4xl md:text-5xl lg:text-6xl font-extrabold font-headline tracking-tight">
+          {headlineParts(banner.headline).map((part, index) =>
+            part.highlight ? <span key={index} className="text-primary">{part.text}</span> : part.text
+          )}
+        </h1>
+        {banner.subheadline && (
+          <p className={cn('text-lg md:text-xl text-muted-foreground mt-6', !hasImage && 'max-w-2xl mx-auto')}>
+            {banner.subheadline}
+          </p>
+        )}
+        <div className={cn('flex gap-4 mt-8', !hasImage && 'justify-center')}>
+          <Button asChild size="lg" className="font-bold">
+            <Link href={banner.ctaHref}>{banner.ctaLabel} <ArrowRight className="ml-2 h-5 w-5" /></Link>
+          </Button>
+          <Button asChild size="lg" variant="outline">
+            <Link href="/about">About Us</Link>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState, type FC } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { SECTION_TYPE_LABELS, type HomepageSection, type HomepageSectionType } from '@/lib/homepage';
+import type { Product } from '@/lib/types';
+import { saveHomepageSections } from '@/app/admin/actions';
+
+interface HomepageSectionsEditorProps {
+  sections: HomepageSection[];
+  products: Product[];
+  onSaved: () => void;
+}
+
+// Sections are edited locally and saved together, so reordering several of
+// them is a single change.
+const HomepageSectionsEditor: FC<HomepageSectionsEditorProps> = ({ sections: saved, products, onSaved }) => {
+  const { toast } = useToast();
+  const [sections, setSections] = useState(saved);
+  const [newType, setNewType] = useState<HomepageSectionType>('price-band');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setSections(saved);
+  }, [saved]);
+
+  const update = (index: number, changes: Partial<HomepageSection>) => {
+    setSections(current => current.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const move = (index: number, offset: number) => {
+    setSections(current => {
+      const next = [...current];
+      const [section] = next.splice(index, 1);
+      next.splice(index + offset, 0, section);
+      return next;
+    });
+  };
+
+  const add = () => {
+    setSections(current => [
+      ...current,
+      { id: '', type: newType, title: SECTION_TYPE_LABELS[newType], enabled: true, limit: newType === 'brands' ? 8 : 6 },
+    ]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await saveHomepageSections(sections);
+    setSaving(false);
+    if (result.success) {
+      toast({ title: 'Home page sections saved' });
+      onSaved();
+    } else {
+      toast({ title: 'Error saving sections', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const numberValue = (value: string) => (value === '' ? undefined : Number(value));
+
+  return (
+    <div className="space-y-4">
+      {sections.map((section, index) => (
+        <Card key={section.id || `new-${index}`} className={section.enabled ? '' : 'opacity-60'}>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-muted-foreground w-40 shrink-0">{SECTION_TYPE_LABELS[section.type]}</span>
+              <Input value={section.title} onChange={e => update(index, { title: e.target.value })} aria-label="Title" />
+              <Switch checked={section.enabled} onCheckedChange={enabled => update(index, { enabled })} aria-label="Show on home page" />
+              <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up"><ArrowUp className="h-4 w-4" /></Button>
+              <Button variant="ghost" size="icon" disabled={index === sections.length - 1} onClick={() => move(index, 1)} aria-label="Move down"><ArrowDown className="h-4 w-4" /></Button>
+              <Button variant="ghost" size="icon" onClick={() => setSections(current => current.filter((_, i) => i !== index))} aria-label="Remove section">
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1 md:col-span-2">
+                <Label>Subtitle</Label>
+                <Input value={section.subtitle ?? ''} onChange={e => update(index, { subtitle: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Show at most</Label>
+                <Input type="number" min={1} value={section.limit ?? ''} placeholder="All" onChange={e => update(index, { limit: numberValue(e.target.value) })} />
+              </div>
+            </div>
+            {section.type === 'price-band' && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <Label>Min price (PKR)</Label>
+                  <Input type="number" min={0} value={section.minPrice ?? ''} onChange={e => update(index, { minPrice: numberValue(e.target.value) })} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Max price (PKR)</Label>
+                  <Input type="number" min={0} value={section.maxPrice ?? ''} onChange={e => update(index, { maxPrice: numberValue(e.target.value) })} />
+                </div>
+              </div>
+            )}
+            {section.type === 'product-list' && (
+              <div className="space-y-1">
+                <Label>Products, in the order picked ({section.productIds?.length ?? 0} selected)</Label>
+                <ScrollArea className="h-40 rounded-md border p-2">
+                  {products.map(product => {
+                    const selected = section.productIds ?? [];
+                    return (
+                      <div key={product.id} className="flex items-center space-x-2 py-1">
+                        <Checkbox
+                          id={`${section.id || index}-${product.id}`}
+                          checked={selected.includes(product.id)}
+                          onCheckedChange={checked => update(index, {
+                            productIds: checked ? [...selected, product.id] : selected.filter(id => id !== product.id),
+                          })}
+                        />
+                        <Label htmlFor={`${section.id || index}-${product.id}`} className="font-normal cursor-pointer">{product.name}</Label>
+                      </div>
+                    );
+                  })}
+                </ScrollArea>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Select value={newType} onValueChange={value => setNewType(value as HomepageSectionType)}>
+            <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(SECTION_TYPE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={add}><Plus className="mr-2 h-4 w-4" /> Add Section</Button>
+        </div>
+        <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save Sections'}</Button>
+      </div>
+    </div>
+  );
+};
+
+export default HomepageSectionsEditor;
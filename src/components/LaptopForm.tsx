@@ -1,21 +1,25 @@
 'use client';
 
-import { useState, type FC } from 'react';
-import { useForm, type SubmitHandler } from 'react-hook-form';
+import { useEffect, useState, type FC } from 'react';
+import { useFieldArray, useForm, type SubmitHandler } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
-import type { Product } from '@/lib/types';
-import { addProduct, updateProduct } from '@/app/admin/actions';
-import { Trash2 } from 'lucide-react';
+import type { Brand, Category, Product } from '@/lib/types';
+import { addProduct, getBrandsAction, getCategoriesAction, getTagsAction, updateProduct } from '@/app/admin/actions';
+import TagInput from '@/components/TagInput';
+import Link from 'next/link';
+import { Plus, Trash2 } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { AVAILABILITY_LABELS, inventoryFields } from '@/lib/stock';
+import { VARIANT_KIND_LABELS } from '@/lib/variants';
 
 const productSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -31,6 +35,17 @@ const productSchema = z.object({
     battery: z.string().min(1, 'Battery info is required'),
   }),
   description: z.string().min(1, 'Description is required'),
+  stock: z.coerce.number().int('Stock must be a whole number').min(0, 'Stock cannot be negative'),
+  availability: z.enum(['in_stock', 'reserved', 'sold']),
+  variants: z.array(z.object({
+    id: z.string().optional(),
+    kind: z.enum(['ram', 'storage', 'colour']),
+    label: z.string().trim().min(1, 'Label is required'),
+    priceDelta: z.coerce.number().int('Whole rupees only'),
+    stock: z.coerce.number().int('Whole number').min(0, 'Cannot be negative'),
+  })).default([]),
+  categoryId: z.string().default(''),
+  tags: z.array(z.string()).max(20, 'A product can have at most 20 tags').default([]),
   featured: z.boolean().default(false),
   newArrival: z.boolean().default(false),
 });
@@ -45,10 +60,23 @@ interface LaptopFormProps {
 const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
   const { toast } = useToast();
   const [imagePreview, setImagePreview] = useState<string[]>(product?.images ?? []);
+  const [brands, setBrands] = useState<Brand[]>([]);
+  const [categories, setCategories] = useState<(Category & { depth: number })[]>([]);
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+
+  useEffect(() => {
+    getBrandsAction().then(setBrands);
+    getCategoriesAction().then(setCategories);
+    getTagsAction().then(tags => setKnownTags(tags.map(({ tag }) => tag)));
+  }, []);
   
+  // The stock as it was when the form opened, so the server can tell which
+  // stock fields were edited here and which were changed by someone else.
+  const [loadedInventory] = useState(() => (product ? inventoryFields(product) : undefined));
+
   const form = useForm<ProductFormValues>({
     resolver: zodResolver(productSchema),
-    defaultValues: product ?? {
+    defaultValues: product ? { ...product, variants: product.variants ?? [], categoryId: product.categoryId ?? '', tags: product.tags ?? [] } : {
       name: '',
       brand: '',
       price: NaN, // Use NaN for an empty number field
@@ -56,11 +84,19 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
       images: [],
       specs: { processor: '', ram: '', storage: '', display: '', battery: '' },
       description: '',
+      stock: 1,
+      availability: 'in_stock',
+      variants: [],
+      categoryId: '',
+      tags: [],
       featured: false,
       newArrival: false,
     },
   });
 
+  // keyName: options carry their own `id`, which the default key would shadow.
+  const variants = useFieldArray({ control: form.control, name: 'variants', keyName: 'key' });
+
   const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
@@ -108,7 +144,7 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
   };
 
   const onSubmit: SubmitHandler<ProductFormValues> = async (data) => {
-    const result = product ? await updateProduct(product.id, data) : await addProduct(data);
+    const result = product ? await updateProduct(product.id, data, loadedInventory) : await addProduct(data);
     if (result.success) {
       toast({ title: `Product ${product ? 'updated' : 'added'} successfully` });
       onFinished();
@@ -135,7 +171,16 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
           <FormField name="brand" control={form.control} render={({ field }) => (
             <FormItem>
               <FormLabel>Brand</FormLabel>
-              <FormControl><Input {...field} placeholder="e.g. Apple" /></FormControl>
+              {/* Keyed on the list so the saved value shows once the brands have loaded. */}
+              <Select key={brands.length} onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                <FormControl><SelectTrigger><SelectValue placeholder="Select a brand" /></SelectTrigger></FormControl>
+                <SelectContent>
+                  {brands.map(brand => <SelectItem key={brand.id} value={brand.name}>{brand.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Missing one? Add it on the <Link href="/admin/brands" className="underline">Brands</Link> page.
+              </FormDescription>
               <FormMessage />
             </FormItem>
           )} />
@@ -167,6 +212,69 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
               <FormMessage />
             </FormItem>
           )} />
+          <FormField name="stock" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Stock Quantity</FormLabel>
+              <FormControl>
+                <Input
+                    type="number"
+                    min={0}
+                    step={1}
+                    // Listings with individual units count their available units instead.
+                    disabled={!!product?.units?.length}
+                    {...field}
+                    value={isNaN(field.value) ? '' : field.value}
+                    onChange={e => field.onChange(e.target.valueAsNumber)}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="availability" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Availability</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  {Object.entries(AVAILABILITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="categoryId" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Category</FormLabel>
+              {/* Select items cannot have an empty value, so "none" stands in for uncategorised. */}
+              <Select key={categories.length} onValueChange={value => field.onChange(value === 'none' ? '' : value)} defaultValue={field.value || 'none'}>
+                <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  <SelectItem value="none">Uncategorised</SelectItem>
+                  {categories.map(category => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {'\u00a0\u00a0'.repeat(category.depth)}{category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Manage the list on the <Link href="/admin/categories" className="underline">Categories</Link> page.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="tags" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <TagInput value={field.value} onChange={field.onChange} suggestions={knownTags} placeholder="e.g. backlit keyboard" />
+              </FormControl>
+              <FormDescription>Press Enter or type a comma after each tag.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )} />
         </div>
         <Card>
             <CardHeader><CardTitle className="text-lg">Specifications</CardTitle></CardHeader>
@@ -188,6 +296,53 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
                 )} />
             </CardContent>
         </Card>
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg">Configuration Options</CardTitle>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => variants.append({ kind: 'ram', label: '', priceDelta: 0, stock: 1 })}
+                >
+                    <Plus className="mr-2 h-4 w-4" /> Add Option
+                </Button>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {variants.fields.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                        No options. Add RAM, storage or colour choices with the price difference from the base listing; include the base configuration at +0.
+                    </p>
+                )}
+                {variants.fields.map((option, index) => (
+                    <div key={option.key} className="grid grid-cols-2 md:grid-cols-[8rem_1fr_9rem_6rem_auto] gap-3 items-start">
+                        <FormField name={`variants.${index}.kind`} control={form.control} render={({ field }) => (
+                            <FormItem>
+                                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                                    <FormControl><SelectTrigger aria-label="Option type"><SelectValue /></SelectTrigger></FormControl>
+                                    <SelectContent>
+                                        {Object.entries(VARIANT_KIND_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        <FormField name={`variants.${index}.label`} control={form.control} render={({ field }) => (
+                            <FormItem><FormControl><Input {...field} placeholder="e.g. 16GB RAM" /></FormControl><FormMessage /></FormItem>
+                        )} />
+                        <FormField name={`variants.${index}.priceDelta`} control={form.control} render={({ field }) => (
+                            <FormItem><FormControl><Input type="number" {...field} aria-label="Price difference (PKR)" placeholder="+ PKR" /></FormControl><FormMessage /></FormItem>
+                        )} />
+                        <FormField name={`variants.${index}.stock`} control={form.control} render={({ field }) => (
+                            <FormItem><FormControl><Input type="number" min={0} {...field} aria-label="Stock" placeholder="Stock" /></FormControl><FormMessage /></FormItem>
+                        )} />
+                        <Button type="button" variant="ghost" size="icon" onClick={() => variants.remove(index)} aria-label="Remove option">
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
         <FormField name="description" control={form.control} render={({ field }) => (
             <FormItem><FormLabel>Description</FormLabel><FormControl><Textarea {...field} rows={4} /></FormControl><FormMessage /></FormItem>
         )} />
@@ -196,7 +351,7 @@ const LaptopForm: FC<LaptopFormProps> = ({ product, onFinished }) => {
           <FormControl>
             <Input 
                 type="file" 
-                accept="image/jpeg,image/png,image/jpg" 
+                accept="image/jpeg,image/png,image/jpg,image/webp" 
                 multiple 
                 onChange={handleImageChange}
                 disabled={imagePreview.length >= 5}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Separator } from '@/components/ui/separator';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { Order, OrderStatus } from '@/lib/types';
+import { ORDER_STATUS_LABELS, ORDER_TRANSITIONS } from '@/lib/orders';
+import { updateOrderStatus } from '@/app/admin/actions';
+
+type OrderDetailsProps = {
+  order: Order;
+  onChanged: () => void;
+};
+
+// What a move does besides changing the status, shown before it is made.
+const transitionHints: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'Confirming takes the items out of stock.',
+  cancelled: 'Cancelling a confirmed order puts its items back in stock.',
+  returned: 'Stock is not changed; list returned machines again once they have been checked.',
+};
+
+export default function OrderDetails({ order, onChanged }: OrderDetailsProps) {
+  const next = ORDER_TRANSITIONS[order.status];
+  const [status, setStatus] = useState<OrderStatus | ''>(next[0] ?? '');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async () => {
+    if (!status) return;
+    setSaving(true);
+    const result = await updateOrderStatus(order.id, { status, note });
+    setSaving(false);
+    if (result.success) {
+      toast({ title: `Order ${order.reference} marked ${ORDER_STATUS_LABELS[status].toLowerCase()}` });
+      setNote('');
+      onChanged();
+    } else {
+      const errorMessage = result.error?.formErrors?.join(' ') || 'An unknown error occurred.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground mb-1">Customer</h3>
+          <p className="font-medium">{order.customer.name}</p>
+          <p><a href={`tel:${order.customer.phone}`} className="underline">{order.customer.phone}</a></p>
+          <p className="whitespace-pre-line">{order.customer.address}</p>
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground mb-1">Order</h3>
+          <p>Placed {new Date(order.createdAt).toLocaleString()}</p>
+          <p>Status <Badge variant="outline">{ORDER_STATUS_LABELS[order.status]}</Badge></p>
+          {order.stockDeducted && <p className="text-sm text-muted-foreground">Items are taken out of stock.</p>}
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Price</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.items.map((item, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <p className="font-medium">{item.name}</p>
+                {item.configuration && <p className="text-sm text-muted-foreground">{item.configuration}</p>}
+              </TableCell>
+              <TableCell className="text-right">{item.quantity}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">PKR {item.unitPrice.toLocaleString()}</TableCell>
+              <TableCell className="text-right whitespace-nowrap">PKR {item.lineTotal.toLocaleString()}</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell colSpan={3} className="text-right font-medium">Total</TableCell>
+            <TableCell className="text-right font-bold whitespace-nowrap">PKR {order.total.toLocaleString()}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div>
+        <h3 className="text-sm font-medium text-muted-foreground mb-2">History</h3>
+        <ol className="space-y-2">
+          {order.history.map((change, index) => (
+            <li key={index} className="rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="secondary">{ORDER_STATUS_LABELS[change.status]}</Badge>
+                <span>{new Date(change.at).toLocaleString()}</span>
+                <span className="text-muted-foreground">{change.actor ? `by ${change.actor}` : 'at checkout'}</span>
+              </div>
+              {change.note && <p className="mt-2 whitespace-pre-line">{change.note}</p>}
+            </li>
+          ))}
+        </ol>
+      </div>
+
+      {next.length > 0 && (
+        <>
+          <Separator />
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Move to</Label>
+              <Select value={status} onValueChange={value => setStatus(value as OrderStatus)}>
+                <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {next.map(option => <SelectItem key={option} value={option}>{ORDER_STATUS_LABELS[option]}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {status && transitionHints[status] && <p className="text-sm text-muted-foreground">{transitionHints[status]}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="order-note">Internal note</Label>
+              <Textarea id="order-note" value={note} onChange={(e) => setNote(e.target.value)} maxLength={1000} placeholder="Courier, tracking number, reason for cancelling..." />
+            </div>
+            <Button onClick={handleSubmit} disabled={!status || saving}>
+              {saving ? 'Saving...' : 'Update Status'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
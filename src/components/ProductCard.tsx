@@ -1,10 +1,11 @@
 import Link from 'next/link';
-import Image from 'next/image';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import type { Product } from '@/lib/types';
 import { ArrowRight } from 'lucide-react';
+import ProductImage from '@/components/ProductImage';
+import StockBadge from '@/components/StockBadge';
 
 interface ProductCardProps {
   product: Product;
@@ -16,11 +17,11 @@ export default function ProductCard({ product }: ProductCardProps) {
       <CardHeader className="p-0">
         <Link href={`/products/${product.id}`}>
           <div className="relative aspect-[4/3] w-full">
-            <Image
+            <ProductImage
+              product={product}
               src={product.images[0]}
               alt={product.name}
-              fill
-              className="object-cover"
+              size="card"
               sizes="(max-width: 768px) 100vw, (max-width: 1200px) 50vw, 33vw"
             />
           </div>
@@ -33,9 +34,12 @@ export default function ProductCard({ product }: ProductCardProps) {
                     {product.name}
                 </CardTitle>
             </Link>
-            <Badge variant={product.condition === 'New' ? 'default' : 'secondary'} className="bg-primary/10 text-primary border-primary/20 shrink-0">
-                {product.condition}
-            </Badge>
+            <div className="flex flex-col items-end gap-1">
+                <Badge variant={product.condition === 'New' ? 'default' : 'secondary'} className="bg-primary/10 text-primary border-primary/20 shrink-0">
+                    {product.condition}
+                </Badge>
+                <StockBadge product={product} />
+            </div>
         </div>
         <p className="font-body text-muted-foreground text-sm line-clamp-2">
           {product.specs.processor} • {product.specs.ram} RAM • {product.specs.storage}
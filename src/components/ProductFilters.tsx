@@ -9,11 +9,25 @@ import { Input } from "./ui/input";
 
 interface ProductFiltersProps {
     filters: {
-        brand: string;
+        brands: string[];
+        categories: string[];
+        tags: string[];
         priceRange: [number, number];
         conditions: string[];
         processor: string;
-        ram: string;
+        cpuFamilies: string[];
+        ramGb: number[];
+        storageTypes: string[];
+    };
+    // Values present in the catalog, from the structured specs.
+    options: {
+        brands: string[];
+        // In tree order, with each category's nesting depth.
+        categories: { id: string; name: string; depth: number }[];
+        tags: string[];
+        cpuFamilies: string[];
+        ramGb: number[];
+        storageTypes: string[];
     };
     onFilterChange: (filterType: string, value: any) => void;
     onResetFilters: () => void;
@@ -22,8 +36,40 @@ interface ProductFiltersProps {
 
 const conditionOptions = ['New', 'Used', 'Refurbished'];
 
+function toggle<T>(values: T[], value: T): T[] {
+    return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+function CheckboxList<T extends string | number>({ id, options, selected, label, indent, onChange }: {
+    id: string;
+    options: T[];
+    selected: T[];
+    label: (value: T) => string;
+    // Nesting level, for hierarchical options.
+    indent?: (value: T) => number;
+    onChange: (values: T[]) => void;
+}) {
+    if (options.length === 0) {
+        return <p className="text-sm text-muted-foreground">No options yet.</p>;
+    }
+    return (
+        <>
+            {options.map(option => (
+                <div key={option} className="flex items-center space-x-2" style={indent ? { paddingLeft: `${indent(option) * 1.25}rem` } : undefined}>
+                    <Checkbox
+                        id={`${id}-${option}`}
+                        checked={selected.includes(option)}
+                        onCheckedChange={() => onChange(toggle(selected, option))}
+                    />
+                    <Label htmlFor={`${id}-${option}`} className="font-normal cursor-pointer">{label(option)}</Label>
+                </div>
+            ))}
+        </>
+    );
+}
+
 
-export function ProductFilters({ filters, onFilterChange, onResetFilters, maxPrice }: ProductFiltersProps) {
+export function ProductFilters({ filters, options, onFilterChange, onResetFilters, maxPrice }: ProductFiltersProps) {
     
     const handleConditionChange = (condition: string) => {
         const newConditions = filters.conditions.includes(condition)
@@ -38,7 +84,7 @@ export function ProductFilters({ filters, onFilterChange, onResetFilters, maxPri
                 <h3 className="text-xl font-headline font-semibold">Filters</h3>
                 <Button variant="ghost" size="sm" onClick={onResetFilters}>Reset</Button>
             </div>
-            <Accordion type="multiple" defaultValue={['price', 'brand', 'condition', 'processor', 'ram']} className="w-full">
+            <Accordion type="multiple" defaultValue={['price', 'category', 'brand', 'condition', 'processor', 'ram', 'storage', 'tags']} className="w-full">
                 <AccordionItem value="price">
                     <AccordionTrigger className="font-semibold">Price</AccordionTrigger>
                     <AccordionContent className="px-1">
@@ -56,14 +102,29 @@ export function ProductFilters({ filters, onFilterChange, onResetFilters, maxPri
                         </div>
                     </AccordionContent>
                 </AccordionItem>
+                <AccordionItem value="category">
+                    <AccordionTrigger className="font-semibold">Category</AccordionTrigger>
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="category"
+                            options={options.categories.map(category => category.id)}
+                            selected={filters.categories}
+                            label={id => options.categories.find(category => category.id === id)?.name ?? id}
+                            indent={id => options.categories.find(category => category.id === id)?.depth ?? 0}
+                            onChange={values => onFilterChange('categories', values)}
+                        />
+                    </AccordionContent>
+                </AccordionItem>
                 <AccordionItem value="brand">
                     <AccordionTrigger className="font-semibold">Brand</AccordionTrigger>
-                    <AccordionContent className="px-1">
-                       <Input
-                            placeholder="e.g. Dell"
-                            value={filters.brand}
-                            onChange={(e) => onFilterChange('brand', e.target.value)}
-                       />
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="brand"
+                            options={options.brands}
+                            selected={filters.brands}
+                            label={brand => brand}
+                            onChange={values => onFilterChange('brands', values)}
+                        />
                     </AccordionContent>
                 </AccordionItem>
                 <AccordionItem value="condition">
@@ -83,9 +144,16 @@ export function ProductFilters({ filters, onFilterChange, onResetFilters, maxPri
                 </AccordionItem>
                  <AccordionItem value="processor">
                     <AccordionTrigger className="font-semibold">Processor</AccordionTrigger>
-                    <AccordionContent className="px-1">
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="cpu"
+                            options={options.cpuFamilies}
+                            selected={filters.cpuFamilies}
+                            label={family => family}
+                            onChange={values => onFilterChange('cpuFamilies', values)}
+                        />
                        <Input
-                            placeholder="e.g. Core i7"
+                            placeholder="e.g. 8th gen"
                             value={filters.processor}
                             onChange={(e) => onFilterChange('processor', e.target.value)}
                        />
@@ -93,11 +161,37 @@ export function ProductFilters({ filters, onFilterChange, onResetFilters, maxPri
                 </AccordionItem>
                  <AccordionItem value="ram">
                     <AccordionTrigger className="font-semibold">RAM</AccordionTrigger>
-                    <AccordionContent className="px-1">
-                        <Input
-                            placeholder="e.g. 16GB"
-                            value={filters.ram}
-                            onChange={(e) => onFilterChange('ram', e.target.value)}
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="ram"
+                            options={options.ramGb}
+                            selected={filters.ramGb}
+                            label={gb => `${gb} GB`}
+                            onChange={values => onFilterChange('ramGb', values)}
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+                 <AccordionItem value="storage">
+                    <AccordionTrigger className="font-semibold">Storage</AccordionTrigger>
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="storage"
+                            options={options.storageTypes}
+                            selected={filters.storageTypes}
+                            label={type => type}
+                            onChange={values => onFilterChange('storageTypes', values)}
+                        />
+                    </AccordionContent>
+                </AccordionItem>
+                 <AccordionItem value="tags">
+                    <AccordionTrigger className="font-semibold">Tags</AccordionTrigger>
+                    <AccordionContent className="space-y-2 px-1">
+                        <CheckboxList
+                            id="tag"
+                            options={options.tags}
+                            selected={filters.tags}
+                            label={tag => tag}
+                            onChange={values => onFilterChange('tags', values)}
                         />
                     </AccordionContent>
                 </AccordionItem>
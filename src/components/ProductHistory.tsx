@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useState, type FC } from 'react';
+import Image from 'next/image';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { ProductRevision } from '@/lib/revisions';
+import { getProductRevisionsAction, restoreProductRevision } from '@/app/admin/actions';
+import { useAdminUser } from '@/context/AdminUserProvider';
+import { RotateCcw } from 'lucide-react';
+
+interface ProductHistoryProps {
+  productId: string;
+  onRestored: () => void;
+}
+
+const actionLabels: Record<ProductRevision['action'], string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Moved to trash',
+  restore: 'Restored',
+  purge: 'Deleted permanently',
+};
+
+function ChangeValue({ field, value }: { field: string; value: unknown }) {
+  if (value === undefined || value === null || value === '') {
+    return <span className="text-muted-foreground italic">empty</span>;
+  }
+  if (field === 'images' && Array.isArray(value)) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {value.map((src: string) => (
+          <div key={src} className="relative h-10 w-10 overflow-hidden rounded">
+            <Image src={src} alt="" fill className="object-cover" sizes="40px" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+  if (typeof value === 'string' && value.length > 120) {
+    return <span className="whitespace-pre-line">{value.slice(0, 120)}…</span>;
+  }
+  return <span>{typeof value === 'string' ? value : JSON.stringify(value)}</span>;
+}
+
+const ProductHistory: FC<ProductHistoryProps> = ({ productId, onRestored }) => {
+  const { toast } = useToast();
+  const { can } = useAdminUser();
+  const [revisions, setRevisions] = useState<ProductRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchRevisions = async () => {
+    setLoading(true);
+    setRevisions(await getProductRevisionsAction(productId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [productId]);
+
+  const handleRestore = async (revision: ProductRevision) => {
+    setRestoringId(revision.id);
+    const result = await restoreProductRevision(revision.id);
+    setRestoringId(null);
+    if (result.success) {
+      toast({ title: 'Revision restored', description: `Restored the version from ${new Date(revision.createdAt).toLocaleString()}. Stock and unit statuses were left as they are.` });
+      await fetchRevisions();
+      onRestored();
+    } else {
+      toast({ title: 'Error restoring revision', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-3">
+        {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-20 w-full" />)}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes have been recorded for this product yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {can('products:write') && (
+        <p className="text-sm text-muted-foreground">
+          Restoring a version brings back its details, prices and photos. Stock, availability and unit statuses stay as they are now.
+        </p>
+      )}
+      {revisions.map((revision, index) => (
+        <div key={revision.id} className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Badge variant={revision.action === 'delete' || revision.action === 'purge' ? 'destructive' : 'secondary'}>{actionLabels[revision.action]}</Badge>
+              <span className="text-sm text-muted-foreground">
+                by <span className="font-medium text-foreground">{revision.actor}</span> on {new Date(revision.createdAt).toLocaleString()}
+              </span>
+            </div>
+            {can('products:write') && index > 0 && revision.action !== 'delete' && revision.action !== 'purge' && (
+              <Button variant="outline" size="sm" disabled={restoringId !== null} onClick={() => handleRestore(revision)}>
+                <RotateCcw className="mr-2 h-4 w-4" /> {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+              </Button>
+            )}
+          </div>
+          {revision.changes.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-1/5">Field</TableHead>
+                  <TableHead>Before</TableHead>
+                  <TableHead>After</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revision.changes.map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-medium">{change.field}</TableCell>
+                    <TableCell><ChangeValue field={change.field} value={change.before} /></TableCell>
+                    <TableCell><ChangeValue field={change.field} value={change.after} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProductHistory;
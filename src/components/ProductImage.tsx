@@ -0,0 +1,45 @@
+import Image from 'next/image';
+import type { ImageVariantSize, Product } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface ProductImageProps {
+  product: Pick<Product, 'imageVariants'>;
+  src: string;
+  alt: string;
+  // The largest variant this slot can need; smaller ones are offered through srcset.
+  size: ImageVariantSize;
+  sizes: string;
+  className?: string;
+  priority?: boolean;
+}
+
+const SIZE_ORDER: ImageVariantSize[] = ['thumb', 'card', 'full'];
+
+// Fills its (relatively positioned) parent. Images uploaded through the variant
+// pipeline are served as AVIF/WebP at the right width; older uploads fall back
+// to next/image.
+export default function ProductImage({ product, src, alt, size, sizes, className, priority }: ProductImageProps) {
+  const processed = product.imageVariants?.[src];
+
+  if (!processed) {
+    return <Image src={src} alt={alt} fill className={cn('object-cover', className)} sizes={sizes} priority={priority} />;
+  }
+
+  const candidates = SIZE_ORDER.slice(0, SIZE_ORDER.indexOf(size) + 1).map(name => processed.variants[name]);
+  const srcSet = (format: 'avif' | 'webp') => candidates.map(variant => `${variant[format]} ${variant.width}w`).join(', ');
+
+  return (
+    <picture>
+      <source type="image/avif" srcSet={srcSet('avif')} sizes={sizes} />
+      <source type="image/webp" srcSet={srcSet('webp')} sizes={sizes} />
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img
+        src={processed.variants[size].webp}
+        alt={alt}
+        className={cn('absolute inset-0 h-full w-full object-cover', className)}
+        loading={priority ? 'eager' : 'lazy'}
+        decoding="async"
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useState } from 'react';
+import type { Product } from '@/lib/types';
+import { defaultSelection, variantGroups, variantPrice } from '@/lib/variants';
+import AddToCartButton from './AddToCartButton';
+import UnitPicker from './UnitPicker';
+import VariantSelector from './VariantSelector';
+
+interface ProductPurchaseProps {
+    // Expected to have gone through toStorefrontProduct().
+    product: Product;
+}
+
+// The buying controls on the product page: configuration options, then either
+// a unit picker or a plain add-to-cart button.
+export default function ProductPurchase({ product }: ProductPurchaseProps) {
+    const [variant, setVariant] = useState(() => defaultSelection(product));
+    const hasVariants = variantGroups(product).length > 0;
+
+    return (
+        <div className="space-y-6">
+            {hasVariants && (
+                <div className="space-y-4">
+                    <VariantSelector product={product} selection={variant} onChange={setVariant} />
+                    <p className="text-lg">
+                        Your configuration:{' '}
+                        <span className="font-headline font-semibold text-primary">
+                            {new Intl.NumberFormat('en-PK', { style: 'currency', currency: 'PKR', minimumFractionDigits: 0 }).format(variantPrice(product, variant))}
+                        </span>
+                    </p>
+                </div>
+            )}
+            {product.units?.length
+                ? <UnitPicker product={product} variant={hasVariants ? variant : undefined} />
+                : <AddToCartButton product={product} variant={hasVariants ? variant : undefined} />}
+        </div>
+    );
+}
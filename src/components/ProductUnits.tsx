@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, type FC } from 'react';
+import { Edit, Plus, Trash2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import type { InventoryUnit, Product } from '@/lib/types';
+import { UNIT_STATUS_LABELS } from '@/lib/units';
+import { deleteProductUnit } from '@/app/admin/actions';
+import UnitForm from './UnitForm';
+
+interface ProductUnitsProps {
+  product: Product;
+  onChanged: () => void;
+}
+
+// The individual machines behind a listing, managed from the admin products table.
+const ProductUnits: FC<ProductUnitsProps> = ({ product, onChanged }) => {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<InventoryUnit | 'new' | null>(null);
+  const units = product.units ?? [];
+
+  const handleDelete = async (unit: InventoryUnit) => {
+    const result = await deleteProductUnit(product.id, unit.id);
+    if (result.success) {
+      toast({ title: 'Unit removed', description: `Removed unit ${unit.serialNumber}.` });
+      onChanged();
+    } else {
+      toast({ title: 'Error removing unit', description: result.error?.formErrors?.join(', '), variant: 'destructive' });
+    }
+  };
+
+  if (editing) {
+    return (
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>← Back to units</Button>
+        <UnitForm
+          productId={product.id}
+          unit={editing === 'new' ? undefined : editing}
+          onFinished={() => { setEditing(null); onChanged(); }}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {units.length === 0
+            ? 'This listing has no individual units; its stock count is entered by hand.'
+            : 'Stock for this listing follows the number of available units.'}
+        </p>
+        <Button size="sm" onClick={() => setEditing('new')}><Plus className="mr-2 h-4 w-4" /> Add Unit</Button>
+      </div>
+      {units.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Serial</TableHead>
+              <TableHead>Grade</TableHead>
+              <TableHead>Battery</TableHead>
+              <TableHead>Cost</TableHead>
+              <TableHead>Photos</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {units.map(unit => (
+              <TableRow key={unit.id}>
+                <TableCell className="font-mono text-xs">{unit.serialNumber}</TableCell>
+                <TableCell>{unit.grade}</TableCell>
+                <TableCell>{unit.batteryHealth !== undefined ? `${unit.batteryHealth}%` : '-'}</TableCell>
+                <TableCell>{unit.purchaseCost !== undefined ? `PKR ${unit.purchaseCost.toLocaleString()}` : '-'}</TableCell>
+                <TableCell>{unit.images.length}</TableCell>
+                <TableCell>
+                  <Badge variant={unit.status === 'available' ? 'default' : 'secondary'}>{UNIT_STATUS_LABELS[unit.status]}</Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => setEditing(unit)}><Edit className="h-4 w-4" /></Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(unit)}><Trash2 className="h-4 w-4 text-destructive" /></Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default ProductUnits;
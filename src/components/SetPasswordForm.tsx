@@ -0,0 +1,74 @@
+'use client';
+
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { passwordSchema } from '@/lib/schemas';
+import { completePasswordSetup } from '@/app/set-password/actions';
+
+interface SetPasswordFormProps {
+  token: string;
+  username: string;
+}
+
+export default function SetPasswordForm({ token, username }: SetPasswordFormProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const schema = z.object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  }).refine(data => !data.password.toLowerCase().includes(username.toLowerCase()), {
+    message: 'Password cannot contain the username',
+    path: ['password'],
+  }).refine(data => data.password === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+  const form = useForm<z.infer<typeof schema>>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  const onSubmit: SubmitHandler<z.infer<typeof schema>> = async (data) => {
+    const result = await completePasswordSetup({ token, password: data.password });
+    if (result.success) {
+      toast({ title: 'Password set', description: 'You can now log in.' });
+      router.push('/login');
+    } else {
+      const errorMessage = result.error?.formErrors?.join(', ') || 'An unknown error occurred.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField name="password" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Password</FormLabel>
+            <FormControl><Input type="password" autoComplete="new-password" {...field} /></FormControl>
+            <FormDescription>At least 10 characters, with a letter and a number, and not containing the username.</FormDescription>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <FormField name="confirmPassword" control={form.control} render={({ field }) => (
+          <FormItem>
+            <FormLabel>Confirm Password</FormLabel>
+            <FormControl><Input type="password" autoComplete="new-password" {...field} /></FormControl>
+            <FormMessage />
+          </FormItem>
+        )} />
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : 'Set Password'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,29 @@
+import { Badge } from '@/components/ui/badge';
+import type { Product } from '@/lib/types';
+import { AVAILABILITY_LABELS, getAvailability } from '@/lib/stock';
+import { cn } from '@/lib/utils';
+
+interface StockBadgeProps {
+  product: Pick<Product, 'stock' | 'availability'>;
+  className?: string;
+}
+
+const availabilityStyles = {
+  in_stock: 'bg-emerald-500/10 text-emerald-700 border-emerald-500/20',
+  reserved: 'bg-amber-500/10 text-amber-700 border-amber-500/20',
+  sold: 'bg-destructive/10 text-destructive border-destructive/20',
+};
+
+export default function StockBadge({ product, className }: StockBadgeProps) {
+  const availability = getAvailability(product);
+  // A lone unit in stock is the normal case; only call out the count when there are several.
+  const label = availability === 'in_stock' && product.stock > 1
+    ? `${product.stock} in stock`
+    : AVAILABILITY_LABELS[availability];
+
+  return (
+    <Badge variant="outline" className={cn(availabilityStyles[availability], 'shrink-0', className)}>
+      {label}
+    </Badge>
+  );
+}
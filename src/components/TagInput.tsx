@@ -0,0 +1,67 @@
+'use client';
+
+import { useState, type FC } from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { normalizeTags } from '@/lib/categories';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // Existing tags offered as suggestions while typing.
+  suggestions?: string[];
+  placeholder?: string;
+}
+
+// Enter or a comma adds the typed tag; Backspace in an empty box removes the last one.
+const TagInput: FC<TagInputProps> = ({ value, onChange, suggestions = [], placeholder }) => {
+  const [draft, setDraft] = useState('');
+
+  const add = (text: string) => {
+    const next = normalizeTags([...value, ...text.split(',')]);
+    if (next.length !== value.length) onChange(next);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const listId = 'tag-input-suggestions';
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(tag => (
+            <Badge key={tag} variant="secondary" className="gap-1 font-normal">
+              {tag}
+              <button type="button" onClick={() => onChange(value.filter(other => other !== tag))} aria-label={`Remove ${tag}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={draft}
+        list={listId}
+        placeholder={placeholder}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => draft.trim() && add(draft)}
+      />
+      <datalist id={listId}>
+        {suggestions.filter(tag => !value.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
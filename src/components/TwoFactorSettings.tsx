@@ -0,0 +1,208 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { Copy, Download, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { beginTwoFactorSetup, confirmTwoFactorSetup, disableTwoFactor, getTwoFactorStatusAction, regenerateRecoveryCodes } from '@/app/admin/actions';
+
+type PasswordPrompt = 'disable' | 'regenerate';
+
+const promptText: Record<PasswordPrompt, { title: string; description: string; action: string }> = {
+  disable: {
+    title: 'Turn off two-factor login?',
+    description: 'Logging in will need only your password again. Enter it to confirm.',
+    action: 'Turn Off',
+  },
+  regenerate: {
+    title: 'Create new recovery codes?',
+    description: 'Your current recovery codes stop working. Enter your password to confirm.',
+    action: 'Create New Codes',
+  },
+};
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<{ enabled: boolean; recoveryCodesLeft: number } | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [prompt, setPrompt] = useState<PasswordPrompt | null>(null);
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const fetchStatus = async () => {
+    setStatus(await getTwoFactorStatusAction());
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const handleBegin = async () => {
+    setBusy(true);
+    const result = await beginTwoFactorSetup();
+    setBusy(false);
+    if (result.success && 'secret' in result && result.secret && result.qrCode) {
+      setSetup({ secret: result.secret, qrCode: result.qrCode });
+      setCode('');
+    } else {
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const result = await confirmTwoFactorSetup({ code });
+    setBusy(false);
+    if (result.success && 'recoveryCodes' in result && result.recoveryCodes) {
+      setSetup(null);
+      setRecoveryCodes(result.recoveryCodes);
+      toast({ title: 'Two-factor login is on' });
+      fetchStatus();
+    } else {
+      const errorMessage = result.error?.formErrors?.join(', ') || 'An unknown error occurred.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  const handlePrompt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt) return;
+    setBusy(true);
+    const result = prompt === 'disable' ? await disableTwoFactor({ password }) : await regenerateRecoveryCodes({ password });
+    setBusy(false);
+    if (result.success) {
+      setPrompt(null);
+      setPassword('');
+      if ('recoveryCodes' in result && Array.isArray(result.recoveryCodes)) {
+        setRecoveryCodes(result.recoveryCodes);
+      } else {
+        toast({ title: 'Two-factor login is off' });
+      }
+      fetchStatus();
+    } else {
+      const errorMessage = result.error?.formErrors?.join(', ') || 'An unknown error occurred.';
+      toast({ title: 'Error', description: errorMessage, variant: 'destructive' });
+    }
+  };
+
+  const copyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: 'Recovery codes copied' });
+    } catch {
+      toast({ title: 'Could not copy the codes', description: 'Select them and copy them by hand.', variant: 'destructive' });
+    }
+  };
+
+  const downloadCodes = () => {
+    if (!recoveryCodes) return;
+    const blob = new Blob([`Lapzen admin recovery codes\nEach code works once.\n\n${recoveryCodes.join('\n')}\n`], { type: 'text/plain' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'lapzen-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Login
+          {status?.enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app, such as Google Authenticator or Authy, as well as your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!status ? (
+          <Skeleton className="h-10 w-48" />
+        ) : status.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesLeft} recovery {status.recoveryCodesLeft === 1 ? 'code' : 'codes'} left. Each can be used once to log in without your phone.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPrompt('regenerate')}>New Recovery Codes</Button>
+              <Button variant="outline" onClick={() => setPrompt('disable')}>
+                <ShieldOff className="mr-2 h-4 w-4" /> Turn Off
+              </Button>
+            </div>
+          </>
+        ) : setup ? (
+          <form onSubmit={handleConfirm} className="space-y-4">
+            <p className="text-sm">Scan this code with your authenticator app, then enter the 6-digit code it shows.</p>
+            <Image src={setup.qrCode} alt="QR code for your authenticator app" width={220} height={220} unoptimized className="rounded-md border" />
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">Can&apos;t scan it? Enter this key in the app instead:</p>
+              <code className="block break-all rounded bg-muted px-2 py-1 text-sm">{setup.secret.match(/.{1,4}/g)?.join(' ')}</code>
+            </div>
+            <div className="space-y-2 max-w-xs">
+              <Label htmlFor="totp-code">Code</Label>
+              <Input id="totp-code" inputMode="numeric" autoComplete="one-time-code" maxLength={6} value={code} onChange={(e) => setCode(e.target.value)} placeholder="123456" />
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" disabled={busy || code.trim().length !== 6}>Turn On</Button>
+              <Button type="button" variant="ghost" onClick={() => setSetup(null)}>Cancel</Button>
+            </div>
+          </form>
+        ) : (
+          <Button onClick={handleBegin} disabled={busy}>
+            <ShieldCheck className="mr-2 h-4 w-4" /> Set Up Two-Factor Login
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog open={prompt !== null} onOpenChange={isOpen => { if (!isOpen) { setPrompt(null); setPassword(''); } }}>
+        <DialogContent>
+          {prompt && (
+            <form onSubmit={handlePrompt} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>{promptText[prompt].title}</DialogTitle>
+                <DialogDescription>{promptText[prompt].description}</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">Password</Label>
+                <Input id="confirm-password" type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={busy || !password}>{promptText[prompt].action}</Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={recoveryCodes !== null} onOpenChange={isOpen => { if (!isOpen) setRecoveryCodes(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Your Recovery Codes</DialogTitle>
+            <DialogDescription>
+              Keep these somewhere safe. If you lose your phone, each code lets you log in once. They will not be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm">
+            {recoveryCodes?.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={copyCodes}><Copy className="mr-2 h-4 w-4" /> Copy</Button>
+            <Button variant="outline" onClick={downloadCodes}><Download className="mr-2 h-4 w-4" /> Download</Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I Have Saved Them</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useState, type FC } from 'react';
+import { useForm, type SubmitHandler } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import Image from 'next/image';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import type { InventoryUnit } from '@/lib/types';
+import { GRADE_LABELS, UNIT_STATUS_LABELS } from '@/lib/units';
+import { addProductUnit, updateProductUnit } from '@/app/admin/actions';
+
+// Blank number inputs come through as NaN; treat them as "not recorded".
+const optionalNumber = z.preprocess(
+  value => (typeof value === 'number' && isNaN(value) ? undefined : value),
+  z.number().min(0, 'Cannot be negative').optional()
+);
+
+const unitFormSchema = z.object({
+  serialNumber: z.string().trim().min(1, 'Serial number is required'),
+  grade: z.enum(['A', 'B', 'C']),
+  batteryHealth: optionalNumber.refine(value => value === undefined || value <= 100, 'Battery health is a percentage'),
+  purchaseCost: optionalNumber,
+  images: z.array(z.string()).max(5, 'You can upload a maximum of 5 images.'),
+  status: z.enum(['available', 'reserved', 'sold']),
+  notes: z.string().optional(),
+});
+
+type UnitFormValues = z.infer<typeof unitFormSchema>;
+
+interface UnitFormProps {
+  productId: string;
+  unit?: InventoryUnit;
+  onFinished: () => void;
+}
+
+const UnitForm: FC<UnitFormProps> = ({ productId, unit, onFinished }) => {
+  const { toast } = useToast();
+  const [imagePreview, setImagePreview] = useState<string[]>(unit?.images ?? []);
+
+  const form = useForm<UnitFormValues>({
+    resolver: zodResolver(unitFormSchema),
+    defaultValues: unit ?? {
+      serialNumber: '',
+      grade: 'A',
+      batteryHealth: undefined,
+      purchaseCost: undefined,
+      images: [],
+      status: 'available',
+      notes: '',
+    },
+  });
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (!files) return;
+
+    const currentImages = form.getValues('images') || [];
+    if (currentImages.length + files.length > 5) {
+      toast({ title: "Image limit exceeded", description: "You can upload a maximum of 5 images.", variant: "destructive" });
+      e.target.value = "";
+      return;
+    }
+
+    const newImageUrls = await Promise.all(Array.from(files).map(file => new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = reject;
+      reader.readAsDataURL(file);
+    })));
+    const allImages = [...currentImages, ...newImageUrls];
+    setImagePreview(allImages);
+    form.setValue('images', allImages, { shouldValidate: true });
+    e.target.value = "";
+  };
+
+  const removeImage = (indexToRemove: number) => {
+    const updatedImages = imagePreview.filter((_, index) => index !== indexToRemove);
+    setImagePreview(updatedImages);
+    form.setValue('images', updatedImages, { shouldValidate: true });
+  };
+
+  const onSubmit: SubmitHandler<UnitFormValues> = async (data) => {
+    const result = unit ? await updateProductUnit(productId, unit.id, data, unit.status) : await addProductUnit(productId, data);
+    if (result.success) {
+      toast({ title: `Unit ${unit ? 'updated' : 'added'}` });
+      onFinished();
+    } else {
+      const formErrors = result.error?.formErrors ?? [];
+      toast({ title: "Error", description: formErrors.length > 0 ? formErrors.join(', ') : 'An unknown error occurred.', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField name="serialNumber" control={form.control} render={({ field }) => (
+            <FormItem><FormLabel>Serial Number</FormLabel><FormControl><Input {...field} /></FormControl><FormMessage /></FormItem>
+          )} />
+          <FormField name="grade" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Cosmetic Grade</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  {Object.entries(GRADE_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="batteryHealth" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Battery Health (%)</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} max={100} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.valueAsNumber)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="purchaseCost" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Purchase Cost (PKR)</FormLabel>
+              <FormControl>
+                <Input type="number" min={0} {...field} value={field.value ?? ''} onChange={e => field.onChange(e.target.valueAsNumber)} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )} />
+          <FormField name="status" control={form.control} render={({ field }) => (
+            <FormItem>
+              <FormLabel>Status</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                <SelectContent>
+                  {Object.entries(UNIT_STATUS_LABELS).map(([value, label]) => <SelectItem key={value} value={value}>{label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )} />
+        </div>
+        <FormField name="notes" control={form.control} render={({ field }) => (
+          <FormItem><FormLabel>Internal Notes</FormLabel><FormControl><Textarea {...field} rows={2} /></FormControl><FormMessage /></FormItem>
+        )} />
+        <FormItem>
+          <FormLabel>Unit Photos (up to 5)</FormLabel>
+          <FormControl>
+            <Input type="file" accept="image/jpeg,image/png,image/jpg,image/webp" multiple onChange={handleImageChange} disabled={imagePreview.length >= 5} />
+          </FormControl>
+          {imagePreview.length > 0 && (
+            <div className="mt-4 grid grid-cols-3 sm:grid-cols-5 gap-4">
+              {imagePreview.map((src, i) => (
+                <div key={i} className="relative group aspect-square">
+                  <Image src={src} alt={`Unit photo ${i + 1}`} fill className="rounded-md object-cover" />
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity z-10"
+                    onClick={() => removeImage(i)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </FormItem>
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting ? 'Saving...' : (unit ? 'Update Unit' : 'Add Unit')}
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+export default UnitForm;
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { ShoppingCart } from 'lucide-react';
+import { useCart } from '@/context/CartProvider';
+import type { Product, VariantSelection } from '@/lib/types';
+import { availableUnits, GRADE_LABELS } from '@/lib/units';
+import { cn } from '@/lib/utils';
+import { Button } from './ui/button';
+import { Card, CardContent } from './ui/card';
+import ProductImage from './ProductImage';
+
+interface UnitPickerProps {
+    // Expected to have gone through toStorefrontProduct().
+    product: Product;
+    variant?: VariantSelection;
+}
+
+// Lets the shopper choose one specific machine of a listing before adding it to the cart.
+export default function UnitPicker({ product, variant }: UnitPickerProps) {
+    const { addToCart, cartItems } = useCart();
+    const units = availableUnits(product);
+    const [selectedId, setSelectedId] = useState(units[0]?.id);
+    const selected = units.find(unit => unit.id === selectedId);
+    const inCart = cartItems.some(item => item.unitId === selectedId);
+
+    if (units.length === 0) {
+        return <Button size="lg" disabled>Sold Out</Button>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-headline text-xl font-semibold">Choose your unit</h3>
+            <div role="radiogroup" className="grid gap-3 sm:grid-cols-2">
+                {units.map(unit => (
+                    <button
+                        key={unit.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={unit.id === selectedId}
+                        onClick={() => setSelectedId(unit.id)}
+                        className={cn(
+                            'rounded-lg border p-4 text-left transition-colors hover:border-primary',
+                            unit.id === selectedId && 'border-primary bg-primary/5 ring-1 ring-primary'
+                        )}
+                    >
+                        <p className="font-semibold">{GRADE_LABELS[unit.grade]}</p>
+                        <p className="text-sm text-muted-foreground">
+                            {unit.batteryHealth !== undefined ? `Battery health ${unit.batteryHealth}%` : 'Battery health not measured'}
+                        </p>
+                        <p className="text-xs text-muted-foreground mt-1">S/N {unit.serialNumber}</p>
+                    </button>
+                ))}
+            </div>
+
+            {selected && selected.images.length > 0 && (
+                <Card>
+                    <CardContent className="p-4">
+                        <p className="text-sm font-medium mb-3">Photos of this unit</p>
+                        <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                            {selected.images.map((src, index) => (
+                                <a key={src} href={src} target="_blank" rel="noreferrer" className="relative aspect-square overflow-hidden rounded-md">
+                                    <ProductImage product={selected} src={src} alt={`${product.name} unit photo ${index + 1}`} size="thumb" sizes="120px" />
+                                </a>
+                            ))}
+                        </div>
+                    </CardContent>
+                </Card>
+            )}
+
+            <Button size="lg" disabled={!selected || inCart} onClick={() => selected && addToCart(product, { unitId: selected.id, variant })}>
+                <ShoppingCart className="mr-2 h-5 w-5" /> {inCart ? 'This Unit Is in Your Cart' : 'Add This Unit to Cart'}
+            </Button>
+        </div>
+    );
+}
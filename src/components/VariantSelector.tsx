@@ -0,0 +1,44 @@
+'use client';
+
+import type { Product, VariantSelection } from '@/lib/types';
+import { formatPriceDelta, VARIANT_KIND_LABELS, variantGroups } from '@/lib/variants';
+import { cn } from '@/lib/utils';
+
+interface VariantSelectorProps {
+    product: Product;
+    selection: VariantSelection;
+    onChange: (selection: VariantSelection) => void;
+}
+
+export default function VariantSelector({ product, selection, onChange }: VariantSelectorProps) {
+    return (
+        <div className="space-y-4">
+            {variantGroups(product).map(({ kind, options }) => (
+                <div key={kind} className="space-y-2">
+                    <p className="font-semibold">{VARIANT_KIND_LABELS[kind]}</p>
+                    <div role="radiogroup" aria-label={VARIANT_KIND_LABELS[kind]} className="flex flex-wrap gap-2">
+                        {options.map(option => (
+                            <button
+                                key={option.id}
+                                type="button"
+                                role="radio"
+                                aria-checked={selection[kind] === option.id}
+                                disabled={option.stock === 0}
+                                onClick={() => onChange({ ...selection, [kind]: option.id })}
+                                className={cn(
+                                    'rounded-md border px-3 py-2 text-sm text-left transition-colors hover:border-primary disabled:cursor-not-allowed disabled:opacity-50',
+                                    selection[kind] === option.id && 'border-primary bg-primary/5 ring-1 ring-primary'
+                                )}
+                            >
+                                <span className="font-medium">{option.label}</span>
+                                <span className="block text-xs text-muted-foreground">
+                                    {option.stock === 0 ? 'Unavailable' : formatPriceDelta(option.priceDelta)}
+                                </span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,34 @@
+"use client";
+
+import React, { createContext, useContext } from 'react';
+import { ROLE_PERMISSIONS, type AdminRole, type Permission } from '@/lib/permissions';
+
+// The signed-in admin user, provided by the admin layout so pages can hide what
+// the user's role does not allow. The server actions check again; this only
+// keeps the interface honest.
+
+interface AdminUserContextType {
+  id: string;
+  username: string;
+  role: AdminRole;
+  can: (permission: Permission) => boolean;
+}
+
+const AdminUserContext = createContext<AdminUserContextType | undefined>(undefined);
+
+export const AdminUserProvider: React.FC<{ user: { id: string; username: string; role: AdminRole }; children: React.ReactNode }> = ({ user, children }) => {
+  const can = (permission: Permission) => ROLE_PERMISSIONS[user.role].includes(permission);
+  return (
+    <AdminUserContext.Provider value={{ ...user, can }}>
+      {children}
+    </AdminUserContext.Provider>
+  );
+};
+
+export const useAdminUser = () => {
+  const context = useContext(AdminUserContext);
+  if (context === undefined) {
+    throw new Error('useAdminUser must be used within an AdminUserProvider');
+  }
+  return context;
+};
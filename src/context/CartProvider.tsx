@@ -3,12 +3,14 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { CartItem, Product } from '@/lib/types';
 import { useToast } from "@/hooks/use-toast"
+import { cartItemKey, cartItemName, cartItemPrice, maxLineQuantity } from '@/lib/cart';
 
 interface CartContextType {
   cartItems: CartItem[];
-  addToCart: (product: Product) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: Product, choice?: Pick<CartItem, 'unitId' | 'variant'>) => void;
+  // Both take the line key from cartItemKey().
+  removeFromCart: (key: string) => void;
+  updateQuantity: (key: string, quantity: number) => void;
   clearCart: () => void;
   cartCount: number;
   totalPrice: number;
@@ -31,36 +33,51 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.setItem('lapzen_cart', JSON.stringify(cartItems));
   }, [cartItems]);
 
-  const addToCart = (product: Product) => {
+  const addToCart = (product: Product, { unitId, variant }: Pick<CartItem, 'unitId' | 'variant'> = {}) => {
+    const line = { product, unitId, variant };
+    const key = cartItemKey(line);
+    const max = maxLineQuantity(line, cartItems);
+    const inCart = cartItems.find(item => cartItemKey(item) === key)?.quantity ?? 0;
+    if (inCart >= max) {
+      toast({
+        title: max === 0 ? "Not available" : "Stock limit reached",
+        description: max === 0 || unitId
+          ? `${cartItemName(line)} is ${unitId && inCart > 0 ? 'already in your cart' : 'no longer available'}.`
+          : `Only ${max} of ${product.name} ${max === 1 ? 'is' : 'are'} available.`,
+        variant: "destructive",
+      })
+      return;
+    }
+
     setCartItems(prevItems => {
-      const itemExists = prevItems.find(item => item.product.id === product.id);
+      const itemExists = prevItems.find(item => cartItemKey(item) === key);
       if (itemExists) {
+        // Refresh the stored product so the cart sees the latest stock.
         return prevItems.map(item =>
-          item.product.id === product.id ? { ...item, quantity: item.quantity + 1 } : item
+          cartItemKey(item) === key ? { ...item, product, quantity: Math.min(item.quantity + 1, max) } : item
         );
       }
-      return [...prevItems, { product, quantity: 1 }];
+      return [...prevItems, { product, quantity: 1, ...(unitId ? { unitId } : {}), ...(variant ? { variant } : {}) }];
     });
     toast({
       title: "Added to cart",
-      description: `${product.name} has been added to your cart.`,
+      description: `${cartItemName(line)} has been added to your cart.`,
     })
   };
 
-  const removeFromCart = (productId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.product.id !== productId));
+  const removeFromCart = (key: string) => {
+    setCartItems(prevItems => prevItems.filter(item => cartItemKey(item) !== key));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
-    if (quantity <= 0) {
-      removeFromCart(productId);
-    } else {
-      setCartItems(prevItems =>
-        prevItems.map(item =>
-          item.product.id === productId ? { ...item, quantity } : item
+  // Clamped to what is still in stock; a line with nothing left to order is removed.
+  const updateQuantity = (key: string, quantity: number) => {
+    setCartItems(prevItems =>
+      prevItems
+        .map(item =>
+          cartItemKey(item) === key ? { ...item, quantity: Math.min(quantity, maxLineQuantity(item, prevItems)) } : item
         )
-      );
-    }
+        .filter(item => cartItemKey(item) !== key || item.quantity >= 1)
+    );
   };
 
   const clearCart = () => {
@@ -69,7 +86,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const cartCount = cartItems.reduce((count, item) => count + item.quantity, 0);
 
-  const totalPrice = cartItems.reduce((total, item) => total + item.product.price * item.quantity, 0);
+  const totalPrice = cartItems.reduce((total, item) => total + cartItemPrice(item) * item.quantity, 0);
 
   return (
     <CartContext.Provider value={{ cartItems, addToCart, removeFromCart, updateQuantity, clearCart, cartCount, totalPrice }}>
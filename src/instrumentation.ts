@@ -0,0 +1,33 @@
+// Runs once when the server starts. Reading the JSON stores up front means a
+// products.json corrupted by a crash is restored from its latest snapshot
+// before the first request, instead of on whichever page happens to load first.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getProducts } = await import('@/lib/placeholder-data');
+  const { getUsers, issueOwnerSetupLink } = await import('@/lib/users');
+
+  try {
+    await Promise.all([getProducts(), getUsers()]);
+  } catch (error) {
+    console.error('Data store check failed at startup:', error);
+  }
+
+  // There is no default password: until an owner has set one, each start
+  // prints a link for doing so.
+  try {
+    const setup = await issueOwnerSetupLink();
+    if (setup) {
+      console.warn(`No owner can log in yet. Set the password for "${setup.username}" at /set-password?token=${encodeURIComponent(setup.token)}`);
+    }
+  } catch (error) {
+    console.error('Failed to issue the owner setup link:', error);
+  }
+
+  // Trashed products past the retention period are purged now and then hourly,
+  // whether or not anyone opens the trash page.
+  const { purgeExpiredTrash, PURGE_INTERVAL_MS } = await import('@/lib/trash-purge');
+  const purgeTrash = () => purgeExpiredTrash().catch(error => console.error('Failed to purge the trash:', error));
+  await purgeTrash();
+  setInterval(purgeTrash, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { AuditEntry } from '@/lib/audit';
+import { exportAuditEntries } from './audit-log';
+
+const failedLogin: AuditEntry = {
+  id: 'aud_1',
+  createdAt: '2026-10-19T10:00:00.000Z',
+  actor: 'anonymous',
+  attemptedUsername: '=HYPERLINK("https://evil.example","Click")',
+  ip: '203.0.113.7',
+  action: 'auth.login_failed',
+  summary: '-2+3 failed login',
+};
+
+describe('exportAuditEntries', () => {
+  it('keeps text that looks like a formula from running in a spreadsheet', () => {
+    const csv = exportAuditEntries([failedLogin], 'csv').data.toString();
+    expect(csv).toContain(`"'=HYPERLINK(""https://evil.example"",""Click"")"`);
+    expect(csv).toContain("'-2+3 failed login");
+    expect(csv).toContain(',203.0.113.7,');
+  });
+});
+
+describe('the audit log file', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('rotates once it is full and keeps only the newest files', async () => {
+    vi.stubEnv('AUDIT_LOG_MAX_BYTES', '1000');
+    vi.stubEnv('AUDIT_LOG_FILES', '2');
+    vi.resetModules();
+    const { getAuditEntries, recordAudit } = await import('./audit-log');
+
+    for (let i = 0; i < 30; i++) {
+      await recordAudit({ actor: 'owner', action: 'product.update', summary: `Change ${i}` });
+    }
+
+    expect(fs.readdirSync('data').filter(name => name.startsWith('audit-log')).sort()).toEqual([
+      'audit-log.1.jsonl',
+      'audit-log.2.jsonl',
+      'audit-log.jsonl',
+    ]);
+    expect(fs.statSync(path.join('data', 'audit-log.1.jsonl')).size).toBeGreaterThanOrEqual(1000);
+    const summaries = (await getAuditEntries()).map(entry => entry.summary);
+    expect(summaries.length).toBeLessThan(30);
+    expect(summaries).toEqual(Array.from({ length: summaries.length }, (_, i) => `Change ${29 - i}`));
+  });
+});
@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import * as XLSX from 'xlsx';
+import { withFileLock } from '@/lib/json-store';
+import type { AuditEntry, AuditFormat } from '@/lib/audit';
+import { escapeSpreadsheetRow } from '@/lib/spreadsheet';
+
+// Who changed what in the admin, stored in data/audit-log.jsonl with one JSON
+// entry per line. Entries are only ever appended: nothing in the app edits
+// them, and appending never rewrites what is already there.
+//
+// Once the log reaches AUDIT_LOG_MAX_BYTES it is renamed to audit-log.1.jsonl
+// (older files move up to .2, .3, ...) and a new one is started. The newest
+// AUDIT_LOG_FILES of those are kept and read with the current file; older ones
+// are deleted. Export the log first to keep everything.
+
+const auditFilePath = path.join(process.cwd(), 'data', 'audit-log.jsonl');
+
+const AUDIT_LOG_MAX_BYTES = Number(process.env.AUDIT_LOG_MAX_BYTES) || 5 * 1024 * 1024;
+const AUDIT_LOG_FILES = Number(process.env.AUDIT_LOG_FILES) || 4;
+
+function rotatedPath(index: number) {
+  return auditFilePath.replace(/\.jsonl$/, `.${index}.jsonl`);
+}
+
+async function renameIfExists(from: string, to: string) {
+  try {
+    await fs.rename(from, to);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+// Called under the file lock, before appending.
+async function rotateIfFull() {
+  let size: number;
+  try {
+    ({ size } = await fs.stat(auditFilePath));
+  } catch {
+    return; // Nothing written yet.
+  }
+  if (size < AUDIT_LOG_MAX_BYTES) return;
+
+  await fs.rm(rotatedPath(AUDIT_LOG_FILES), { force: true });
+  for (let index = AUDIT_LOG_FILES - 1; index >= 1; index--) {
+    await renameIfExists(rotatedPath(index), rotatedPath(index + 1));
+  }
+  await fs.rename(auditFilePath, rotatedPath(1));
+}
+
+async function readIfExists(filePath: string) {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+    throw error;
+  }
+}
+
+async function endsWithNewline() {
+  let file: fs.FileHandle | undefined;
+  try {
+    file = await fs.open(auditFilePath, 'r');
+    const { size } = await file.stat();
+    if (size === 0) return true;
+    const last = Buffer.alloc(1);
+    await file.read(last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } catch {
+    return true;
+  } finally {
+    await file?.close();
+  }
+}
+
+export async function recordAudit(entry: Omit<AuditEntry, 'id' | 'createdAt'>) {
+  const line: AuditEntry = {
+    id: `aud_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`,
+    createdAt: new Date().toISOString(),
+    ...entry,
+    userAgent: entry.userAgent?.slice(0, 200),
+    attemptedUsername: entry.attemptedUsername?.slice(0, 100),
+  };
+  await withFileLock(auditFilePath, async () => {
+    await fs.mkdir(path.dirname(auditFilePath), { recursive: true });
+    await rotateIfFull();
+    // If a crash cut the last line short, start on a fresh line so only that
+    // entry is lost.
+    const separator = (await endsWithNewline()) ? '' : '\n';
+    await fs.appendFile(auditFilePath, `${separator}${JSON.stringify(line)}\n`, 'utf8');
+  });
+}
+
+// Newest first, across the current and the kept rotated files. A line cut
+// short by a crash is skipped rather than hiding the rest.
+export async function getAuditEntries(): Promise<AuditEntry[]> {
+  // Under the lock so a rotation cannot move a file between two reads.
+  const files = await withFileLock(auditFilePath, async () => {
+    const paths = [...Array.from({ length: AUDIT_LOG_FILES }, (_, index) => rotatedPath(AUDIT_LOG_FILES - index)), auditFilePath];
+    return Promise.all(paths.map(readIfExists));
+  });
+  const entries: AuditEntry[] = [];
+  for (const text of files) {
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        console.warn('Skipping unreadable audit log line');
+      }
+    }
+  }
+  return entries.reverse();
+}
+
+export function exportAuditEntries(entries: AuditEntry[], format: AuditFormat): { fileName: string; mimeType: string; data: Buffer } {
+  const stamp = new Date().toISOString().slice(0, 10);
+  if (format === 'json') {
+    return { fileName: `lapzen-audit-${stamp}.json`, mimeType: 'application/json', data: Buffer.from(JSON.stringify(entries, null, 2)) };
+  }
+  const rows = entries.map(entry => ({
+    time: entry.createdAt,
+    actor: entry.actor,
+    attemptedUsername: entry.attemptedUsername ?? '',
+    ip: entry.ip ?? '',
+    action: entry.action,
+    target: entry.target ? `${entry.target.type}:${entry.target.name ?? entry.target.id ?? ''}` : '',
+    summary: entry.summary,
+    details: entry.details ? JSON.stringify(entry.details) : '',
+  })).map(escapeSpreadsheetRow);
+  const sheet = XLSX.utils.json_to_sheet(rows, { header: ['time', 'actor', 'attemptedUsername', 'ip', 'action', 'target', 'summary', 'details'] });
+  return { fileName: `lapzen-audit-${stamp}.csv`, mimeType: 'text/csv', data: Buffer.from(XLSX.utils.sheet_to_csv(sheet)) };
+}
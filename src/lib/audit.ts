@@ -0,0 +1,90 @@
+import type { FieldChange } from '@/lib/diff';
+
+// Audit log entries and the helpers the admin page shares with the server. The
+// log itself is stored by audit-log.ts.
+
+// The part of `action` before the dot.
+export const AUDIT_CATEGORIES = {
+  product: 'Products',
+  brand: 'Brands',
+  category: 'Categories',
+  tag: 'Tags',
+  homepage: 'Home page',
+  import: 'Imports',
+  upload: 'Uploads',
+  order: 'Orders',
+  auth: 'Logins',
+  account: 'Account',
+  session: 'Sessions',
+  user: 'Users',
+  security: 'Security',
+} as const;
+
+export type AuditCategory = keyof typeof AUDIT_CATEGORIES;
+
+export type AuditEntry = {
+  id: string;
+  createdAt: string;
+  // Username of whoever made the change, 'system' for automatic ones, or
+  // 'anonymous' when nobody had signed in (failed logins).
+  actor: string;
+  actorId?: string;
+  ip?: string;
+  userAgent?: string;
+  // "<category>.<verb>", e.g. product.update or user.invite.
+  action: `${AuditCategory}.${string}`;
+  // What the change was made to.
+  target?: { type: string; id?: string; name?: string };
+  // One line for people, e.g. `Updated "ThinkPad X1": price 250000 → 240000`.
+  summary: string;
+  details?: Record<string, unknown>;
+  // The username typed into a failed login. It is whatever the caller sent, so
+  // it is kept out of `actor` and the actor filter.
+  attemptedUsername?: string;
+};
+
+export type AuditQuery = {
+  category?: AuditCategory;
+  actor?: string;
+  // Matched against the summary, action and target.
+  search?: string;
+  // ISO dates (yyyy-mm-dd), inclusive.
+  from?: string;
+  to?: string;
+};
+
+export function auditCategory(entry: AuditEntry): AuditCategory {
+  return entry.action.split('.')[0] as AuditCategory;
+}
+
+export function filterAuditEntries(entries: AuditEntry[], query: AuditQuery): AuditEntry[] {
+  const search = query.search?.trim().toLowerCase();
+  const from = query.from ? Date.parse(`${query.from}T00:00:00`) : null;
+  const to = query.to ? Date.parse(`${query.to}T23:59:59.999`) : null;
+  return entries.filter(entry => {
+    const at = Date.parse(entry.createdAt);
+    if (query.category && auditCategory(entry) !== query.category) return false;
+    if (query.actor && entry.actor !== query.actor) return false;
+    if (from !== null && at < from) return false;
+    if (to !== null && at > to) return false;
+    if (search) {
+      const haystack = [entry.summary, entry.action, entry.target?.name, entry.target?.id, entry.ip, entry.attemptedUsername].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+}
+
+function formatValue(value: unknown) {
+  const text = value === undefined ? '(none)' : typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+// "price: 250000 → 240000, stock: 3 → 2 and 4 more".
+export function describeChanges(changes: FieldChange[], limit = 4) {
+  const shown = changes.slice(0, limit).map(change => `${change.field}: ${formatValue(change.before)} → ${formatValue(change.after)}`);
+  const more = changes.length - shown.length;
+  return more > 0 ? `${shown.join(', ')} and ${more} more` : shown.join(', ');
+}
+
+export type AuditFormat = 'json' | 'csv';
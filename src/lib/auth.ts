@@ -1,33 +1,107 @@
-import fs from 'fs/promises';
-import path from 'path';
-
-const authFilePath = path.join(process.cwd(), 'data', 'auth.json');
-
-async function ensureAuthFile() {
-  try {
-    await fs.access(authFilePath);
-  } catch {
-    const dataDir = path.dirname(authFilePath);
-    await fs.mkdir(dataDir, { recursive: true });
-    const defaultCreds = { username: 'admin', password: 'password' };
-    await fs.writeFile(authFilePath, JSON.stringify(defaultCreds, null, 2), 'utf-8');
-  }
+import { constantTimeEqual, hashPassword, needsRehash, verifyPassword } from '@/lib/passwords';
+import { hashRecoveryCode, verifyTotp } from '@/lib/totp';
+import { findUserBySetupToken, findUserByUsername, getUsers, updateUsers, type AdminUser } from '@/lib/users';
+
+// Hash checked when no usable account matches a login, so an unknown or
+// disabled username takes as long to reject as a wrong password.
+let decoyHash: Promise<string> | undefined;
+
+// Whether `password` is the user's. Accounts carried over from before passwords
+// were hashed hold a plaintext `password`; invited users have neither.
+export async function verifyUserPassword(user: AdminUser, password: string): Promise<boolean> {
+  if (user.passwordHash) return verifyPassword(password, user.passwordHash);
+  if (user.password !== undefined) return constantTimeEqual(password, user.password);
+  return false;
 }
 
-export async function getAuthCredentials() {
-  await ensureAuthFile();
-  try {
-    const json = await fs.readFile(authFilePath, 'utf-8');
-    return JSON.parse(json);
-  } catch (error) {
-    console.error('Error reading auth.json:', error);
-    // In a real app, handle this more gracefully. For now, fallback to defaults.
-    return { username: 'admin', password: 'password' }; 
+// Replaces the user's password (clearing any pending setup link) and applies
+// `changes` in the same write.
+export async function setUserPassword(id: string, password: string, changes: Partial<AdminUser> = {}) {
+  const passwordHash = await hashPassword(password);
+  const updatedAt = new Date().toISOString();
+  await updateUsers(users =>
+    users.map(user =>
+      user.id === id
+        ? { ...user, ...changes, passwordHash, password: undefined, setupTokenHash: undefined, setupTokenExpiresAt: undefined, updatedAt }
+        : user
+    )
+  );
+}
+
+// Sets a password from an invitation or reset link. The token is looked up,
+// checked and cleared in one locked write, so two submissions of the same link
+// cannot both succeed. Returns the user, or why the link was refused.
+export async function redeemSetupToken(
+  token: string,
+  password: string
+): Promise<{ user: AdminUser } | { error: 'invalid_link' | 'contains_username' }> {
+  const passwordHash = await hashPassword(password);
+  let outcome: { user: AdminUser } | { error: 'invalid_link' | 'contains_username' } = { error: 'invalid_link' };
+
+  await updateUsers(users => {
+    const user = findUserBySetupToken(users, token);
+    if (!user) return users;
+    if (password.toLowerCase().includes(user.username.toLowerCase())) {
+      outcome = { error: 'contains_username' };
+      return users;
+    }
+    const updated: AdminUser = {
+      ...user,
+      passwordHash,
+      password: undefined,
+      setupTokenHash: undefined,
+      setupTokenExpiresAt: undefined,
+      updatedAt: new Date().toISOString(),
+    };
+    outcome = { user: updated };
+    return users.map(other => (other.id === user.id ? updated : other));
+  });
+
+  return outcome;
+}
+
+// Checks a login attempt and returns the user it belongs to. A password is
+// always verified, against a decoy when the username is unknown. On success a
+// plaintext or outdated hash is rewritten with the current scheme.
+export async function checkCredentials(username: string, password: string): Promise<AdminUser | null> {
+  const user = findUserByUsername(await getUsers(), username);
+  if (!user || user.disabled || (!user.passwordHash && user.password === undefined)) {
+    await verifyPassword(password, await (decoyHash ??= hashPassword('lapzen-decoy-password')));
+    return null;
+  }
+  if (!(await verifyUserPassword(user, password))) return null;
+
+  const lastLoginAt = new Date().toISOString();
+  if (!user.passwordHash || needsRehash(user.passwordHash)) {
+    await setUserPassword(user.id, password, { lastLoginAt });
+  } else {
+    await updateUsers(users => users.map(other => (other.id === user.id ? { ...other, lastLoginAt } : other)));
   }
+  return { ...user, lastLoginAt };
 }
 
-export async function saveAuthCredentials(credentials: {username: string, password: string}) {
-  await ensureAuthFile();
-  const json = JSON.stringify(credentials, null, 2);
-  await fs.writeFile(authFilePath, json, 'utf-8');
+// Checks the second login step: a code from the user's authenticator app, or one
+// of their recovery codes, which is used up. Returns which it was, or null.
+export async function verifySecondFactor(user: AdminUser, code: string): Promise<'totp' | 'recovery' | null> {
+  if (!user.totpSecret) return null;
+  let method: 'totp' | 'recovery' | null = null;
+  await updateUsers(users =>
+    users.map(other => {
+      // Checked against the stored copy inside the write, so two requests racing
+      // with the same code cannot both succeed.
+      if (other.id !== user.id || !other.totpSecret) return other;
+      const step = verifyTotp(other.totpSecret, code, other.totpLastStep);
+      if (step !== null) {
+        method = 'totp';
+        return { ...other, totpLastStep: step };
+      }
+      const codeHash = hashRecoveryCode(code);
+      if (other.recoveryCodeHashes?.includes(codeHash)) {
+        method = 'recovery';
+        return { ...other, recoveryCodeHashes: other.recoveryCodeHashes.filter(hash => hash !== codeHash) };
+      }
+      return other;
+    })
+  );
+  return method;
 }
@@ -0,0 +1,50 @@
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { getCurrentSession, type AdminSession } from '@/lib/sessions';
+import { getUserById, type AdminUser } from '@/lib/users';
+
+// The guard every admin server action passes through before doing anything.
+// Server actions are plain POST endpoints that can be called without visiting
+// the admin pages, so the middleware's redirect does not protect them.
+
+export type UnauthorizedReason = 'unauthenticated' | 'forbidden';
+
+// What an action returns when the guard turns the caller away.
+export type Unauthorized = { success: false; error: string; unauthorized: UnauthorizedReason };
+
+// The same, for form actions whose errors are { formErrors }.
+export type UnauthorizedForm = { success: false; error: { formErrors: string[] }; unauthorized: UnauthorizedReason };
+
+export type Authorization =
+  | { session: AdminSession; user: AdminUser; denied?: undefined }
+  | { session?: undefined; user?: undefined; denied: Unauthorized };
+
+const MESSAGES: Record<UnauthorizedReason, string> = {
+  unauthenticated: 'Your session has ended. Please log in again.',
+  forbidden: 'You do not have permission to do that.',
+};
+
+function deny(reason: UnauthorizedReason): Authorization {
+  return { denied: { success: false, error: MESSAGES[reason], unauthorized: reason } };
+}
+
+// The signed-in admin user, if the request carries a live session whose user
+// still exists and has not been disabled.
+export async function getCurrentUser(): Promise<{ session: AdminSession; user: AdminUser } | null> {
+  const session = await getCurrentSession();
+  if (!session) return null;
+  const user = await getUserById(session.userId);
+  if (!user || user.disabled) return null;
+  return { session, user };
+}
+
+// Checks that the request comes from a signed-in user whose role allows `permission`.
+export async function authorize(permission: Permission): Promise<Authorization> {
+  const current = await getCurrentUser();
+  if (!current) return deny('unauthenticated');
+  if (!hasPermission(current.user.role, permission)) return deny('forbidden');
+  return current;
+}
+
+export function formDenied(denied: Unauthorized): UnauthorizedForm {
+  return { ...denied, error: { formErrors: [denied.error] } };
+}
@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Brand } from '@/lib/types';
+import { brands as defaultBrands } from '@/lib/data';
+import { getProducts } from '@/lib/placeholder-data';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+
+// The brands collection, stored in data/brands.json. Products reference a brand
+// by its name; the collection is what keeps "Dell" and "dell" from both existing.
+
+const brandsFilePath = path.join(process.cwd(), 'data', 'brands.json');
+
+export function slugify(name: string) {
+  return name.trim().toLowerCase().replace(/&/g, 'and').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+export function sortBrands(brands: Brand[]): Brand[] {
+  return [...brands].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+}
+
+// Matches a free-text brand (from a form or a spreadsheet) to the collection,
+// ignoring case, spacing and punctuation.
+export function findBrand(brands: Brand[], name: string): Brand | undefined {
+  const slug = slugify(name);
+  return brands.find(brand => brand.slug === slug || brand.name.toLowerCase() === name.trim().toLowerCase());
+}
+
+// First run: the hard-coded list plus any brand the catalog already uses, so no
+// existing product is left pointing at a brand that does not exist.
+async function seedBrands(): Promise<Brand[]> {
+  const now = new Date().toISOString();
+  const seeded: Brand[] = [];
+  const add = (name: string) => {
+    if (!name.trim() || findBrand(seeded, name)) return;
+    seeded.push({ id: slugify(name), name: name.trim(), slug: slugify(name), sortOrder: seeded.length, createdAt: now, updatedAt: now });
+  };
+
+  defaultBrands.forEach(brand => add(brand.name));
+  (await getProducts()).forEach(product => add(product.brand));
+  return seeded;
+}
+
+async function brandsFileExists() {
+  try {
+    await fs.access(brandsFilePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Sorted by sortOrder, then name.
+export async function getBrands(): Promise<Brand[]> {
+  if (!(await brandsFileExists())) {
+    return sortBrands(await updateBrands(brands => brands));
+  }
+  return sortBrands(await readJsonFile<Brand[]>(brandsFilePath, [], Array.isArray));
+}
+
+// Read-modify-write under the file lock; seeds the collection if it does not exist yet.
+export async function updateBrands(mutate: (brands: Brand[]) => Brand[]): Promise<Brand[]> {
+  const seed = (await brandsFileExists()) ? [] : await seedBrands();
+  return updateJsonFile<Brand[]>(brandsFilePath, seed, mutate, Array.isArray);
+}
@@ -0,0 +1,47 @@
+import type { CartItem } from '@/lib/types';
+import { findUnit, maskSerial } from '@/lib/units';
+import { availableQuantity } from '@/lib/stock';
+import { describeSelection, selectedOptions, selectionKey, variantPrice } from '@/lib/variants';
+
+type CartLine = Pick<CartItem, 'product' | 'unitId' | 'variant'>;
+
+// Identifies a cart line. Lines for the same listing stay separate when the
+// shopper picked different units or configurations.
+export function cartItemKey(item: CartLine) {
+  return [item.product.id, item.unitId, selectionKey(item.variant)].filter(Boolean).join(':');
+}
+
+// The unit and options chosen for a line, e.g. "Grade A, S/N ••••1234, 16GB RAM".
+export function cartItemConfiguration(item: CartLine) {
+  const unit = item.unitId ? findUnit(item.product, item.unitId) : undefined;
+  return [
+    unit ? `Grade ${unit.grade}, S/N ${maskSerial(unit.serialNumber)}` : '',
+    describeSelection(item.product, item.variant),
+  ].filter(Boolean).join(', ');
+}
+
+// The line's name as shown in the cart and toasts.
+export function cartItemName(item: CartLine) {
+  const configuration = cartItemConfiguration(item);
+  return configuration ? `${item.product.name} (${configuration})` : item.product.name;
+}
+
+// Unit price including any variant price deltas.
+export function cartItemPrice(item: CartLine) {
+  return variantPrice(item.product, item.variant);
+}
+
+// The most this line may hold given the other lines for the same listing and options.
+export function maxLineQuantity(item: CartLine, cartItems: CartItem[]) {
+  const key = cartItemKey(item);
+  const others = cartItems.filter(other => other.product.id === item.product.id && cartItemKey(other) !== key);
+
+  let max = item.unitId ? 1 : availableQuantity(item.product) - others.reduce((sum, other) => sum + other.quantity, 0);
+  for (const option of selectedOptions(item.product, item.variant)) {
+    const used = others
+      .filter(other => selectedOptions(other.product, other.variant).some(o => o.id === option.id))
+      .reduce((sum, other) => sum + other.quantity, 0);
+    max = Math.min(max, option.stock - used);
+  }
+  return Math.max(0, max);
+}
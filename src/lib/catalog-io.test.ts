@@ -0,0 +1,117 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import type { Brand, Product } from '@/lib/types';
+import { exportCatalog, planCatalogImport, readImagesZip } from './catalog-io';
+
+const createdAt = '2026-01-01T00:00:00.000Z';
+const brands: Brand[] = [
+  { id: 'brand_1', name: 'Lenovo', slug: 'lenovo', sortOrder: 0, createdAt, updatedAt: createdAt },
+  { id: 'brand_2', name: 'HP', slug: 'hp', sortOrder: 1, createdAt, updatedAt: createdAt },
+];
+
+const thinkpad: Product = {
+  id: 'prod_1',
+  name: 'ThinkPad T14',
+  brand: 'Lenovo',
+  price: 150000,
+  condition: 'Used',
+  images: ['/uploads/t14.webp'],
+  specs: { processor: 'Core i5-1135G7', ram: '16GB', storage: '512GB SSD', display: '14"', battery: 'Good' },
+  description: 'A business laptop.',
+  stock: 2,
+  availability: 'in_stock',
+  featured: true,
+  newArrival: false,
+};
+
+const csv = (text: string) => Buffer.from(text, 'utf8');
+
+describe('planCatalogImport', () => {
+  it('creates a row without an id, with the brand under its canonical name', () => {
+    const plan = planCatalogImport(
+      csv('name,brand,price,condition,cpu,ram,storage,display,battery,description,photos\nEliteBook 840,hp,"PKR 95,000",used,Core i7-8650U,8GB,256GB SSD,14 inch,Fair,Clean unit.,front.JPG\n'),
+      [],
+      new Map([['front.jpg', Buffer.from('jpeg')]]),
+      brands
+    );
+
+    expect(plan.summary).toEqual({ create: 1, update: 0, error: 0 });
+    expect(plan.rows[0].input).toMatchObject({
+      name: 'EliteBook 840',
+      brand: 'HP',
+      price: 95000,
+      condition: 'Used',
+      specs: { processor: 'Core i7-8650U' },
+      images: ['zip:front.JPG'],
+      stock: 1,
+      availability: 'in_stock',
+    });
+  });
+
+  it('updates only the columns the sheet includes', () => {
+    const plan = planCatalogImport(csv('id,price\nprod_1,140000\n'), [thinkpad], new Map(), brands);
+
+    expect(plan.rows[0]).toMatchObject({ action: 'update', productId: 'prod_1' });
+    expect(plan.rows[0].changes).toEqual([{ field: 'price', before: 150000, after: 140000 }]);
+    expect(plan.rows[0].input).toMatchObject({ name: 'ThinkPad T14', images: ['/uploads/t14.webp'], stock: 2, featured: true });
+  });
+
+  it('reports every problem with a row instead of importing it', () => {
+    const plan = planCatalogImport(
+      csv('id,name,brand,price,condition,images\nprod_404,Latitude,Dell,abc,Used,missing.jpg\n'),
+      [thinkpad],
+      new Map(),
+      brands
+    );
+
+    expect(plan.summary).toEqual({ create: 0, update: 0, error: 1 });
+    expect(plan.rows[0].errors).toEqual(expect.arrayContaining([
+      'No product with id "prod_404"; leave the id empty to create a new one.',
+      'Image "missing.jpg" is not in the images zip.',
+      'Unknown brand "Dell"; add it on the Brands page first.',
+    ]));
+    expect(plan.rows[0].input).toBeUndefined();
+  });
+
+  it('reads back its own CSV export unchanged, formula-like text included', () => {
+    const product = { ...thinkpad, description: '=1+2 is not a formula here' };
+    const exported = exportCatalog([product], 'csv').data;
+
+    const plan = planCatalogImport(exported, [product], new Map(), brands);
+
+    expect(exported.toString()).toContain("'=1+2");
+    expect(plan.rows[0]).toMatchObject({ action: 'update', changes: [] });
+    expect(plan.rows[0].input?.description).toBe('=1+2 is not a formula here');
+  });
+});
+
+describe('readImagesZip', () => {
+  it('keys photos by lower-case file name and skips everything else', async () => {
+    const zip = new JSZip();
+    zip.file('photos/Front.JPG', 'front');
+    zip.file('__MACOSX/photos/._Front.JPG', 'resource fork');
+    zip.file('notes.txt', 'not a photo');
+
+    const images = await readImagesZip(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    expect([...images.keys()]).toEqual(['front.jpg']);
+    expect(images.get('front.jpg')?.toString()).toBe('front');
+  });
+
+  it('refuses a photo that unpacks past the size limit', async () => {
+    const zip = new JSZip();
+    zip.file('huge.png', Buffer.alloc(16 * 1024 * 1024));
+
+    const file = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+    expect(file.length).toBeLessThan(1024 * 1024);
+    await expect(readImagesZip(file)).rejects.toThrow('"huge.png" in the images zip is larger than 15 MB.');
+  });
+
+  it('refuses a zip with too many photos', async () => {
+    const zip = new JSZip();
+    for (let index = 0; index <= 300; index++) zip.file(`${index}.webp`, '');
+
+    await expect(readImagesZip(await zip.generateAsync({ type: 'nodebuffer' }))).rejects.toThrow('import at most 300 at a time');
+  });
+});
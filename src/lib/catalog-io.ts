@@ -0,0 +1,283 @@
+import path from 'path';
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import type { Brand, Product, ProductInput } from '@/lib/types';
+import { productSchema } from '@/lib/schemas';
+import { diffFields, type FieldChange } from '@/lib/diff';
+import { findBrand } from '@/lib/brands';
+import { escapeSpreadsheetRow, unescapeSpreadsheetCell } from '@/lib/spreadsheet';
+
+// Spreadsheet import/export of the catalog. One row per product; specs are
+// flattened into their own columns and images are a `;`-separated list of
+// either existing URLs or file names inside the companion zip.
+
+export const CATALOG_COLUMNS = [
+  'id',
+  'name',
+  'brand',
+  'price',
+  'condition',
+  'processor',
+  'ram',
+  'storage',
+  'display',
+  'battery',
+  'description',
+  'stock',
+  'availability',
+  'featured',
+  'newArrival',
+  'images',
+] as const;
+
+type CatalogColumn = (typeof CATALOG_COLUMNS)[number];
+type CatalogRow = Partial<Record<CatalogColumn, string>>;
+
+export type CatalogFormat = 'csv' | 'xlsx';
+
+// Header spellings people actually use in their sheets.
+const HEADER_ALIASES: Record<string, CatalogColumn> = {
+  'specs.processor': 'processor',
+  cpu: 'processor',
+  'specs.ram': 'ram',
+  memory: 'ram',
+  'specs.storage': 'storage',
+  ssd: 'storage',
+  'specs.display': 'display',
+  screen: 'display',
+  'specs.battery': 'battery',
+  quantity: 'stock',
+  qty: 'stock',
+  status: 'availability',
+  'new arrival': 'newArrival',
+  newarrival: 'newArrival',
+  photos: 'images',
+  image: 'images',
+};
+
+function normalizeHeader(header: string): CatalogColumn | null {
+  const key = header.trim().toLowerCase();
+  const column = CATALOG_COLUMNS.find(name => name.toLowerCase() === key);
+  return column ?? HEADER_ALIASES[key] ?? null;
+}
+
+export function exportCatalog(products: Product[], format: CatalogFormat): { fileName: string; mimeType: string; data: Buffer } {
+  const rows = products.map(product => ({
+    id: product.id,
+    name: product.name,
+    brand: product.brand,
+    price: product.price,
+    condition: product.condition,
+    ...product.specs,
+    description: product.description,
+    stock: product.stock,
+    availability: product.availability,
+    featured: product.featured ? 'yes' : 'no',
+    newArrival: product.newArrival ? 'yes' : 'no',
+    images: product.images.join(';'),
+  }));
+
+  // XLSX cells are typed, so text is never read as a formula; CSV has no types.
+  const sheet = XLSX.utils.json_to_sheet(format === 'csv' ? rows.map(escapeSpreadsheetRow) : rows, { header: [...CATALOG_COLUMNS] });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Catalog');
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  const data: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: format });
+  return {
+    fileName: `lapzen-catalog-${stamp}.${format}`,
+    mimeType: format === 'csv' ? 'text/csv' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    data,
+  };
+}
+
+function readRows(file: Buffer): CatalogRow[] {
+  // raw: keep CSV cells as text, otherwise values like "10/10" are read as dates.
+  const workbook = XLSX.read(file, { type: 'buffer', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const raw = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false });
+  return raw.map(record => {
+    const row: CatalogRow = {};
+    for (const [header, value] of Object.entries(record)) {
+      const column = normalizeHeader(header);
+      if (column) row[column] = unescapeSpreadsheetCell(String(value ?? '').trim());
+    }
+    return row;
+  });
+}
+
+const parseBoolean = (value?: string) => ['yes', 'y', 'true', '1'].includes((value ?? '').toLowerCase());
+const parsePrice = (value?: string) => (value ? Number(value.replace(/[^\d.]/g, '')) : NaN);
+
+function capitalize(value?: string) {
+  const lower = (value ?? '').toLowerCase();
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+}
+
+// Accepts the stored value or the label shown in the admin ("In Stock", "Sold Out").
+function parseAvailability(value?: string) {
+  const key = (value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return key === 'sold_out' ? 'sold' : key;
+}
+
+const isUrl = (value: string) => value.startsWith('/') || /^https?:\/\//.test(value);
+
+export type ImportRowPlan = {
+  row: number; // 1-based spreadsheet row, header excluded
+  action: 'create' | 'update' | 'error';
+  name: string;
+  productId?: string;
+  errors: string[];
+  changes: FieldChange[];
+  // Validated product fields; image entries not yet uploaded are `zip:<file name>`.
+  input?: ProductInput;
+};
+
+export type ImportPlan = {
+  rows: ImportRowPlan[];
+  summary: { create: number; update: number; error: number };
+};
+
+export type ZipImages = Map<string, Buffer>;
+
+// The zip itself is capped by the server action body limit, but a small zip can
+// unpack to far more than it weighs, so entries are counted and sizes are
+// checked while each one is unpacked rather than trusting the zip's headers.
+const ZIP_MAX_IMAGES = 300;
+const ZIP_MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const ZIP_MAX_TOTAL_BYTES = 150 * 1024 * 1024;
+const ZIP_IMAGE_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp']);
+
+function unpackEntry(entry: JSZip.JSZipObject, limit: number, tooLarge: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = entry.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.pause();
+        stream.removeAllListeners();
+        reject(new Error(tooLarge));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+export async function readImagesZip(file: Buffer): Promise<ZipImages> {
+  const zip = await JSZip.loadAsync(file);
+  // Only photos are unpacked; anything else in the zip is ignored.
+  const entries = Object.values(zip.files).filter(entry =>
+    !entry.dir && !entry.name.startsWith('__MACOSX/') && ZIP_IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+  );
+  if (entries.length > ZIP_MAX_IMAGES) {
+    throw new Error(`The images zip holds ${entries.length} photos; import at most ${ZIP_MAX_IMAGES} at a time.`);
+  }
+
+  const images: ZipImages = new Map();
+  let total = 0;
+  for (const entry of entries) {
+    const name = path.basename(entry.name);
+    const remaining = ZIP_MAX_TOTAL_BYTES - total;
+    const data = remaining < ZIP_MAX_IMAGE_BYTES
+      ? await unpackEntry(entry, remaining, `The photos in the images zip add up to more than ${ZIP_MAX_TOTAL_BYTES / 1024 / 1024} MB; split the import.`)
+      : await unpackEntry(entry, ZIP_MAX_IMAGE_BYTES, `"${name}" in the images zip is larger than ${ZIP_MAX_IMAGE_BYTES / 1024 / 1024} MB.`);
+    total += data.length;
+    // Matched by bare file name, whatever folder it sits in inside the zip.
+    images.set(name.toLowerCase(), data);
+  }
+  return images;
+}
+
+// Works out, without writing anything, what importing `file` would do. Brands
+// are matched to `brands` and stored under their canonical name.
+export function planCatalogImport(file: Buffer, existing: Product[], zipImages: ZipImages = new Map(), brands: Brand[] = []): ImportPlan {
+  const byId = new Map(existing.map(product => [product.id, product]));
+
+  const rows = readRows(file).map((row, index): ImportRowPlan => {
+    const errors: string[] = [];
+    const existingProduct = row.id ? byId.get(row.id) : undefined;
+    if (row.id && !existingProduct) {
+      errors.push(`No product with id "${row.id}"; leave the id empty to create a new one.`);
+    }
+
+    const imageTokens = (row.images ?? '').split(/[;\n]/).map(token => token.trim()).filter(Boolean);
+    const images = imageTokens.map(token => {
+      if (isUrl(token)) return token;
+      if (!zipImages.has(token.toLowerCase())) errors.push(`Image "${token}" is not in the images zip.`);
+      return `zip:${token}`;
+    });
+
+    const brand = row.brand ? findBrand(brands, row.brand) : undefined;
+    if (row.brand && !brand) {
+      errors.push(`Unknown brand "${row.brand}"; add it on the Brands page first.`);
+    }
+
+    // Columns the sheet leaves out keep an updated product's current values;
+    // new rows start from the defaults.
+    const candidate = {
+      name: row.name ?? existingProduct?.name ?? '',
+      brand: row.brand !== undefined ? brand?.name ?? row.brand : existingProduct?.brand ?? '',
+      price: row.price !== undefined ? parsePrice(row.price) : existingProduct?.price ?? NaN,
+      condition: row.condition !== undefined ? capitalize(row.condition) : existingProduct?.condition ?? '',
+      // An update without images keeps the current photos.
+      images: images.length === 0 && existingProduct ? existingProduct.images : images,
+      specs: {
+        processor: row.processor ?? existingProduct?.specs.processor ?? '',
+        ram: row.ram ?? existingProduct?.specs.ram ?? '',
+        storage: row.storage ?? existingProduct?.specs.storage ?? '',
+        display: row.display ?? existingProduct?.specs.display ?? '',
+        battery: row.battery ?? existingProduct?.specs.battery ?? '',
+      },
+      description: row.description ?? existingProduct?.description ?? '',
+      // Empty stock cells keep the current values too, or one unit in stock for new rows.
+      stock: row.stock ? Number(row.stock) : existingProduct?.stock ?? 1,
+      availability: row.availability ? parseAvailability(row.availability) : existingProduct?.availability ?? 'in_stock',
+      featured: row.featured !== undefined ? parseBoolean(row.featured) : existingProduct?.featured ?? false,
+      newArrival: row.newArrival !== undefined ? parseBoolean(row.newArrival) : existingProduct?.newArrival ?? false,
+    };
+
+    const validation = productSchema.safeParse(candidate);
+    if (!validation.success) {
+      for (const issue of validation.error.issues) {
+        errors.push(`${issue.path.join('.') || 'row'}: ${issue.message}`);
+      }
+    }
+
+    const base = { row: index + 1, name: candidate.name || '(no name)', productId: existingProduct?.id };
+    if (errors.length > 0 || !validation.success) {
+      return { ...base, action: 'error', errors, changes: [] };
+    }
+
+    // Variants are not part of the sheet; leaving the key out keeps an updated product's options.
+    const { variants, ...fields } = validation.data;
+    const input: ProductInput = { ...fields, imageVariants: existingProduct?.imageVariants };
+    return {
+      ...base,
+      action: existingProduct ? 'update' : 'create',
+      errors: [],
+      changes: existingProduct
+        ? diffFields(
+            { ...existingProduct, imageVariants: undefined },
+            { ...existingProduct, ...input, imageVariants: undefined }
+          ).filter(change => !['updatedAt', 'schemaVersion'].includes(change.field))
+        : [],
+      input,
+    };
+  });
+
+  return {
+    rows,
+    summary: {
+      create: rows.filter(row => row.action === 'create').length,
+      update: rows.filter(row => row.action === 'update').length,
+      error: rows.filter(row => row.action === 'error').length,
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import type { Category, Product } from '@/lib/types';
+
+// Helpers for the category tree and product tags, safe to use in the browser;
+// storage is in category-store.ts. Each category points at its parent, and a
+// product is listed under a single category by id, so renaming a category never
+// touches the products in it. Tags live on the products themselves.
+
+// Parents before children, siblings by sortOrder then name, with each category's
+// depth for indenting it in lists.
+export function categoryTree(categories: Category[]): (Category & { depth: number })[] {
+  const sorted = [...categories].sort((a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name));
+  const ids = new Set(categories.map(category => category.id));
+  const result: (Category & { depth: number })[] = [];
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const category of sorted) {
+      // A category whose parent was removed is shown at the top level.
+      const parent = category.parentId && ids.has(category.parentId) ? category.parentId : undefined;
+      if (parent !== parentId) continue;
+      result.push({ ...category, depth });
+      visit(category.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return result;
+}
+
+// The category and everything below it.
+export function descendantIds(categories: Category[], id: string): string[] {
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    categories.filter(category => category.parentId === ids[i]).forEach(category => ids.push(category.id));
+  }
+  return ids;
+}
+
+// Root first, ending with the category itself.
+export function categoryPath(categories: Category[], id: string): Category[] {
+  const path: Category[] = [];
+  let current = categories.find(category => category.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = categories.find(category => category.id === current!.parentId);
+  }
+  return path;
+}
+
+// Trims, lower-cases and de-duplicates tags as typed in the admin.
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map(tag => tag.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean);
+  return Array.from(new Set(normalized));
+}
+
+// Every tag in use, with how many products carry it, most used first.
+export function tagCounts(products: Product[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  products.forEach(product => product.tags?.forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
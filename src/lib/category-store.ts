@@ -0,0 +1,31 @@
+import path from 'path';
+import type { Category } from '@/lib/types';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+import { categoryTree } from '@/lib/categories';
+
+// The category tree, stored in data/categories.json.
+
+const categoriesFilePath = path.join(process.cwd(), 'data', 'categories.json');
+
+function seedCategory(id: string, name: string, sortOrder: number, parentId?: string): Category {
+  const now = new Date().toISOString();
+  return { id, name, slug: id, parentId, sortOrder, createdAt: now, updatedAt: now };
+}
+
+const DEFAULT_CATEGORIES: Category[] = [
+  seedCategory('laptops', 'Laptops', 0),
+  seedCategory('business', 'Business', 0, 'laptops'),
+  seedCategory('gaming', 'Gaming', 1, 'laptops'),
+  seedCategory('student', 'Student', 2, 'laptops'),
+  seedCategory('2-in-1', '2-in-1', 3, 'laptops'),
+  seedCategory('accessories', 'Accessories', 1),
+];
+
+// In tree order; see categoryTree.
+export async function getCategories(): Promise<(Category & { depth: number })[]> {
+  return categoryTree(await readJsonFile<Category[]>(categoriesFilePath, DEFAULT_CATEGORIES, Array.isArray));
+}
+
+export async function updateCategories(mutate: (categories: Category[]) => Category[]): Promise<Category[]> {
+  return updateJsonFile<Category[]>(categoriesFilePath, DEFAULT_CATEGORIES, mutate, Array.isArray);
+}
@@ -0,0 +1,18 @@
+// The address a request came from, as far as it can be trusted.
+//
+// X-Forwarded-For is a list the client starts and every proxy on the way
+// appends to, so only the entries added by our own proxies are reliable. Set
+// TRUSTED_PROXY_HOPS to the number of reverse proxies in front of the app; the
+// client is then the entry that many places from the right, and anything
+// further left is ignored. With no proxies configured the header is ignored
+// altogether, and since route handlers cannot see the socket address, the
+// client is unknown; logins are then throttled per username only.
+
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 0));
+
+export function clientIp(headers: Headers): string | undefined {
+  if (TRUSTED_PROXY_HOPS === 0) return undefined;
+  const hops = (headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+  if (hops.length === 0) return undefined;
+  return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)].slice(0, 64);
+}
@@ -0,0 +1,96 @@
+// Cross-site request forgery protection, shared by the middleware (Edge runtime)
+// and the browser, so only Web APIs are used here.
+//
+// Two checks, both applied by the middleware:
+// - Every state-changing request (route handler POSTs and server actions) must
+//   come from one of our own origins, judged by its Origin header, or Referer
+//   when a browser sends no Origin.
+// - Route handlers also need a double-submit token: the middleware hands out a
+//   random token in a cookie that pages on our origin can read, and requests
+//   must echo it in the X-CSRF-Token header. Another site can make the browser
+//   send the cookie but cannot read it to copy into the header.
+
+export const CSRF_COOKIE_NAME = 'lapzen_csrf';
+export const CSRF_HEADER_NAME = 'x-csrf-token';
+
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+export function isSafeMethod(method: string) {
+  return SAFE_METHODS.has(method.toUpperCase());
+}
+
+export function generateCsrfToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function csrfCookieOptions() {
+  return {
+    // Read by our own pages to fill in the header, so not httpOnly.
+    httpOnly: false,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict' as const,
+    path: '/',
+  };
+}
+
+// The origins requests may come from: the one the request was addressed to,
+// as seen directly or through a proxy, plus any listed in ALLOWED_ORIGINS.
+export function allowedOrigins(request: Request & { nextUrl?: URL }) {
+  const origins = new Set<string>();
+  const url = request.nextUrl ?? new URL(request.url);
+  origins.add(url.origin);
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  if (host) {
+    const proto = request.headers.get('x-forwarded-proto')?.split(',')[0].trim() ?? url.protocol.replace(':', '');
+    origins.add(`${proto}://${host.split(',')[0].trim()}`);
+  }
+  for (const origin of (process.env.ALLOWED_ORIGINS ?? '').split(',')) {
+    if (origin.trim()) origins.add(origin.trim().replace(/\/$/, ''));
+  }
+  return origins;
+}
+
+// The origin a request says it comes from, or null when it names none.
+export function requestOrigin(request: Request): string | null {
+  const origin = request.headers.get('origin');
+  if (origin && origin !== 'null') return origin;
+  if (origin === 'null') return 'null';
+  const referer = request.headers.get('referer');
+  if (!referer) return null;
+  try {
+    return new URL(referer).origin;
+  } catch {
+    return 'null';
+  }
+}
+
+// Whether a state-changing request comes from our own pages. A request naming
+// no origin at all is refused: browsers always send Origin on cross-site POSTs,
+// so only non-browser clients omit both headers.
+export function isSameOrigin(request: Request & { nextUrl?: URL }) {
+  const origin = requestOrigin(request);
+  return origin !== null && allowedOrigins(request).has(origin);
+}
+
+// Compares without leaking, through timing, how much of the two tokens matched.
+function tokensMatch(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+}
+
+export function hasValidCsrfToken(request: Request, cookieValue: string | undefined) {
+  const header = request.headers.get(CSRF_HEADER_NAME);
+  return Boolean(cookieValue && header && tokensMatch(cookieValue, header));
+}
+
+// For fetch calls from our pages: the header carrying the token from the cookie.
+export function csrfHeaders(): Record<string, string> {
+  if (typeof document === 'undefined') return {};
+  const cookie = document.cookie.split('; ').find(entry => entry.startsWith(`${CSRF_COOKIE_NAME}=`));
+  return cookie ? { [CSRF_HEADER_NAME]: decodeURIComponent(cookie.slice(CSRF_COOKIE_NAME.length + 1)) } : {};
+}
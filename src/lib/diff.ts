@@ -0,0 +1,28 @@
+export type FieldChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Field-level diff between two records. Nested objects (e.g. specs) are reported
+// per key as `specs.ram`; arrays and scalars are compared as a whole.
+export function diffFields(before: object, after: object, prefix = ''): FieldChange[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+  const changes: FieldChange[] = [];
+
+  for (const key of keys) {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(a[key]) && isPlainObject(b[key])) {
+      changes.push(...diffFields(a[key] as object, b[key] as object, field));
+    } else if (JSON.stringify(a[key]) !== JSON.stringify(b[key])) {
+      changes.push({ field, before: a[key], after: b[key] });
+    }
+  }
+
+  return changes;
+}
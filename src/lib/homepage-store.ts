@@ -0,0 +1,38 @@
+import path from 'path';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+import type { HomepageConfig } from '@/lib/homepage';
+
+// The home page configuration, stored in data/homepage.json.
+
+const homepageFilePath = path.join(process.cwd(), 'data', 'homepage.json');
+
+// The layout the home page had before it was configurable.
+const DEFAULT_HOMEPAGE: HomepageConfig = {
+  banners: [
+    {
+      id: 'banner_default',
+      headline: 'Find Your *Perfect* Laptop',
+      subheadline: "Discover top-tier new and pre-loved laptops from the world's leading brands. Unmatched quality, unbeatable prices.",
+      ctaLabel: 'Shop All Laptops',
+      ctaHref: '/products',
+      enabled: true,
+    },
+  ],
+  sections: [
+    { id: 'section_brands', type: 'brands', title: 'Popular Brands', subtitle: 'Shop laptops from the names you trust', enabled: true, limit: 8 },
+    { id: 'section_featured', type: 'featured', title: 'Featured Laptops', subtitle: 'Handpicked for performance and value', enabled: true, limit: 3 },
+    { id: 'section_new_arrivals', type: 'new-arrivals', title: 'New Arrivals', subtitle: 'Check out the latest additions to our collection', enabled: true, limit: 3 },
+    { id: 'section_all', type: 'all-products', title: 'All Our Laptops', subtitle: 'Browse the complete collection', enabled: true },
+  ],
+};
+
+const isHomepageConfig = (value: unknown) =>
+  typeof value === 'object' && value !== null && Array.isArray((value as HomepageConfig).banners) && Array.isArray((value as HomepageConfig).sections);
+
+export async function getHomepageConfig(): Promise<HomepageConfig> {
+  return readJsonFile<HomepageConfig>(homepageFilePath, DEFAULT_HOMEPAGE, isHomepageConfig);
+}
+
+export async function updateHomepageConfig(mutate: (config: HomepageConfig) => HomepageConfig): Promise<HomepageConfig> {
+  return updateJsonFile<HomepageConfig>(homepageFilePath, DEFAULT_HOMEPAGE, mutate, isHomepageConfig);
+}
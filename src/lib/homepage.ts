@@ -0,0 +1,72 @@
+import type { ProcessedImage } from '@/lib/types';
+
+// What the home page shows, edited from /admin/homepage: the hero banners and an
+// ordered list of sections. Storage lives in homepage-store.ts so the admin
+// client components can use these types and helpers.
+
+export type HeroBanner = {
+  id: string;
+  // Words wrapped in *asterisks* are shown in the accent colour.
+  headline: string;
+  subheadline?: string;
+  image?: string;
+  imageVariants?: Record<string, ProcessedImage>;
+  ctaLabel: string;
+  ctaHref: string;
+  enabled: boolean;
+  // Optional schedule; either end may be left open.
+  startsAt?: string;
+  endsAt?: string;
+};
+
+export type HomepageSectionType = 'featured' | 'new-arrivals' | 'brands' | 'price-band' | 'product-list' | 'all-products';
+
+export type HomepageSection = {
+  id: string;
+  type: HomepageSectionType;
+  title: string;
+  subtitle?: string;
+  enabled: boolean;
+  // Maximum products shown; unset shows everything that matches.
+  limit?: number;
+  // 'price-band' only.
+  minPrice?: number;
+  maxPrice?: number;
+  // 'product-list' only, in display order.
+  productIds?: string[];
+};
+
+export type HomepageConfig = {
+  banners: HeroBanner[];
+  sections: HomepageSection[];
+};
+
+export const SECTION_TYPE_LABELS: Record<HomepageSectionType, string> = {
+  featured: 'Featured products',
+  'new-arrivals': 'New arrivals',
+  brands: 'Brand strip',
+  'price-band': 'Price band',
+  'product-list': 'Hand-picked products',
+  'all-products': 'All products',
+};
+
+export function createHomepageId(prefix: 'banner' | 'section') {
+  return `${prefix}_${Date.now()}_${Math.round(Math.random() * 1e6)}`;
+}
+
+export function isBannerLive(banner: HeroBanner, now = new Date()) {
+  if (!banner.enabled) return false;
+  if (banner.startsAt && new Date(banner.startsAt) > now) return false;
+  if (banner.endsAt && new Date(banner.endsAt) <= now) return false;
+  return true;
+}
+
+// Splits "Find Your *Perfect* Laptop" into plain and highlighted runs.
+export function headlineParts(headline: string): { text: string; highlight: boolean }[] {
+  return headline
+    .split(/(\*[^*]+\*)/)
+    .filter(Boolean)
+    .map(part => (part.startsWith('*') && part.endsWith('*') && part.length > 2
+      ? { text: part.slice(1, -1), highlight: true }
+      : { text: part, highlight: false }));
+}
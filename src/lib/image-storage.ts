@@ -0,0 +1,73 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Where uploaded product images end up. Only the local-disk adapter exists today;
+// another backend (S3, a CDN bucket...) only has to implement this interface.
+export interface ImageStorage {
+  // Stores the file under `fileName` and returns the public URL to reference it by.
+  save(fileName: string, data: Buffer): Promise<string>;
+  // Removes a file by its public URL. Missing files are ignored.
+  delete(url: string): Promise<void>;
+  exists(url: string): Promise<boolean>;
+}
+
+// Kept outside public/: `next start` only serves the public files that existed
+// at build time, so uploads are served by app/uploads/[...path] instead.
+export const uploadsDir = path.resolve(process.env.UPLOADS_DIR || path.join(process.cwd(), 'data', 'uploads'));
+const UPLOADS_URL_PREFIX = '/uploads/';
+
+// The file for a path inside the uploads folder, or null if the path would
+// escape it (`..`, absolute paths, NUL bytes).
+export function resolveUploadPath(relativePath: string): string | null {
+  if (relativePath.includes('\0')) return null;
+  const filePath = path.resolve(uploadsDir, relativePath);
+  return filePath.startsWith(uploadsDir + path.sep) ? filePath : null;
+}
+
+// Maps a /uploads/... URL to its file on disk, or null for anything else
+// (remote URLs, paths that try to escape the uploads folder).
+export function localUploadPath(url: string): string | null {
+  if (!url.startsWith(UPLOADS_URL_PREFIX)) return null;
+  try {
+    return resolveUploadPath(decodeURIComponent(url.slice(UPLOADS_URL_PREFIX.length)));
+  } catch {
+    return null; // Malformed percent-encoding.
+  }
+}
+
+export function createLocalImageStorage(): ImageStorage {
+  return {
+    async save(fileName, data) {
+      await fs.mkdir(uploadsDir, { recursive: true });
+      await fs.writeFile(path.join(uploadsDir, fileName), data);
+      return `${UPLOADS_URL_PREFIX}${fileName}`;
+    },
+
+    async delete(url) {
+      const filePath = localUploadPath(url);
+      if (!filePath) {
+        console.warn(`Not deleting ${url}: it is not a local upload.`);
+        return;
+      }
+      await fs.rm(filePath, { force: true });
+    },
+
+    async exists(url) {
+      const filePath = localUploadPath(url);
+      if (!filePath) return false;
+      try {
+        await fs.access(filePath);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
+
+let storage: ImageStorage | null = null;
+
+export function getImageStorage(): ImageStorage {
+  storage ??= createLocalImageStorage();
+  return storage;
+}
@@ -0,0 +1,89 @@
+import sharp from 'sharp';
+import type { ImageVariantSize, Product, ProcessedImage } from '@/lib/types';
+import { getImageStorage } from '@/lib/image-storage';
+
+// Every upload is stored as three sizes, each in AVIF and WebP. Re-encoding with
+// sharp drops all metadata (EXIF, GPS, camera serials) unless asked to keep it;
+// the orientation tag is applied to the pixels first so photos stay upright.
+export const IMAGE_VARIANT_WIDTHS: Record<ImageVariantSize, number> = {
+  thumb: 320,
+  card: 800,
+  full: 1600,
+};
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+export function decodeImageDataUri(dataUri: string): Buffer {
+  const matches = dataUri.match(/^data:(image\/[a-z]+);base64,(.*)$/);
+  if (!matches || !ACCEPTED_IMAGE_TYPES.includes(matches[1])) {
+    throw new Error('Invalid data URI format');
+  }
+  return Buffer.from(matches[2], 'base64');
+}
+
+export async function processProductImage(input: Buffer, productId: string): Promise<{ url: string; image: ProcessedImage }> {
+  return processImage(input, `product-${productId.replace(/^prod_/, '')}`);
+}
+
+// The same pipeline for images that do not belong to a product, e.g. home page banners.
+export async function processImage(input: Buffer, prefix: string): Promise<{ url: string; image: ProcessedImage }> {
+  const storage = getImageStorage();
+  const baseName = `${prefix}-${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+  const oriented = await sharp(input).rotate().toBuffer();
+  const { width = 0, height = 0 } = await sharp(oriented).metadata();
+
+  const variants = {} as ProcessedImage['variants'];
+  for (const size of Object.keys(IMAGE_VARIANT_WIDTHS) as ImageVariantSize[]) {
+    const resized = sharp(oriented).resize({ width: IMAGE_VARIANT_WIDTHS[size], withoutEnlargement: true });
+    const [avif, webp] = await Promise.all([
+      resized.clone().avif({ quality: 50 }).toBuffer({ resolveWithObject: true }),
+      resized.clone().webp({ quality: 75 }).toBuffer({ resolveWithObject: true }),
+    ]);
+    variants[size] = {
+      width: webp.info.width,
+      avif: await storage.save(`${baseName}-${size}.avif`, avif.data),
+      webp: await storage.save(`${baseName}-${size}.webp`, webp.data),
+    };
+  }
+
+  // The full-size WebP is what goes into Product.images.
+  return { url: variants.full.webp, image: { width, height, variants } };
+}
+
+// Brand logos are small and usually have transparency, so a single WebP that
+// fits in 256x128 is enough.
+export async function processBrandLogo(input: Buffer, slug: string): Promise<string> {
+  const logo = await sharp(input)
+    .rotate()
+    .resize({ width: 256, height: 128, fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: 90, alphaQuality: 100 })
+    .toBuffer();
+  return getImageStorage().save(`brand-${slug}-${Date.now()}.webp`, logo);
+}
+
+// All files that belong to a product's images, variants included.
+// Every file a product points at, including the photos of its individual units.
+export function productImageFiles(product: Pick<Product, 'images' | 'imageVariants'> & Pick<Partial<Product>, 'units'>): string[] {
+  const files = new Set(product.images ?? []);
+  for (const owner of [product, ...(product.units ?? [])]) {
+    (owner.images ?? []).forEach(url => files.add(url));
+    for (const image of Object.values(owner.imageVariants ?? {})) {
+      for (const variant of Object.values(image.variants)) {
+        files.add(variant.avif);
+        files.add(variant.webp);
+      }
+    }
+  }
+  return Array.from(files);
+}
+
+export async function deleteProductImages(product: Pick<Product, 'images' | 'imageVariants'> & Pick<Partial<Product>, 'units'>) {
+  const storage = getImageStorage();
+  for (const url of productImageFiles(product)) {
+    try {
+      await storage.delete(url);
+    } catch (error) {
+      console.error(`Failed to delete image: ${url}`, error);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { readJsonFile, updateJsonFile, writeJsonFile } from './json-store';
+
+const dataDir = path.join(process.cwd(), 'data');
+const filePath = path.join(dataDir, 'things.json');
+const backupsDir = path.join(dataDir, 'backups');
+
+beforeEach(() => {
+  fs.rmSync(dataDir, { recursive: true, force: true });
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+describe('readJsonFile', () => {
+  it('creates a missing file with the default value', async () => {
+    expect(await readJsonFile(filePath, ['seed'], Array.isArray)).toEqual(['seed']);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual(['seed']);
+  });
+
+  it('restores the newest good snapshot when the file was cut short by a crash', async () => {
+    await writeJsonFile(filePath, ['first'], Array.isArray);
+    await writeJsonFile(filePath, ['first', 'second'], Array.isArray);
+    fs.writeFileSync(filePath, '["first", "sec');
+
+    expect(await readJsonFile(filePath, [], Array.isArray)).toEqual(['first']);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual(['first']);
+    const kept = fs.readdirSync(dataDir).filter(name => name.startsWith('things.json.corrupt-'));
+    expect(kept).toHaveLength(1);
+    expect(fs.readFileSync(path.join(dataDir, kept[0]), 'utf-8')).toBe('["first", "sec');
+  });
+
+  it('treats a file that parses but fails validation as corrupt', async () => {
+    await writeJsonFile(filePath, ['first'], Array.isArray);
+    await writeJsonFile(filePath, ['first', 'second'], Array.isArray);
+    fs.writeFileSync(filePath, '{"not": "a list"}');
+
+    expect(await readJsonFile(filePath, [], Array.isArray)).toEqual(['first']);
+  });
+
+  it('skips snapshots that are themselves unreadable', async () => {
+    await writeJsonFile(filePath, ['first'], Array.isArray);
+    await writeJsonFile(filePath, ['first', 'second'], Array.isArray);
+    fs.writeFileSync(path.join(backupsDir, 'things-9999-newest.json'), 'garbage');
+    fs.writeFileSync(filePath, '');
+
+    expect(await readJsonFile(filePath, [], Array.isArray)).toEqual(['first']);
+  });
+
+  it('fails loudly instead of starting over when nothing can be recovered', async () => {
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(filePath, 'garbage');
+
+    await expect(readJsonFile(filePath, [], Array.isArray)).rejects.toThrow('things.json could not be parsed and no usable snapshot was found.');
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('garbage');
+  });
+});
+
+describe('writes', () => {
+  it('keep a limited number of snapshots and leave no temp files behind', async () => {
+    for (let index = 0; index < 8; index++) {
+      await writeJsonFile(filePath, [index], Array.isArray);
+      await new Promise(resolve => setTimeout(resolve, 2));
+    }
+
+    expect(fs.readdirSync(backupsDir)).toHaveLength(5);
+    expect(fs.readdirSync(dataDir).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8'))).toEqual([7]);
+  });
+
+  it('do not lose concurrent updates', async () => {
+    await Promise.all(
+      Array.from({ length: 20 }, (_, index) => updateJsonFile<number[]>(filePath, [], current => [...current, index], Array.isArray))
+    );
+
+    const saved: number[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    expect(saved.sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, index) => index));
+  });
+
+  it('leave the file alone when the update throws', async () => {
+    await writeJsonFile(filePath, ['kept'], Array.isArray);
+
+    await expect(updateJsonFile<string[]>(filePath, [], () => { throw new Error('nope'); }, Array.isArray)).rejects.toThrow('nope');
+    expect(await readJsonFile(filePath, [], Array.isArray)).toEqual(['kept']);
+  });
+});
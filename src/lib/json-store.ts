@@ -0,0 +1,164 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+// Shared persistence for the JSON files under data/.
+//
+// - Writes go to a temp file that is fsync'd and renamed over the target, so a
+//   crash mid-write leaves either the old or the new file, never half of one.
+// - Writes to the same file are serialised through an in-process lock, and
+//   updateJsonFile runs its read-modify-write inside that lock.
+// - Before each write the current (parseable) file is copied to data/backups,
+//   keeping the most recent SNAPSHOT_LIMIT copies.
+// - If a file no longer parses, the newest good snapshot is restored.
+
+const SNAPSHOT_LIMIT = Number(process.env.DATA_SNAPSHOT_LIMIT) || 5;
+
+type Validate = (value: unknown) => boolean;
+
+// Kept on globalThis so dev-mode module reloads still share one lock per file.
+const globalForLocks = globalThis as unknown as { __lapzenFileLocks?: Map<string, Promise<unknown>> };
+const locks = (globalForLocks.__lapzenFileLocks ??= new Map());
+
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(filePath) ?? Promise.resolve();
+  const run = previous.then(task);
+  const tail = run.catch(() => undefined);
+  locks.set(filePath, tail);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(filePath) === tail) {
+      locks.delete(filePath);
+    }
+  }
+}
+
+function snapshotDir(filePath: string) {
+  return path.join(path.dirname(filePath), 'backups');
+}
+
+function snapshotPrefix(filePath: string) {
+  return `${path.basename(filePath, path.extname(filePath))}-`;
+}
+
+async function listSnapshots(filePath: string): Promise<string[]> {
+  try {
+    const prefix = snapshotPrefix(filePath);
+    const entries = await fs.readdir(snapshotDir(filePath));
+    return entries
+      .filter(name => name.startsWith(prefix) && name.endsWith('.json'))
+      .sort()
+      .reverse()
+      .map(name => path.join(snapshotDir(filePath), name));
+  } catch {
+    return [];
+  }
+}
+
+function parse(json: string, validate?: Validate): { ok: true; value: unknown } | { ok: false } {
+  try {
+    const value = JSON.parse(json);
+    if (validate && !validate(value)) return { ok: false };
+    return { ok: true, value };
+  } catch {
+    return { ok: false };
+  }
+}
+
+async function writeAtomic(filePath: string, contents: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(contents, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+async function snapshot(filePath: string, validate?: Validate) {
+  let current: string;
+  try {
+    current = await fs.readFile(filePath, 'utf-8');
+  } catch {
+    return; // Nothing written yet.
+  }
+  // Only a file that still parses is worth keeping as "last known good".
+  if (!parse(current, validate).ok) return;
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  await fs.mkdir(snapshotDir(filePath), { recursive: true });
+  await fs.writeFile(path.join(snapshotDir(filePath), `${snapshotPrefix(filePath)}${stamp}.json`), current, 'utf-8');
+
+  const stale = (await listSnapshots(filePath)).slice(SNAPSHOT_LIMIT);
+  await Promise.all(stale.map(file => fs.rm(file, { force: true })));
+}
+
+async function recover<T>(filePath: string, corrupt: string, validate?: Validate): Promise<T> {
+  for (const snapshotPath of await listSnapshots(filePath)) {
+    const contents = await fs.readFile(snapshotPath, 'utf-8');
+    const parsed = parse(contents, validate);
+    if (!parsed.ok) continue;
+
+    // Keep the broken file around for inspection before replacing it.
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    await fs.writeFile(`${filePath}.corrupt-${stamp}`, corrupt, 'utf-8');
+    await writeAtomic(filePath, contents);
+    console.warn(`Recovered ${path.basename(filePath)} from snapshot ${path.basename(snapshotPath)}.`);
+    return parsed.value as T;
+  }
+  throw new Error(`${path.basename(filePath)} could not be parsed and no usable snapshot was found.`);
+}
+
+async function readUnlocked<T>(filePath: string, defaultValue: T, validate?: Validate): Promise<T> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    await writeAtomic(filePath, JSON.stringify(defaultValue, null, 2));
+    return structuredClone(defaultValue);
+  }
+
+  const parsed = parse(contents, validate);
+  if (parsed.ok) return parsed.value as T;
+
+  console.error(`${path.basename(filePath)} is unreadable, attempting recovery from snapshots.`);
+  return recover<T>(filePath, contents, validate);
+}
+
+// Reads a JSON file, creating it with defaultValue when missing and restoring
+// the latest snapshot when it is corrupt.
+export function readJsonFile<T>(filePath: string, defaultValue: T, validate?: Validate): Promise<T> {
+  return withFileLock(filePath, () => readUnlocked(filePath, defaultValue, validate));
+}
+
+export function writeJsonFile<T>(filePath: string, value: T, validate?: Validate): Promise<void> {
+  return withFileLock(filePath, async () => {
+    await snapshot(filePath, validate);
+    await writeAtomic(filePath, JSON.stringify(value, null, 2));
+  });
+}
+
+// Read-modify-write under the file lock, so concurrent updates cannot overwrite each other.
+export function updateJsonFile<T>(
+  filePath: string,
+  defaultValue: T,
+  mutate: (current: T) => T | Promise<T>,
+  validate?: Validate
+): Promise<T> {
+  return withFileLock(filePath, async () => {
+    const current = await readUnlocked(filePath, defaultValue, validate);
+    const next = await mutate(current);
+    await snapshot(filePath, validate);
+    await writeAtomic(filePath, JSON.stringify(next, null, 2));
+    return next;
+  });
+}
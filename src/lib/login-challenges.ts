@@ -0,0 +1,60 @@
+import crypto from 'crypto';
+import path from 'path';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+
+// Logins waiting for their two-factor code, stored in data/login-challenges.json.
+// After the password is accepted the browser gets a random challenge id, and
+// only that id plus a valid code turns into a session.
+
+const challengesFilePath = path.join(process.cwd(), 'data', 'login-challenges.json');
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// Wrong codes allowed before the password has to be entered again.
+const CHALLENGE_MAX_ATTEMPTS = 5;
+
+type LoginChallenge = {
+  // SHA-256 of the id handed to the browser.
+  idHash: string;
+  userId: string;
+  attempts: number;
+  createdAt: string;
+};
+
+const hashId = (id: string) => crypto.createHash('sha256').update(id).digest('hex');
+
+function isLive(challenge: LoginChallenge, now = Date.now()) {
+  return Date.parse(challenge.createdAt) + CHALLENGE_TTL_MS > now && challenge.attempts < CHALLENGE_MAX_ATTEMPTS;
+}
+
+async function updateChallenges(mutate: (challenges: LoginChallenge[]) => LoginChallenge[]) {
+  return updateJsonFile<LoginChallenge[]>(challengesFilePath, [], challenges => mutate(challenges.filter(challenge => isLive(challenge))), Array.isArray);
+}
+
+export async function createLoginChallenge(userId: string) {
+  const id = crypto.randomBytes(32).toString('base64url');
+  const challenge: LoginChallenge = { idHash: hashId(id), userId, attempts: 0, createdAt: new Date().toISOString() };
+  // One pending login per user; starting another replaces it.
+  await updateChallenges(challenges => [...challenges.filter(other => other.userId !== userId), challenge]);
+  return id;
+}
+
+// The user a live challenge belongs to, or null.
+export async function getLoginChallenge(id: string): Promise<{ userId: string } | null> {
+  const idHash = hashId(id);
+  const challenges = await readJsonFile<LoginChallenge[]>(challengesFilePath, [], Array.isArray);
+  const found = challenges.find(challenge => challenge.idHash === idHash && isLive(challenge));
+  return found ? { userId: found.userId } : null;
+}
+
+// Counts a wrong code; the challenge is dropped once it runs out of attempts.
+export async function recordChallengeFailure(id: string) {
+  const idHash = hashId(id);
+  await updateChallenges(challenges =>
+    challenges.map(challenge => (challenge.idHash === idHash ? { ...challenge, attempts: challenge.attempts + 1 } : challenge))
+  );
+}
+
+export async function completeLoginChallenge(id: string) {
+  const idHash = hashId(id);
+  await updateChallenges(challenges => challenges.filter(challenge => challenge.idHash !== idHash));
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { createSession } from '@/lib/sessions';
+import { SESSION_COOKIE_NAME, sessionCookieOptions } from '@/lib/session-token';
+import { clearLoginFailures, recordLoginFailure, type LoginBlock } from '@/lib/login-throttle';
+import { recordSecurityEvent } from '@/lib/security-log';
+import { recordAudit } from '@/lib/audit-log';
+import { clientIp } from '@/lib/client-ip';
+import type { AdminUser } from '@/lib/users';
+
+// Responses shared by the two steps of logging in: the password (/api/login)
+// and, for users with two-factor login, the code (/api/login/verify).
+
+export type LoginClient = { userAgent?: string; ip?: string };
+
+// Tell the user how many tries remain once they are down to this many.
+const ATTEMPTS_WARNING = 3;
+
+export function loginClient(request: Request): LoginClient {
+  return {
+    userAgent: request.headers.get('user-agent') ?? undefined,
+    ip: clientIp(request.headers),
+  };
+}
+
+export function blockedResponse(block: LoginBlock) {
+  const retryAfter = Math.max(1, Math.ceil((block.until - Date.now()) / 1000));
+  const message = block.locked
+    ? 'Too many failed login attempts. Login is locked for now.'
+    : 'Too many failed login attempts. Please wait before trying again.';
+  return NextResponse.json(
+    { message, locked: block.locked, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+// Counts the failure towards backoff and lockout, logs it and builds the reply.
+export async function failedLoginResponse(username: string, client: LoginClient, message: string, detail?: string) {
+  const { block, attemptsLeft } = await recordLoginFailure(client.ip, username);
+  await recordSecurityEvent({ type: 'login_failure', username, ...client, detail });
+  await recordAudit({ actor: 'anonymous', attemptedUsername: username, ...client, action: 'auth.login_failed', summary: detail ? `Failed login: ${detail}` : 'Failed login' });
+  if (block?.locked) {
+    await recordSecurityEvent({ type: 'lockout', username, ...client, detail: `${block.scope} locked until ${new Date(block.until).toISOString()}` });
+    await recordAudit({ actor: 'anonymous', attemptedUsername: username, ...client, action: 'auth.lockout', summary: `Login locked for the ${block.scope === 'ip' ? 'IP address' : 'username'} until ${new Date(block.until).toISOString()}` });
+    return blockedResponse(block);
+  }
+  return NextResponse.json(
+    {
+      message,
+      ...(attemptsLeft <= ATTEMPTS_WARNING ? { attemptsLeft } : {}),
+      ...(block ? { retryAfter: Math.ceil((block.until - Date.now()) / 1000) } : {}),
+    },
+    { status: 401 }
+  );
+}
+
+// Issues the session cookie for a user who has passed every step.
+export async function successfulLoginResponse(user: AdminUser, client: LoginClient, detail?: string) {
+  await clearLoginFailures(user.username);
+  await recordSecurityEvent({ type: 'login_success', username: user.username, ...client, detail });
+  await recordAudit({ actor: user.username, actorId: user.id, ...client, action: 'auth.login', summary: detail ? `Logged in (${detail})` : 'Logged in' });
+  const { token, exp } = await createSession(user, client);
+  const response = NextResponse.json({ message: 'Login successful' }, { status: 200 });
+  response.cookies.set(SESSION_COOKIE_NAME, token, sessionCookieOptions(exp));
+  return response;
+}
@@ -0,0 +1,191 @@
+import path from 'path';
+import { readJsonFile, updateJsonFile, withFileLock } from '@/lib/json-store';
+
+// Failed-login tracking, stored in data/login-attempts.json, keyed both by the
+// client's IP address (when known) and by the username tried. After a few free attempts each
+// further failure makes the key wait twice as long before the next try, and
+// enough failures lock it out; every lockout lasts twice as long as the last.
+// An IP gets more room than a username, since several people may share one.
+
+const attemptsFilePath = path.join(process.cwd(), 'data', 'login-attempts.json');
+
+type ThrottleScope = 'ip' | 'user';
+
+type ThrottlePolicy = {
+  // Failures allowed before any waiting.
+  freeAttempts: number;
+  // Wait after the first failure past the free ones; doubles with each failure.
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Failures in a row that lock the key out.
+  lockoutAfter: number;
+  lockoutMs: number;
+  maxLockoutMs: number;
+};
+
+const MINUTE = 60 * 1000;
+
+const POLICIES: Record<ThrottleScope, ThrottlePolicy> = {
+  user: { freeAttempts: 3, baseDelayMs: 2000, maxDelayMs: 5 * MINUTE, lockoutAfter: 8, lockoutMs: 15 * MINUTE, maxLockoutMs: 24 * 60 * MINUTE },
+  ip: { freeAttempts: 10, baseDelayMs: 1000, maxDelayMs: 5 * MINUTE, lockoutAfter: 30, lockoutMs: 30 * MINUTE, maxLockoutMs: 24 * 60 * MINUTE },
+};
+
+// Failures older than this are forgotten, along with past lockouts.
+const FAILURE_MEMORY_MS = 24 * 60 * MINUTE;
+
+// Keys kept at most. Usernames are whatever the caller types, so beyond this
+// the keys with the oldest failures are dropped, keeping those still blocked.
+const MAX_TRACKED_KEYS = Number(process.env.LOGIN_ATTEMPTS_LIMIT) || 5000;
+
+type AttemptRecord = {
+  failures: number;
+  // Lockouts so far, which sets how long the next one lasts.
+  lockouts: number;
+  lastFailureAt: string;
+  // No attempt is checked before this time.
+  blockedUntil?: string;
+  // Whether blockedUntil is a lockout rather than a backoff delay.
+  locked?: boolean;
+};
+
+type AttemptStore = Record<string, AttemptRecord>;
+
+export type LoginBlock = {
+  scope: ThrottleScope;
+  locked: boolean;
+  until: number;
+};
+
+export type LockoutSummary = {
+  key: string;
+  scope: ThrottleScope;
+  // The IP address or username.
+  subject: string;
+  until: string;
+};
+
+const isStore = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// When the client's address is not known (no trusted proxy, see client-ip.ts)
+// only the username is throttled: a shared key for every unknown client would
+// let anyone lock the whole site, owners included, out of the admin.
+function attemptKeys(ip: string | undefined, username: string): [ThrottleScope, string][] {
+  const keys: [ThrottleScope, string][] = [['user', `user:${username.trim().toLowerCase().slice(0, 100)}`]];
+  if (ip) keys.push(['ip', `ip:${ip}`]);
+  return keys;
+}
+
+function isForgotten(record: AttemptRecord, now: number) {
+  return Date.parse(record.lastFailureAt) + FAILURE_MEMORY_MS <= now && Date.parse(record.blockedUntil ?? '') <= now;
+}
+
+function activeBlock(scope: ThrottleScope, record: AttemptRecord | undefined, now: number): LoginBlock | null {
+  const until = Date.parse(record?.blockedUntil ?? '');
+  return until > now ? { scope, locked: Boolean(record?.locked), until } : null;
+}
+
+function prune(store: AttemptStore, now: number): AttemptStore {
+  const entries = Object.entries(store).filter(([, record]) => !isForgotten(record, now));
+  if (entries.length <= MAX_TRACKED_KEYS) return Object.fromEntries(entries);
+  const blocked = (record: AttemptRecord) => Date.parse(record.blockedUntil ?? '') > now;
+  entries.sort(([, a], [, b]) => Number(blocked(b)) - Number(blocked(a)) || b.lastFailureAt.localeCompare(a.lastFailureAt));
+  return Object.fromEntries(entries.slice(0, MAX_TRACKED_KEYS));
+}
+
+async function updateAttempts(mutate: (store: AttemptStore) => AttemptStore) {
+  const now = Date.now();
+  return updateJsonFile<AttemptStore>(attemptsFilePath, {}, store => prune(mutate(prune(store, now)), now), isStore);
+}
+
+// Runs one login attempt at a time per IP and per username: the block check,
+// the password or code check and the recording of the outcome all happen
+// before the next attempt for either key starts. Otherwise a burst of parallel
+// guesses would all pass the block check before any of them was counted.
+export function withLoginAttemptLock<T>(ip: string | undefined, username: string, attempt: () => Promise<T>): Promise<T> {
+  // Always taken in the same order, so two attempts cannot wait on each other.
+  const lockNames = attemptKeys(ip, username).map(([, key]) => `${attemptsFilePath}#${key}`).sort();
+  return lockNames.reduceRight<() => Promise<T>>((inner, name) => () => withFileLock(name, inner), attempt)();
+}
+
+// The longest wait currently imposed on this IP or username, if any.
+export async function getLoginBlock(ip: string | undefined, username: string): Promise<LoginBlock | null> {
+  const store = await readJsonFile<AttemptStore>(attemptsFilePath, {}, isStore);
+  const now = Date.now();
+  return attemptKeys(ip, username)
+    .map(([scope, key]) => activeBlock(scope, store[key], now))
+    .reduce<LoginBlock | null>((longest, block) => (block && (!longest || block.until > longest.until) ? block : longest), null);
+}
+
+// Counts a failed login against the IP and the username. Returns the wait it
+// causes, if any, and how many more failures are left before a lockout.
+export async function recordLoginFailure(ip: string | undefined, username: string) {
+  const now = Date.now();
+  let block: LoginBlock | null = null;
+  let attemptsLeft = Infinity;
+
+  await updateAttempts(store => {
+    const next = { ...store };
+    for (const [scope, key] of attemptKeys(ip, username)) {
+      const policy = POLICIES[scope];
+      const previous = next[key];
+      const failures = (previous?.failures ?? 0) + 1;
+      const record: AttemptRecord = { failures, lockouts: previous?.lockouts ?? 0, lastFailureAt: new Date(now).toISOString() };
+
+      if (failures >= policy.lockoutAfter) {
+        const duration = Math.min(policy.lockoutMs * 2 ** record.lockouts, policy.maxLockoutMs);
+        Object.assign(record, { failures: 0, lockouts: record.lockouts + 1, blockedUntil: new Date(now + duration).toISOString(), locked: true });
+      } else if (failures > policy.freeAttempts) {
+        const delay = Math.min(policy.baseDelayMs * 2 ** (failures - policy.freeAttempts - 1), policy.maxDelayMs);
+        record.blockedUntil = new Date(now + delay).toISOString();
+        attemptsLeft = Math.min(attemptsLeft, policy.lockoutAfter - failures);
+      } else {
+        attemptsLeft = Math.min(attemptsLeft, policy.lockoutAfter - failures);
+      }
+
+      next[key] = record;
+      const recordBlock = activeBlock(scope, record, now);
+      if (recordBlock && (!block || recordBlock.until > block.until)) block = recordBlock;
+    }
+    return next;
+  });
+
+  return { block: block as LoginBlock | null, attemptsLeft };
+}
+
+// A successful login clears the username's failures. The IP's are kept, so one
+// known password cannot be used to reset the count while guessing others.
+export async function clearLoginFailures(username: string) {
+  const [[, key]] = attemptKeys(undefined, username);
+  await updateAttempts(store => {
+    const { [key]: _cleared, ...rest } = store;
+    return rest;
+  });
+}
+
+// Lockouts still in force, for the owners to review and release.
+export async function getActiveLockouts(): Promise<LockoutSummary[]> {
+  const store = await readJsonFile<AttemptStore>(attemptsFilePath, {}, isStore);
+  const now = Date.now();
+  return Object.entries(store)
+    .filter(([, record]) => record.locked && Date.parse(record.blockedUntil ?? '') > now)
+    .map(([key, record]) => {
+      const [scope, ...subject] = key.split(':');
+      return { key, scope: scope as ThrottleScope, subject: subject.join(':'), until: record.blockedUntil! };
+    })
+    .sort((a, b) => a.until.localeCompare(b.until));
+}
+
+// Lifts a lockout early and forgets the key's failures. Returns false when the
+// key has no lockout in force.
+export async function releaseLockout(key: string) {
+  let released = false;
+  const now = Date.now();
+  await updateAttempts(store => {
+    const record = store[key];
+    if (!record?.locked || Date.parse(record.blockedUntil ?? '') <= now) return store;
+    released = true;
+    const { [key]: _released, ...rest } = store;
+    return rest;
+  });
+  return released;
+}
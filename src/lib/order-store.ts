@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import path from 'path';
+import type { Order } from '@/lib/types';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+
+// Orders placed at checkout, stored in data/orders.json.
+
+const ordersFilePath = path.join(process.cwd(), 'data', 'orders.json');
+
+// Without 0/O and 1/I, so a reference read out over the phone is unambiguous.
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+function randomReference(now: Date) {
+  const date = now.toISOString().slice(2, 10).replace(/-/g, '');
+  const suffix = Array.from(crypto.randomBytes(4), byte => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]).join('');
+  return `LZ-${date}-${suffix}`;
+}
+
+// Orders placed before statuses were tracked start their history at checkout.
+function withHistory(order: Order): Order {
+  return order.history ? order : { ...order, history: [{ status: 'pending', at: order.createdAt }] };
+}
+
+// Newest first.
+export async function getOrders(): Promise<Order[]> {
+  const orders = await readJsonFile<Order[]>(ordersFilePath, [], Array.isArray);
+  return orders.map(withHistory).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getOrderById(id: string): Promise<Order | undefined> {
+  const order = (await readJsonFile<Order[]>(ordersFilePath, [], Array.isArray)).find(other => other.id === id);
+  return order && withHistory(order);
+}
+
+export async function updateOrders(mutate: (orders: Order[]) => Order[]): Promise<Order[]> {
+  return updateJsonFile<Order[]>(ordersFilePath, [], orders => mutate(orders.map(withHistory)), Array.isArray);
+}
+
+// Stores a new pending order under a reference no other order uses.
+export async function createOrder(order: Omit<Order, 'id' | 'reference' | 'status' | 'history' | 'createdAt' | 'updatedAt'>): Promise<Order> {
+  const now = new Date();
+  let created!: Order;
+  await updateOrders(orders => {
+    const taken = new Set(orders.map(other => other.reference));
+    let reference = randomReference(now);
+    while (taken.has(reference)) reference = randomReference(now);
+    created = {
+      id: `ord_${now.getTime()}_${crypto.randomBytes(4).toString('hex')}`,
+      reference,
+      status: 'pending',
+      ...order,
+      history: [{ status: 'pending', at: now.toISOString() }],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    return [...orders, created];
+  });
+  return created;
+}
+
+// Drops an order that never reached the customer, e.g. because the message
+// for it could not be generated.
+export async function discardOrder(id: string) {
+  await updateOrders(orders => orders.filter(order => order.id !== id));
+}
@@ -0,0 +1,112 @@
+import type { CartItem, Order, OrderItem, OrderStatus, Product } from '@/lib/types';
+import { findStockProblems, type StockProblem } from '@/lib/stock';
+import { syncUnitStock } from '@/lib/units';
+import { selectedOptions } from '@/lib/variants';
+
+// The order workflow, shared by the admin orders page and its server actions.
+
+export const ORDER_STATUSES = ['pending', 'confirmed', 'packed', 'dispatched', 'delivered', 'cancelled', 'returned'] as const satisfies readonly OrderStatus[];
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  packed: 'Packed',
+  dispatched: 'Dispatched',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+};
+
+// Where an order can go from each status. An order can be cancelled until it
+// leaves the shop; after that it can only come back as a return.
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['packed', 'cancelled'],
+  packed: ['dispatched', 'cancelled'],
+  dispatched: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+export type OrderQuery = {
+  status?: OrderStatus;
+  // Matched against the reference and the customer's name and phone.
+  search?: string;
+  // Inclusive dates, YYYY-MM-DD, compared with when the order was placed.
+  from?: string;
+  to?: string;
+};
+
+export function filterOrders(orders: Order[], query: OrderQuery): Order[] {
+  const search = query.search?.trim().toLowerCase();
+  const digits = search?.replace(/\D/g, '');
+  return orders.filter(order => {
+    if (query.status && order.status !== query.status) return false;
+    if (query.from && order.createdAt.slice(0, 10) < query.from) return false;
+    if (query.to && order.createdAt.slice(0, 10) > query.to) return false;
+    if (search) {
+      const matches = order.reference.toLowerCase().includes(search)
+        || order.customer.name.toLowerCase().includes(search)
+        // Phone numbers are typed with all sorts of spacing and dashes.
+        || (!!digits && digits.length >= 3 && order.customer.phone.replace(/\D/g, '').includes(digits));
+      if (!matches) return false;
+    }
+    return true;
+  });
+}
+
+// What stands in the way of taking the order's items out of stock now.
+export function orderStockProblems(items: OrderItem[], current: Map<string, Product>): StockProblem[] {
+  const lines: CartItem[] = items.map(item => ({
+    // A product that has since been purged only needs its id and name here.
+    product: current.get(item.productId) ?? ({ id: item.productId, name: item.name } as Product),
+    quantity: item.quantity,
+    unitId: item.unitId,
+    variant: item.variant,
+  }));
+  return findStockProblems(lines, current);
+}
+
+// The product with the order's lines for it taken out of stock (direction -1)
+// or put back (+1). A chosen unit is marked sold or available again, chosen
+// options give up or regain their stock, and listings without units have their
+// count adjusted; listings with units follow their units. Taking out more than
+// is in stock throws; callers check orderStockProblems first.
+export function adjustOrderStock(product: Product, items: OrderItem[], direction: -1 | 1): Product {
+  const lines = items.filter(item => item.productId === product.id);
+  let units = product.units;
+  let variants = product.variants;
+  let stock = product.stock;
+
+  const shortOf = (what: string) => new Error(`Not enough stock of ${product.name}${what} for this order.`);
+
+  for (const line of lines) {
+    if (line.unitId) {
+      const unit = units?.find(other => other.id === line.unitId);
+      if (direction < 0 && unit?.status !== 'available') throw shortOf(' (the chosen unit)');
+      units = units?.map(other => {
+        if (other.id !== line.unitId) return other;
+        if (direction < 0) return { ...other, status: 'sold' as const };
+        return other.status === 'sold' ? { ...other, status: 'available' as const } : other;
+      });
+    } else if (!units?.length) {
+      stock += direction * line.quantity;
+      if (stock < 0) throw shortOf('');
+    }
+
+    const chosen = new Set(selectedOptions(product, line.variant).map(option => option.id));
+    variants = variants?.map(option => {
+      if (!chosen.has(option.id)) return option;
+      const optionStock = option.stock + direction * line.quantity;
+      if (optionStock < 0) throw shortOf(` with ${option.label}`);
+      return { ...option, stock: optionStock };
+    });
+  }
+
+  return syncUnitStock({ ...product, units, variants, stock });
+}
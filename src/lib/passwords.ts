@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// Salted scrypt hashes for admin passwords, stored as
+// "scrypt$<N>$<r>$<p>$<salt>$<hash>" (salt and hash base64) so the cost can be
+// raised later without breaking existing hashes.
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number, options: crypto.ScryptOptions) => Promise<Buffer>;
+
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, COST);
+  return ['scrypt', COST.N, COST.r, COST.p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+function parseHash(stored: string) {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return null;
+  return { N: Number(N), r: Number(r), p: Number(p), salt: Buffer.from(salt, 'base64'), hash: Buffer.from(hash, 'base64') };
+}
+
+// Compares without leaking, through timing, how much of the two values matched.
+export function constantTimeEqual(a: string, b: string) {
+  // Digests make the lengths equal, which timingSafeEqual requires.
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const parsed = parseHash(stored);
+  if (!parsed) return false;
+  const { N, r, p, salt, hash } = parsed;
+  const candidate = await scrypt(password, salt, hash.length, { N, r, p });
+  return crypto.timingSafeEqual(candidate, hash);
+}
+
+// True for hashes made with a lower cost than the current one.
+export function needsRehash(stored: string) {
+  const parsed = parseHash(stored);
+  return !parsed || parsed.N < COST.N || parsed.r < COST.r || parsed.p < COST.p;
+}
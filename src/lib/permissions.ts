@@ -0,0 +1,55 @@
+// What an admin can be allowed to do, and which roles allow what. Every admin
+// action names the permission it needs (see authorize() in authorization.ts),
+// and the admin pages use the same table to hide what a user cannot do.
+export const PERMISSIONS = [
+  // See products in the admin, including purchase costs and history.
+  'products:read',
+  // Add and edit products and their units, including prices, and restore revisions.
+  'products:write',
+  // Move products to the trash and purge them.
+  'products:delete',
+  // Brands, categories, tags and spreadsheet imports.
+  'catalog:manage',
+  // Home page banners and sections.
+  'content:manage',
+  // Clean up unused uploaded files.
+  'uploads:manage',
+  // Customer orders.
+  'orders:manage',
+  // Invite, disable and reset other admin users.
+  'users:manage',
+  // Review the login security log and release lockouts.
+  'security:manage',
+  // Read and export the audit log of admin changes.
+  'audit:read',
+  // Change your own login details and sessions.
+  'account:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export type AdminRole = 'owner' | 'manager' | 'sales';
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  sales: 'Sales Staff',
+};
+
+export const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  owner: 'Everything, including managing admin users.',
+  manager: 'Products, prices, catalog, home page and orders.',
+  sales: 'Orders, and a read-only view of the products.',
+};
+
+const OWNER_ONLY: readonly Permission[] = ['users:manage', 'security:manage', 'audit:read'];
+
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: PERMISSIONS.filter(permission => !OWNER_ONLY.includes(permission)),
+  sales: ['products:read', 'orders:manage', 'account:manage'],
+};
+
+export function hasPermission(role: AdminRole, permission: Permission) {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,74 @@
+import type { ProductRepository, ProductRepositoryDriver } from './types';
+import { createJsonProductRepository } from './json';
+import { createMemoryProductRepository } from './memory';
+import { migrateProducts } from './migrations';
+import { withFileLock } from '@/lib/json-store';
+
+export type { ProductRepository, ProductRepositoryDriver } from './types';
+export { createJsonProductRepository } from './json';
+export { createMemoryProductRepository } from './memory';
+export { migrateProducts, upgradeProduct, getQuarantinedProducts, PRODUCT_SCHEMA_VERSION } from './migrations';
+export type { MigrationReport, QuarantinedProduct } from './migrations';
+
+let repository: Promise<ProductRepository> | null = null;
+
+function resolveDriver(): ProductRepositoryDriver {
+  const driver = (process.env.PRODUCT_REPOSITORY_DRIVER || 'json').toLowerCase();
+  if (driver === 'json' || driver === 'sqlite' || driver === 'memory') {
+    return driver;
+  }
+  throw new Error(`Unknown PRODUCT_REPOSITORY_DRIVER "${driver}". Expected json, sqlite or memory.`);
+}
+
+// Opens the configured driver without running migrations (used by the migration CLI).
+export async function openProductRepository(driver = resolveDriver()): Promise<ProductRepository> {
+  switch (driver) {
+    case 'sqlite': {
+      // Loaded lazily so the native module is only required when it is actually used.
+      const { createSqliteProductRepository } = await import('./sqlite');
+      return createSqliteProductRepository();
+    }
+    case 'memory':
+      return createMemoryProductRepository();
+    case 'json':
+    default:
+      return createJsonProductRepository();
+  }
+}
+
+async function loadRepository(): Promise<ProductRepository> {
+  const repo = await openProductRepository();
+  const report = await migrateProducts(repo);
+  if (report.migrated.length > 0 || report.quarantined.length > 0) {
+    console.warn(
+      `Product migrations: ${report.migrated.length} record(s) upgraded to v${report.targetVersion}, ` +
+      `${report.quarantined.length} quarantined.`
+    );
+  }
+  return repo;
+}
+
+// The single entry point pages and server actions use to reach the catalog.
+// The driver is picked from PRODUCT_REPOSITORY_DRIVER (json by default), and
+// pending schema migrations run once when it is first loaded.
+export function getProductRepository(): Promise<ProductRepository> {
+  if (!repository) {
+    repository = loadRepository().catch(error => {
+      repository = null;
+      throw error;
+    });
+  }
+  return repository;
+}
+
+// Swaps the active repository, e.g. for an in-memory one in tests.
+export function setProductRepository(next: ProductRepository | null) {
+  repository = next ? Promise.resolve(next) : null;
+}
+
+// Held while stock is checked and then changed, e.g. when an order is confirmed,
+// so two changes cannot both take the last unit. Repository writes take their
+// own locks, so they can still be made while this one is held.
+export function withStockLock<T>(task: () => Promise<T>): Promise<T> {
+  return withFileLock('lapzen:product-stock', task);
+}
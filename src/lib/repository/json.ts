@@ -0,0 +1,61 @@
+import type { Product } from '@/lib/types';
+import { getProducts, updateProducts } from '@/lib/placeholder-data';
+import type { ProductRepository } from './types';
+import { applyProductQuery } from './query';
+import { createProductRecord } from './records';
+
+// Reads data/products.json on every call, newest product first. Mutations go
+// through updateProducts so concurrent admin saves are applied one at a time.
+export function createJsonProductRepository(): ProductRepository {
+  return {
+    list() {
+      return getProducts();
+    },
+
+    async getById(id) {
+      const products = await getProducts();
+      return products.find(p => p.id === id) ?? null;
+    },
+
+    async create(data) {
+      const product = createProductRecord(data);
+      await updateProducts(products => [product, ...products]);
+      return product;
+    },
+
+    async update(id, data) {
+      let updated: Product | null = null;
+      await updateProducts(products =>
+        products.map(p => {
+          if (p.id !== id) return p;
+          updated = { ...p, ...data, id, updatedAt: new Date().toISOString() };
+          return updated;
+        })
+      );
+      return updated;
+    },
+
+    async save(product) {
+      await updateProducts(products =>
+        products.some(p => p.id === product.id)
+          ? products.map(p => (p.id === product.id ? product : p))
+          : [product, ...products]
+      );
+      return product;
+    },
+
+    async delete(id) {
+      let removed = false;
+      await updateProducts(products => {
+        const remaining = products.filter(p => p.id !== id);
+        removed = remaining.length !== products.length;
+        return remaining;
+      });
+      return removed;
+    },
+
+    async query(query) {
+      return applyProductQuery(await getProducts(), query);
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { Product } from '@/lib/types';
+import type { ProductRepository } from './types';
+import { applyProductQuery } from './query';
+import { createProductRecord } from './records';
+
+// Keeps products in a plain array. Used by tests and for throwaway previews.
+export function createMemoryProductRepository(seed: Product[] = []): ProductRepository {
+  let products = structuredClone(seed);
+
+  return {
+    async list() {
+      return structuredClone(products);
+    },
+
+    async getById(id) {
+      const product = products.find(p => p.id === id);
+      return product ? structuredClone(product) : null;
+    },
+
+    async create(data) {
+      const product = createProductRecord(structuredClone(data));
+      products = [product, ...products];
+      return structuredClone(product);
+    },
+
+    async update(id, data) {
+      const existing = products.find(p => p.id === id);
+      if (!existing) return null;
+      const updated: Product = { ...existing, ...structuredClone(data), id, updatedAt: new Date().toISOString() };
+      products = products.map(p => (p.id === id ? updated : p));
+      return structuredClone(updated);
+    },
+
+    async save(product) {
+      products = products.some(p => p.id === product.id)
+        ? products.map(p => (p.id === product.id ? structuredClone(product) : p))
+        : [structuredClone(product), ...products];
+      return structuredClone(product);
+    },
+
+    async delete(id) {
+      const before = products.length;
+      products = products.filter(p => p.id !== id);
+      return products.length !== before;
+    },
+
+    async query(query) {
+      return applyProductQuery(structuredClone(products), query);
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Product } from '@/lib/types';
+import { createMemoryProductRepository } from './memory';
+import { getQuarantinedProducts, migrateProducts, PRODUCT_SCHEMA_VERSION, upgradeProduct } from './migrations';
+
+// A record as the first release wrote it: no schemaVersion, timestamps, stock or structured specs.
+const legacy = {
+  id: 'prod_1700000000000',
+  name: 'MacBook Air',
+  brand: 'Apple',
+  price: 220000,
+  condition: 'Used',
+  images: ['/uploads/air.webp'],
+  specs: { processor: 'Apple M1', ram: '8GB', storage: '256GB SSD', display: '13.3"', battery: 'Good' },
+  description: 'Light and quiet.',
+} as unknown as Product;
+
+// Migrates fine but fails validation: the price was never a number.
+const broken = { ...legacy, id: 'prod_1700000000001', name: 'Broken', price: 'call us' } as unknown as Product;
+
+beforeEach(() => {
+  fs.rmSync(path.join(process.cwd(), 'data'), { recursive: true, force: true });
+});
+
+describe('upgradeProduct', () => {
+  it('brings a version 1 record up to the current schema', () => {
+    expect(upgradeProduct(legacy)).toMatchObject({
+      schemaVersion: PRODUCT_SCHEMA_VERSION,
+      createdAt: new Date(1700000000000).toISOString(),
+      updatedAt: new Date(1700000000000).toISOString(),
+      stock: 1,
+      availability: 'in_stock',
+      structuredSpecs: { cpu: { vendor: 'Apple', family: 'M1', generation: 1 }, ramGb: 8 },
+    });
+  });
+
+  it('re-reads a Core m CPU stored as an Apple chip', () => {
+    const stored = {
+      ...upgradeProduct(legacy),
+      schemaVersion: 4,
+      specs: { ...legacy.specs, processor: 'Intel Core m3-7Y30' },
+      structuredSpecs: { cpu: { vendor: 'Apple', family: 'M3', generation: 3 }, ramGb: 8 },
+    } as Product;
+
+    expect(upgradeProduct(stored).structuredSpecs).toEqual({ cpu: { vendor: 'Intel', family: 'Core m3', generation: 7 }, ramGb: 8 });
+  });
+});
+
+describe('migrateProducts', () => {
+  it('reports what it would change on a dry run and writes nothing', async () => {
+    const repository = createMemoryProductRepository([legacy, broken]);
+
+    const report = await migrateProducts(repository, { dryRun: true });
+
+    expect(report).toMatchObject({ targetVersion: PRODUCT_SCHEMA_VERSION, scanned: 2, upToDate: 0 });
+    expect(report.migrated).toMatchObject([{ id: legacy.id, fromVersion: 1 }]);
+    expect(report.migrated[0].steps.map(step => step.version)).toEqual([2, 3, 4, 5]);
+    expect(report.quarantined).toMatchObject([{ id: broken.id, issues: [expect.stringContaining('price')] }]);
+    expect(await repository.list()).toEqual([legacy, broken]);
+    expect(await getQuarantinedProducts()).toEqual([]);
+  });
+
+  it('saves upgraded records and moves invalid ones to the quarantine file', async () => {
+    const repository = createMemoryProductRepository([legacy, broken]);
+
+    await migrateProducts(repository);
+
+    const products = await repository.list();
+    expect(products.map(product => product.id)).toEqual([legacy.id]);
+    expect(products[0].schemaVersion).toBe(PRODUCT_SCHEMA_VERSION);
+    expect(await getQuarantinedProducts()).toMatchObject([{ id: broken.id, name: 'Broken', record: broken }]);
+  });
+
+  it('has nothing to do the second time, and does not quarantine a record twice', async () => {
+    await migrateProducts(createMemoryProductRepository([legacy, broken]));
+    const repository = createMemoryProductRepository([upgradeProduct(legacy), broken]);
+
+    const report = await migrateProducts(repository);
+
+    expect(report).toMatchObject({ scanned: 2, upToDate: 1, migrated: [] });
+    expect(await getQuarantinedProducts()).toHaveLength(1);
+  });
+});
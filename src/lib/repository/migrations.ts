@@ -0,0 +1,198 @@
+import path from 'path';
+import type { Product } from '@/lib/types';
+import { storedProductSchema } from '@/lib/schemas';
+import { diffFields, type FieldChange } from '@/lib/diff';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+import { normalizeSpecs, parseCpu } from '@/lib/specs';
+import type { ProductRepository } from './types';
+
+// Every stored product carries a schemaVersion. Records written before versioning
+// existed have none and are treated as version 1. When the repository loads, each
+// record is upgraded one migration at a time until it reaches PRODUCT_SCHEMA_VERSION.
+//
+// To change the Product shape, append a migration with the next version number.
+// `up` receives a copy of the record at the previous version and returns the upgraded one.
+
+// A stored record at any version. Nothing about its fields can be assumed, so
+// migrations narrow each value before using it.
+type ProductRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is ProductRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+export type ProductMigration = {
+  version: number;
+  description: string;
+  up: (record: ProductRecord) => ProductRecord;
+};
+
+export const productMigrations: ProductMigration[] = [
+  {
+    version: 2,
+    description: 'Backfill createdAt/updatedAt from the timestamp in the product id',
+    up: record => {
+      const timestamp = Number(String(record.id ?? '').replace(/^prod_/, ''));
+      const createdAt = record.createdAt ?? (Number.isFinite(timestamp) && timestamp > 0 ? new Date(timestamp).toISOString() : undefined);
+      return { ...record, createdAt, updatedAt: record.updatedAt ?? createdAt };
+    },
+  },
+  {
+    version: 3,
+    description: 'Derive structuredSpecs (CPU, RAM, storage, screen, GPU, OS) from the spec strings',
+    up: record => {
+      const specs = isRecord(record.specs) ? record.specs : {};
+      return {
+        ...record,
+        structuredSpecs: normalizeSpecs({
+          processor: stringOrUndefined(specs.processor),
+          ram: stringOrUndefined(specs.ram),
+          storage: stringOrUndefined(specs.storage),
+          display: stringOrUndefined(specs.display),
+          battery: stringOrUndefined(specs.battery),
+        }, stringOrUndefined(record.description) ?? ''),
+      };
+    },
+  },
+  {
+    version: 4,
+    description: 'Add stock and availability; existing listings become a single unit in stock',
+    up: record => ({
+      ...record,
+      stock: record.stock ?? 1,
+      availability: record.availability ?? 'in_stock',
+    }),
+  },
+  {
+    version: 5,
+    description: 'Re-derive the structured CPU so Intel Core m chips are no longer read as Apple M-series',
+    up: record => {
+      const specs = isRecord(record.specs) ? record.specs : {};
+      const structuredSpecs = isRecord(record.structuredSpecs) ? record.structuredSpecs : {};
+      const { cpu: _previous, ...rest } = structuredSpecs;
+      const cpu = parseCpu(stringOrUndefined(specs.processor) ?? '');
+      return { ...record, structuredSpecs: cpu ? { ...rest, cpu } : rest };
+    },
+  },
+];
+
+export const PRODUCT_SCHEMA_VERSION = productMigrations[productMigrations.length - 1]?.version ?? 1;
+
+const quarantineFilePath = path.join(process.cwd(), 'data', 'quarantine', 'products.json');
+
+export type QuarantinedProduct = {
+  id: string;
+  name: string;
+  issues: string[];
+  record: ProductRecord;
+  quarantinedAt: string;
+};
+
+export type MigrationStep = {
+  version: number;
+  description: string;
+  changes: FieldChange[];
+};
+
+export type MigrationReport = {
+  targetVersion: number;
+  scanned: number;
+  upToDate: number;
+  migrated: { id: string; name: string; fromVersion: number; steps: MigrationStep[] }[];
+  quarantined: Omit<QuarantinedProduct, 'quarantinedAt'>[];
+};
+
+function upgrade(record: ProductRecord) {
+  const fromVersion = typeof record.schemaVersion === 'number' ? record.schemaVersion : 1;
+  const steps: MigrationStep[] = [];
+  let current = structuredClone(record);
+
+  for (const migration of productMigrations) {
+    if (migration.version <= fromVersion) continue;
+    const next = { ...migration.up(structuredClone(current)), schemaVersion: migration.version };
+    steps.push({
+      version: migration.version,
+      description: migration.description,
+      changes: diffFields(current, next).filter(change => change.field !== 'schemaVersion'),
+    });
+    current = next;
+  }
+
+  return { fromVersion, steps, upgraded: current };
+}
+
+// Brings an old record (e.g. a snapshot kept in revision history) up to the current schema.
+export function upgradeProduct(record: Product): Product {
+  return upgrade(record).upgraded as Product;
+}
+
+async function quarantine(entries: QuarantinedProduct[]) {
+  await updateJsonFile<QuarantinedProduct[]>(quarantineFilePath, [], existing => {
+    const seen = new Set(existing.map(entry => JSON.stringify(entry.record)));
+    return [...existing, ...entries.filter(entry => !seen.has(JSON.stringify(entry.record)))];
+  }, Array.isArray);
+}
+
+export async function getQuarantinedProducts(): Promise<QuarantinedProduct[]> {
+  return readJsonFile<QuarantinedProduct[]>(quarantineFilePath, [], Array.isArray);
+}
+
+// Upgrades every record to the current schema and moves records that fail
+// validation into data/quarantine/products.json. With dryRun nothing is written
+// and the report describes what each migration would change.
+export async function migrateProducts(
+  repository: ProductRepository,
+  { dryRun = false }: { dryRun?: boolean } = {}
+): Promise<MigrationReport> {
+  const records = (await repository.list()) as ProductRecord[];
+  const report: MigrationReport = {
+    targetVersion: PRODUCT_SCHEMA_VERSION,
+    scanned: records.length,
+    upToDate: 0,
+    migrated: [],
+    quarantined: [],
+  };
+  const toSave: Product[] = [];
+
+  for (const record of records) {
+    const { fromVersion, steps, upgraded } = upgrade(record);
+    const id = String(record.id ?? '');
+    const name = String(record.name ?? '(unnamed)');
+    const validation = storedProductSchema.safeParse(upgraded);
+
+    if (!validation.success) {
+      report.quarantined.push({
+        id,
+        name,
+        issues: validation.error.issues.map(issue => `${issue.path.join('.') || 'record'}: ${issue.message}`),
+        record,
+      });
+    } else if (steps.length > 0) {
+      report.migrated.push({ id, name, fromVersion, steps });
+      toSave.push(upgraded as Product);
+    } else {
+      report.upToDate++;
+    }
+  }
+
+  if (dryRun) return report;
+
+  for (const product of toSave) {
+    await repository.save(product);
+  }
+
+  if (report.quarantined.length > 0) {
+    const quarantinedAt = new Date().toISOString();
+    // Write the quarantine file first so a failure never loses a record.
+    await quarantine(report.quarantined.map(entry => ({ ...entry, quarantinedAt })));
+    for (const entry of report.quarantined) {
+      if (entry.id) await repository.delete(entry.id);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,38 @@
+import type { Product, ProductQuery } from '@/lib/types';
+
+// Shared filtering/sorting so every driver answers a query the same way.
+export function applyProductQuery(products: Product[], query: ProductQuery): Product[] {
+  const search = query.search?.trim().toLowerCase();
+
+  const status = query.status ?? 'active';
+
+  let result = products.filter(product => {
+    if (status === 'active' && product.deletedAt) return false;
+    if (status === 'trashed' && !product.deletedAt) return false;
+    if (query.brands?.length && !query.brands.some(brand => brand.toLowerCase() === product.brand.toLowerCase())) return false;
+    if (query.categoryIds?.length && !query.categoryIds.includes(product.categoryId ?? '')) return false;
+    if (query.tags?.length && !query.tags.some(tag => product.tags?.includes(tag))) return false;
+    if (query.conditions?.length && !query.conditions.includes(product.condition)) return false;
+    if (query.minPrice !== undefined && product.price < query.minPrice) return false;
+    if (query.maxPrice !== undefined && product.price > query.maxPrice) return false;
+    if (query.featured !== undefined && !!product.featured !== query.featured) return false;
+    if (query.newArrival !== undefined && !!product.newArrival !== query.newArrival) return false;
+    if (query.cpuFamilies?.length && !query.cpuFamilies.includes(product.structuredSpecs?.cpu?.family ?? '')) return false;
+    if (query.ramGb?.length && !query.ramGb.includes(product.structuredSpecs?.ramGb ?? -1)) return false;
+    if (query.storageTypes?.length && !query.storageTypes.includes(product.structuredSpecs?.storage?.type ?? '')) return false;
+    if (search) {
+      const haystack = [product.name, product.brand, ...Object.values(product.specs), ...(product.tags ?? [])].join(' ').toLowerCase();
+      if (!haystack.includes(search)) return false;
+    }
+    return true;
+  });
+
+  if (query.sort === 'price-asc') {
+    result = [...result].sort((a, b) => a.price - b.price);
+  } else if (query.sort === 'price-desc') {
+    result = [...result].sort((a, b) => b.price - a.price);
+  }
+  // 'newest' is the natural order every driver returns from list().
+
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+}
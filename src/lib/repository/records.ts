@@ -0,0 +1,17 @@
+import type { Product, ProductInput } from '@/lib/types';
+import { PRODUCT_SCHEMA_VERSION } from './migrations';
+
+let lastIdTimestamp = 0;
+
+// Keeps the historical `prod_<ms>` format but never hands out the same id twice,
+// even when several products are created within one millisecond.
+export function createProductId() {
+  lastIdTimestamp = Math.max(Date.now(), lastIdTimestamp + 1);
+  return `prod_${lastIdTimestamp}`;
+}
+
+// Stamps a new record with the fields every driver manages itself.
+export function createProductRecord(data: ProductInput): Product {
+  const now = new Date().toISOString();
+  return { ...data, id: createProductId(), createdAt: now, updatedAt: now, schemaVersion: PRODUCT_SCHEMA_VERSION };
+}
@@ -0,0 +1,92 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { Product } from '@/lib/types';
+import { getProducts } from '@/lib/placeholder-data';
+import type { ProductRepository } from './types';
+import { applyProductQuery } from './query';
+import { createProductRecord } from './records';
+
+const defaultDatabasePath = path.join(process.cwd(), 'data', 'products.db');
+
+type ProductRow = { data: string };
+
+// Each product is stored as a JSON document keyed by id, so the table does not
+// need a migration every time the Product type grows a field.
+export async function createSqliteProductRepository(
+  databasePath = process.env.PRODUCT_SQLITE_PATH || defaultDatabasePath
+): Promise<ProductRepository> {
+  fs.mkdirSync(path.dirname(databasePath), { recursive: true });
+  const db = new Database(databasePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS products (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  const selectAll = db.prepare<[], ProductRow>('SELECT data FROM products ORDER BY created_at DESC, rowid DESC');
+  const selectOne = db.prepare<[string], ProductRow>('SELECT data FROM products WHERE id = ?');
+  const insert = db.prepare<[string, string, string]>('INSERT INTO products (id, data, created_at) VALUES (?, ?, ?)');
+  const updateData = db.prepare<[string, string]>('UPDATE products SET data = ? WHERE id = ?');
+  const upsert = db.prepare<[string, string, string]>(
+    'INSERT INTO products (id, data, created_at) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data'
+  );
+  const remove = db.prepare<[string]>('DELETE FROM products WHERE id = ?');
+  const count = db.prepare<[], { total: number }>('SELECT COUNT(*) AS total FROM products');
+
+  // A fresh database starts from the JSON catalog so switching drivers keeps the listings.
+  if (count.get()!.total === 0) {
+    const seed = await getProducts();
+    const seedAll = db.transaction((products: Product[]) => {
+      // The JSON file is newest-first; insert oldest-first so rowid ordering matches.
+      [...products].reverse().forEach(product => {
+        insert.run(product.id, JSON.stringify(product), product.createdAt ?? '');
+      });
+    });
+    seedAll(seed);
+  }
+
+  const parse = (row: ProductRow): Product => JSON.parse(row.data);
+  const list = () => selectAll.all().map(parse);
+
+  return {
+    async list() {
+      return list();
+    },
+
+    async getById(id) {
+      const row = selectOne.get(id);
+      return row ? parse(row) : null;
+    },
+
+    async create(data) {
+      const product = createProductRecord(data);
+      insert.run(product.id, JSON.stringify(product), product.createdAt!);
+      return product;
+    },
+
+    async update(id, data) {
+      const row = selectOne.get(id);
+      if (!row) return null;
+      const updated: Product = { ...parse(row), ...data, id, updatedAt: new Date().toISOString() };
+      updateData.run(JSON.stringify(updated), id);
+      return updated;
+    },
+
+    async save(product) {
+      upsert.run(product.id, JSON.stringify(product), product.createdAt ?? new Date().toISOString());
+      return product;
+    },
+
+    async delete(id) {
+      return remove.run(id).changes > 0;
+    },
+
+    async query(query) {
+      return applyProductQuery(list(), query);
+    },
+  };
+}
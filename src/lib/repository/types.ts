@@ -0,0 +1,17 @@
+import type { Product, ProductInput, ProductQuery } from '@/lib/types';
+
+export interface ProductRepository {
+  // Every stored record, including products in the trash. Use query() for listings.
+  list(): Promise<Product[]>;
+  getById(id: string): Promise<Product | null>;
+  create(data: ProductInput): Promise<Product>;
+  update(id: string, data: Partial<ProductInput>): Promise<Product | null>;
+  // Writes a full record as-is (insert or overwrite) without touching timestamps.
+  // Used by migrations and when restoring a revision.
+  save(product: Product): Promise<Product>;
+  // Removes the record for good; soft deletes set deletedAt via save().
+  delete(id: string): Promise<boolean>;
+  query(query: ProductQuery): Promise<Product[]>;
+}
+
+export type ProductRepositoryDriver = 'json' | 'sqlite' | 'memory';
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Product } from '@/lib/types';
+
+const product = (id: string, price: number): Product => ({
+  id,
+  name: `Laptop ${id}`,
+  brand: 'Lenovo',
+  price,
+  condition: 'Used',
+  images: [],
+  specs: { processor: 'Core i5', ram: '16GB', storage: '512GB SSD', display: '14"', battery: 'Good' },
+  description: '',
+  stock: 1,
+  availability: 'in_stock',
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.resetModules();
+});
+
+describe('recordRevision', () => {
+  it('keeps the newest revisions of each product and of the file', async () => {
+    vi.stubEnv('REVISIONS_PER_PRODUCT', '3');
+    vi.stubEnv('REVISIONS_LIMIT', '5');
+    vi.resetModules();
+    const { getAllRevisions, getProductRevisions, recordRevision } = await import('./revisions');
+
+    for (let price = 1; price <= 5; price++) {
+      await recordRevision({ action: 'update', actor: 'owner', before: product('prod_a', price - 1), after: product('prod_a', price) });
+    }
+    expect((await getProductRevisions('prod_a')).map(revision => revision.snapshot.price)).toEqual([5, 4, 3]);
+
+    for (let price = 1; price <= 3; price++) {
+      await recordRevision({ action: 'update', actor: 'owner', before: product('prod_b', price - 1), after: product('prod_b', price) });
+    }
+    expect((await getAllRevisions()).map(revision => `${revision.productId}:${revision.snapshot.price}`)).toEqual([
+      'prod_a:4',
+      'prod_a:5',
+      'prod_b:1',
+      'prod_b:2',
+      'prod_b:3',
+    ]);
+  });
+});
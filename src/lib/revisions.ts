@@ -0,0 +1,96 @@
+import path from 'path';
+import type { Product } from '@/lib/types';
+import { diffFields, type FieldChange } from '@/lib/diff';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+
+// History of catalog changes, stored in data/revisions.json.
+// Each revision keeps a full snapshot of the product so any of them can be restored.
+//
+// The whole file is rewritten on every change, so it is capped: each product
+// keeps its newest REVISIONS_PER_PRODUCT revisions and the file its newest
+// REVISIONS_LIMIT. Older ones are dropped as new ones are recorded.
+
+const revisionsFilePath = path.join(process.cwd(), 'data', 'revisions.json');
+
+const REVISIONS_PER_PRODUCT = Number(process.env.REVISIONS_PER_PRODUCT) || 20;
+const REVISIONS_LIMIT = Number(process.env.REVISIONS_LIMIT) || 2000;
+
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export type ProductRevision = {
+  id: string;
+  productId: string;
+  productName: string;
+  action: RevisionAction;
+  actor: string;
+  createdAt: string;
+  changes: FieldChange[];
+  // The product after the change; for deletes, the product as it was removed.
+  snapshot: Product;
+  restoredFrom?: string;
+};
+
+// Bookkeeping fields that change on every save and would only add noise to a diff.
+const IGNORED_FIELDS = new Set(['updatedAt', 'schemaVersion']);
+
+// Oldest first, like the file.
+function withinLimits(revisions: ProductRevision[]) {
+  const perProduct = new Map<string, number>();
+  const kept: ProductRevision[] = [];
+  for (const revision of [...revisions].reverse()) {
+    const count = (perProduct.get(revision.productId) ?? 0) + 1;
+    perProduct.set(revision.productId, count);
+    if (count <= REVISIONS_PER_PRODUCT) kept.push(revision);
+    if (kept.length === REVISIONS_LIMIT) break;
+  }
+  return kept.reverse();
+}
+
+export async function recordRevision({
+  action,
+  actor,
+  before,
+  after,
+  restoredFrom,
+}: {
+  action: RevisionAction;
+  actor: string;
+  before: Product | null;
+  after: Product | null;
+  restoredFrom?: string;
+}): Promise<ProductRevision> {
+  const snapshot = (after ?? before)!;
+  const changes = action === 'delete' || action === 'purge'
+    ? []
+    : diffFields(before ?? {}, after ?? {}).filter(change => !IGNORED_FIELDS.has(change.field));
+
+  const revision: ProductRevision = {
+    id: `rev_${Date.now()}_${Math.round(Math.random() * 1e6)}`,
+    productId: snapshot.id,
+    productName: snapshot.name,
+    action,
+    actor,
+    createdAt: new Date().toISOString(),
+    changes,
+    snapshot,
+    ...(restoredFrom ? { restoredFrom } : {}),
+  };
+
+  await updateJsonFile<ProductRevision[]>(revisionsFilePath, [], revisions => withinLimits([...revisions, revision]), Array.isArray);
+  return revision;
+}
+
+// Newest first.
+export async function getProductRevisions(productId: string): Promise<ProductRevision[]> {
+  const revisions = await readJsonFile<ProductRevision[]>(revisionsFilePath, [], Array.isArray);
+  return revisions.filter(revision => revision.productId === productId).reverse();
+}
+
+export async function getAllRevisions(): Promise<ProductRevision[]> {
+  return readJsonFile<ProductRevision[]>(revisionsFilePath, [], Array.isArray);
+}
+
+export async function getRevision(id: string): Promise<ProductRevision | null> {
+  const revisions = await readJsonFile<ProductRevision[]>(revisionsFilePath, [], Array.isArray);
+  return revisions.find(revision => revision.id === id) ?? null;
+}
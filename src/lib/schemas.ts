@@ -0,0 +1,124 @@
+import { z } from 'zod';
+
+export const variantOptionSchema = z.object({
+  // Absent for options added in the admin form; assigned on save.
+  id: z.string().optional(),
+  kind: z.enum(['ram', 'storage', 'colour']),
+  label: z.string().trim().min(1, 'Option label is required'),
+  priceDelta: z.coerce.number().int('Price delta must be a whole number'),
+  stock: z.coerce.number().int('Stock must be a whole number').min(0, 'Stock cannot be negative'),
+});
+
+export const productSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  brand: z.string().min(1, 'Brand is required'),
+  price: z.coerce.number().positive('Price must be a positive number'),
+  condition: z.enum(['New', 'Used', 'Refurbished']),
+  images: z.array(z.string()).min(1, 'At least one image is required').max(5, 'You can upload a maximum of 5 images'),
+  specs: z.object({
+    processor: z.string().min(1, 'Processor is required'),
+    ram: z.string().min(1, 'RAM is required'),
+    storage: z.string().min(1, 'Storage is required'),
+    display: z.string().min(1, 'Display size is required'),
+    battery: z.string().min(1, 'Battery info is required'),
+  }),
+  description: z.string().min(1, 'Description is required'),
+  stock: z.coerce.number().int('Stock must be a whole number').min(0, 'Stock cannot be negative'),
+  availability: z.enum(['in_stock', 'reserved', 'sold']),
+  variants: z.array(variantOptionSchema).optional(),
+  // Empty means uncategorised.
+  categoryId: z.string().optional(),
+  tags: z.array(z.string().trim().min(1).max(40, 'Tags are at most 40 characters')).max(20, 'A product can have at most 20 tags').optional(),
+  featured: z.boolean().optional(),
+  newArrival: z.boolean().optional(),
+});
+
+export const unitSchema = z.object({
+  serialNumber: z.string().trim().min(1, 'Serial number is required'),
+  grade: z.enum(['A', 'B', 'C']),
+  batteryHealth: z.coerce.number().int().min(0, 'Battery health cannot be negative').max(100, 'Battery health is a percentage').optional(),
+  purchaseCost: z.coerce.number().min(0, 'Purchase cost cannot be negative').optional(),
+  images: z.array(z.string()).max(5, 'You can upload a maximum of 5 images'),
+  status: z.enum(['available', 'reserved', 'sold']),
+  notes: z.string().optional(),
+});
+
+// A product as it sits in the store: the admin input plus repository-managed fields.
+export const storedProductSchema = productSchema.extend({
+  id: z.string().min(1, 'Id is required'),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  schemaVersion: z.number().int().positive().optional(),
+  deletedAt: z.string().optional(),
+  units: z.array(unitSchema.extend({ id: z.string().min(1), createdAt: z.string() })).optional(),
+});
+
+export const brandSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  // Left empty, the slug is derived from the name.
+  slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes').optional().or(z.literal('')),
+  // An existing logo URL, a new image as a data URI, or empty for no logo.
+  logo: z.string().optional(),
+  sortOrder: z.coerce.number().int('Sort order must be a whole number'),
+});
+
+const optionalDate = z.string().optional().refine(value => !value || !isNaN(Date.parse(value)), 'Enter a valid date');
+
+export const categorySchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  // Left empty, the slug is derived from the name.
+  slug: z.string().trim().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes').optional().or(z.literal('')),
+  // Empty for a top-level category.
+  parentId: z.string().optional(),
+  description: z.string().trim().optional(),
+  sortOrder: z.coerce.number().int('Sort order must be a whole number'),
+});
+
+export const heroBannerSchema = z.object({
+  headline: z.string().trim().min(1, 'Headline is required'),
+  subheadline: z.string().optional(),
+  // An existing image URL, a new image as a data URI, or empty for a text-only banner.
+  image: z.string().optional(),
+  ctaLabel: z.string().trim().min(1, 'Button text is required'),
+  ctaHref: z.string().trim().regex(/^(\/|https?:\/\/)/, 'Use a path such as /products or a full https:// link'),
+  enabled: z.boolean(),
+  startsAt: optionalDate,
+  endsAt: optionalDate,
+}).refine(
+  banner => !banner.startsAt || !banner.endsAt || Date.parse(banner.startsAt) < Date.parse(banner.endsAt),
+  { message: 'The end of the schedule must be after its start', path: ['endsAt'] }
+);
+
+export const homepageSectionSchema = z.object({
+  id: z.string().optional(),
+  type: z.enum(['featured', 'new-arrivals', 'brands', 'price-band', 'product-list', 'all-products']),
+  title: z.string().trim().min(1, 'Title is required'),
+  subtitle: z.string().optional(),
+  enabled: z.boolean(),
+  limit: z.coerce.number().int().positive('Limit must be at least 1').optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  productIds: z.array(z.string()).optional(),
+});
+
+// Rules for a new admin password. The settings form checks them as you type and
+// updateCredentials checks them again on the server.
+export const passwordSchema = z.string()
+  .min(10, 'Password must be at least 10 characters')
+  .max(128, 'Password must be at most 128 characters')
+  .regex(/[a-z]/i, 'Password must contain a letter')
+  .regex(/[0-9]/, 'Password must contain a number')
+  .refine(password => password.trim() === password, 'Password cannot start or end with a space');
+
+export const adminRoleSchema = z.enum(['owner', 'manager', 'sales']);
+
+export const inviteUserSchema = z.object({
+  username: z.string().trim().min(1, 'Username is required').max(40, 'Username must be at most 40 characters'),
+  role: adminRoleSchema,
+});
+
+// A move to the next step of the order workflow; see ORDER_TRANSITIONS.
+export const orderStatusChangeSchema = z.object({
+  status: z.enum(['pending', 'confirmed', 'packed', 'dispatched', 'delivered', 'cancelled', 'returned']),
+  note: z.string().trim().max(1000, 'Note must be at most 1000 characters').optional(),
+});
@@ -0,0 +1,46 @@
+import path from 'path';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+
+// Login activity for the owners to review, stored in data/security-log.json.
+// Only the most recent SECURITY_LOG_LIMIT events are kept.
+
+const securityLogFilePath = path.join(process.cwd(), 'data', 'security-log.json');
+
+const SECURITY_LOG_LIMIT = Number(process.env.SECURITY_LOG_LIMIT) || 2000;
+
+export type SecurityEventType =
+  | 'login_success'
+  | 'login_failure'
+  // Turned away without checking the password because of backoff or a lockout.
+  | 'login_blocked'
+  | 'lockout'
+  | 'lockout_released';
+
+export type SecurityEvent = {
+  id: string;
+  type: SecurityEventType;
+  // The username as typed, which need not belong to an account.
+  username?: string;
+  ip?: string;
+  userAgent?: string;
+  // Who released a lockout, or what was locked.
+  detail?: string;
+  createdAt: string;
+};
+
+export async function recordSecurityEvent(event: Omit<SecurityEvent, 'id' | 'createdAt'>) {
+  const entry: SecurityEvent = {
+    id: `sec_${Date.now()}_${Math.round(Math.random() * 1e6)}`,
+    ...event,
+    username: event.username?.slice(0, 100),
+    userAgent: event.userAgent?.slice(0, 200),
+    createdAt: new Date().toISOString(),
+  };
+  await updateJsonFile<SecurityEvent[]>(securityLogFilePath, [], events => [...events, entry].slice(-SECURITY_LOG_LIMIT), Array.isArray);
+}
+
+// Newest first.
+export async function getSecurityEvents(): Promise<SecurityEvent[]> {
+  const events = await readJsonFile<SecurityEvent[]>(securityLogFilePath, [], Array.isArray);
+  return events.reverse();
+}
@@ -0,0 +1,98 @@
+// Signed admin session tokens, shared by the middleware (Edge runtime) and the
+// Node server, so only Web Crypto is used here.
+//
+// A token is "<payload>.<signature>", both base64url, where the payload is the
+// JSON below and the signature is an HMAC-SHA256 of the payload under
+// SESSION_SECRET. The signature proves the server issued the token; whether the
+// session has since been revoked is checked against data/sessions.json by the
+// server (see sessions.ts), which the middleware cannot read.
+
+export const SESSION_COOKIE_NAME = 'lapzen_session';
+
+// A session ends after this long without a request...
+export const SESSION_IDLE_TIMEOUT_MS = (Number(process.env.SESSION_IDLE_HOURS) || 24) * 60 * 60 * 1000;
+// ...and in any case this long after logging in.
+export const SESSION_MAX_AGE_MS = (Number(process.env.SESSION_MAX_AGE_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+export type SessionToken = {
+  // Session id, the key in data/sessions.json.
+  sid: string;
+  user: string;
+  // When the session started and when this token stops being accepted, in ms.
+  iat: number;
+  exp: number;
+};
+
+const DEV_SECRET = 'lapzen-development-session-secret';
+
+function sessionSecret(): string | null {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  // Without a secret in production nobody can log in, rather than everyone
+  // sharing a secret that is published in the source.
+  return process.env.NODE_ENV === 'production' ? null : DEV_SECRET;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function signingKey(secret: string) {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+export async function signSessionToken(token: SessionToken): Promise<string> {
+  const secret = sessionSecret();
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set.');
+  }
+  const payload = toBase64Url(encoder.encode(JSON.stringify(token)));
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The token's contents if the signature is valid and it has not expired, else null.
+export async function verifySessionToken(value: string | undefined, now = Date.now()): Promise<SessionToken | null> {
+  const secret = sessionSecret();
+  const [payload, signature] = value?.split('.') ?? [];
+  if (!secret || !payload || !signature) return null;
+
+  try {
+    // crypto.subtle.verify compares the signatures in constant time.
+    const valid = await crypto.subtle.verify('HMAC', await signingKey(secret), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+    const token = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as SessionToken;
+    if (typeof token.sid !== 'string' || typeof token.exp !== 'number' || token.exp <= now) return null;
+    return token;
+  } catch {
+    return null;
+  }
+}
+
+// Sliding renewal: once half the idle timeout has passed, the token is reissued
+// with a fresh expiry, never beyond SESSION_MAX_AGE_MS after login. Returns null
+// while the current token is still fresh.
+export function renewedExpiry(token: SessionToken, now = Date.now()): number | null {
+  const exp = Math.min(now + SESSION_IDLE_TIMEOUT_MS, token.iat + SESSION_MAX_AGE_MS);
+  return exp - token.exp >= SESSION_IDLE_TIMEOUT_MS / 2 ? exp : null;
+}
+
+export function sessionCookieOptions(exp: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Never sent on requests started by another site, so a forged form post or
+    // link cannot act with the admin's session.
+    sameSite: 'strict' as const,
+    path: '/',
+    expires: new Date(exp),
+  };
+}
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import path from 'path';
+import { cookies } from 'next/headers';
+import { readJsonFile, updateJsonFile } from '@/lib/json-store';
+import {
+  SESSION_COOKIE_NAME,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_MAX_AGE_MS,
+  signSessionToken,
+  verifySessionToken,
+} from '@/lib/session-token';
+
+// Server-side record of every live admin session, stored in data/sessions.json.
+// A signed token is only honoured while its session is listed here, so removing
+// the entry revokes the session even though the browser still holds the cookie.
+
+const sessionsFilePath = path.join(process.cwd(), 'data', 'sessions.json');
+
+// lastSeenAt is refreshed at most this often, so browsing the admin does not
+// rewrite the file on every request.
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export type AdminSession = {
+  id: string;
+  // The admin user (see users.ts) the session belongs to.
+  userId: string;
+  username: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent?: string;
+  ip?: string;
+};
+
+// Sessions past their absolute lifetime, or idle for longer than the timeout,
+// can never be used again.
+function isStale(session: AdminSession, now = Date.now()) {
+  return Date.parse(session.createdAt) + SESSION_MAX_AGE_MS <= now || Date.parse(session.lastSeenAt) + SESSION_IDLE_TIMEOUT_MS <= now;
+}
+
+async function getSessions(): Promise<AdminSession[]> {
+  return readJsonFile<AdminSession[]>(sessionsFilePath, [], Array.isArray);
+}
+
+async function updateSessions(mutate: (sessions: AdminSession[]) => AdminSession[]) {
+  return updateJsonFile<AdminSession[]>(sessionsFilePath, [], sessions => mutate(sessions.filter(session => !isStale(session))), Array.isArray);
+}
+
+// Starts a session and returns its signed token and expiry, for the cookie.
+export async function createSession(user: { id: string; username: string }, client: { userAgent?: string; ip?: string } = {}) {
+  const now = Date.now();
+  const session: AdminSession = {
+    id: crypto.randomBytes(24).toString('base64url'),
+    userId: user.id,
+    username: user.username,
+    createdAt: new Date(now).toISOString(),
+    lastSeenAt: new Date(now).toISOString(),
+    userAgent: client.userAgent?.slice(0, 200),
+    ip: client.ip,
+  };
+  await updateSessions(sessions => [...sessions, session]);
+
+  const exp = now + SESSION_IDLE_TIMEOUT_MS;
+  const token = await signSessionToken({ sid: session.id, user: user.username, iat: now, exp });
+  return { token, exp, session };
+}
+
+// The session a token belongs to, if the token is genuine, unexpired and its
+// session has not been revoked.
+export async function getSessionFromToken(value: string | undefined): Promise<AdminSession | null> {
+  const token = await verifySessionToken(value);
+  if (!token) return null;
+
+  const session = (await getSessions()).find(other => other.id === token.sid);
+  if (!session || isStale(session)) return null;
+
+  if (Date.now() - Date.parse(session.lastSeenAt) > LAST_SEEN_RESOLUTION_MS) {
+    const lastSeenAt = new Date().toISOString();
+    await updateSessions(sessions => sessions.map(other => (other.id === session.id ? { ...other, lastSeenAt } : other)));
+    return { ...session, lastSeenAt };
+  }
+  return session;
+}
+
+// The session of the admin making the current request.
+export async function getCurrentSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  return getSessionFromToken(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+}
+
+export async function listSessions(userId: string): Promise<AdminSession[]> {
+  const sessions = await getSessions();
+  return sessions
+    .filter(session => session.userId === userId && !isStale(session))
+    .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+export async function revokeSession(id: string) {
+  await updateSessions(sessions => sessions.filter(session => session.id !== id));
+}
+
+// Ends every session of the user, except `keepId` when given.
+export async function revokeAllSessions(userId: string, keepId?: string) {
+  await updateSessions(sessions => sessions.filter(session => session.userId !== userId || session.id === keepId));
+}
+
+// Keeps the username shown for the user's sessions current after a rename.
+export async function renameSessionUser(userId: string, username: string) {
+  await updateSessions(sessions => sessions.map(session => (session.userId === userId ? { ...session, username } : session)));
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseCpu } from './specs';
+
+describe('parseCpu', () => {
+  it.each([
+    ['Intel Core i5-1135G7', { vendor: 'Intel', family: 'Core i5', generation: 11 }],
+    ['Intel Core i7-8650U', { vendor: 'Intel', family: 'Core i7', generation: 8 }],
+    ['Core i7 10th Gen', { vendor: 'Intel', family: 'Core i7', generation: 10 }],
+    ['Intel Core m3-7Y30', { vendor: 'Intel', family: 'Core m3', generation: 7 }],
+    ['Intel Core m3-8100Y', { vendor: 'Intel', family: 'Core m3', generation: 8 }],
+    ['Intel Core M-5Y10', { vendor: 'Intel', family: 'Core m', generation: 5 }],
+    ['Intel Core Ultra 7 155H', { vendor: 'Intel', family: 'Core Ultra 7' }],
+    ['Intel Celeron N4020', { vendor: 'Intel', family: 'Celeron' }],
+    ['AMD Ryzen 5 5500U', { vendor: 'AMD', family: 'Ryzen 5', generation: 5 }],
+    ['Ryzen 7 PRO 7840U', { vendor: 'AMD', family: 'Ryzen 7', generation: 7 }],
+    ['Apple M1', { vendor: 'Apple', family: 'M1', generation: 1 }],
+    ['M2 Pro', { vendor: 'Apple', family: 'M2 Pro', generation: 2 }],
+    ['apple m3 max', { vendor: 'Apple', family: 'M3 Max', generation: 3 }],
+    ['Snapdragon X Elite', { vendor: 'Qualcomm', family: 'Snapdragon' }],
+  ])('reads %s', (value, expected) => {
+    expect(parseCpu(value)).toEqual(expected);
+  });
+
+  it.each(['', '   ', 'unknown', 'm3 chip', 'Octa-core 2.4GHz'])('leaves %j unparsed', value => {
+    expect(parseCpu(value)).toBeUndefined();
+  });
+});
@@ -0,0 +1,128 @@
+import type { Product, StructuredSpecs } from '@/lib/types';
+
+// Parses the free-text spec strings admins type ("Core i5 7th gen", "8GB",
+// "256 GB SSD", '14" Full HD') into comparable values. Anything it cannot
+// recognise is simply left out; the display strings stay the source of truth
+// for what customers read.
+
+const RESOLUTION_LABELS: [RegExp, string][] = [
+  [/\b(4k|uhd)\b/i, '3840x2160'],
+  [/\b(qhd|2k|wqhd)\b/i, '2560x1440'],
+  [/\b(fhd|full\s*hd|1080p)\b/i, '1920x1080'],
+  [/\bhd\+/i, '1600x900'],
+  [/\bhd\b/i, '1366x768'],
+];
+
+// i7-8650U -> 8, i5-1135G7 -> 11, i7-12700H -> 12. Four-digit models starting
+// with 1 only exist from the 10th generation on.
+function generationFromModel(model: string) {
+  return Number(model.length === 5 || model.startsWith('1') ? model.slice(0, 2) : model.slice(0, 1));
+}
+
+// Core m models put a Y in the model number: m3-7Y30 and M-5Y10 use a single
+// generation digit, m3-8100Y a full model number.
+function coreMGeneration(text: string) {
+  const short = text.match(/\bm[357]?[-\s]?(\d)y\d{2}\b/i)?.[1];
+  if (short) return Number(short);
+  const model = text.match(/\bm[357][-\s](\d{4})y\b/i)?.[1];
+  return model ? generationFromModel(model) : undefined;
+}
+
+// Intel is tried first: its Core m names ("Core m3-7Y30") would otherwise read
+// as Apple chips. Apple chips need "Apple" in front or a capital M ("M2 Pro").
+export function parseCpu(value: string): StructuredSpecs['cpu'] {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  const coreM = text.match(/core\s*m([357])?(?![\w])/i);
+  const intelFamily =
+    text.match(/core\s*ultra\s*([579])/i)?.[0].replace(/\s+/g, ' ').replace(/^core ultra/i, 'Core Ultra') ??
+    text.match(/(?:core\s*)?\b(i[3579])\b/i)?.[1].toLowerCase().replace(/^i/, 'Core i') ??
+    (coreM ? `Core m${coreM[1] ?? ''}` : undefined) ??
+    text.match(/\b(celeron|pentium|xeon|atom)\b/i)?.[1].replace(/^\w/, c => c.toUpperCase());
+
+  if (intelFamily || /intel/i.test(text)) {
+    const ordinal = text.match(/(\d{1,2})\s*(?:st|nd|rd|th)?\s*gen/i);
+    // Model numbers like i7-8650U (8th gen) or i5-1135G7 (11th gen).
+    const model = text.match(/\bi[3579][-\s](\d{4,5})/i)?.[1];
+    const generation = ordinal ? Number(ordinal[1]) : model ? generationFromModel(model) : coreM ? coreMGeneration(text) : undefined;
+    return { vendor: 'Intel', ...(intelFamily ? { family: intelFamily } : {}), ...(generation ? { generation } : {}) };
+  }
+
+  const ryzen = text.match(/ryzen\s*([3579])(?:\s*(?:pro\s*)?(\d)(\d{3}))?/i);
+  if (ryzen) {
+    return { vendor: 'AMD', family: `Ryzen ${ryzen[1]}`, ...(ryzen[2] ? { generation: Number(ryzen[2]) } : {}) };
+  }
+
+  const apple = text.match(/apple\s*m([1-4])(\s*(?:pro|max|ultra))?\b/i) ?? text.match(/\bM([1-4])(\s*(?:Pro|Max|Ultra))?\b/);
+  if (apple) {
+    const tier = apple[2]?.trim().replace(/^\w/, c => c.toUpperCase());
+    return { vendor: 'Apple', family: `M${apple[1]}${tier ? ` ${tier}` : ''}`, generation: Number(apple[1]) };
+  }
+
+  if (/snapdragon/i.test(text)) return { vendor: 'Qualcomm', family: 'Snapdragon' };
+  return undefined;
+}
+
+export function parseRamGb(value: string): number | undefined {
+  const match = value.match(/(\d+)\s*gb/i) ?? value.match(/^\s*(\d+)\s*$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function parseStorage(value: string): StructuredSpecs['storage'] {
+  const size = value.match(/(\d+(?:\.\d+)?)\s*(tb|gb)/i);
+  const type = /nvme/i.test(value)
+    ? 'NVMe SSD'
+    : /ssd|m\.2|solid/i.test(value)
+      ? 'SSD'
+      : /hdd|hard\s*(disk|drive)|rpm/i.test(value)
+        ? 'HDD'
+        : /emmc/i.test(value)
+          ? 'eMMC'
+          : undefined;
+  if (!size && !type) return undefined;
+  return {
+    ...(size ? { sizeGb: Math.round(Number(size[1]) * (size[2].toLowerCase() === 'tb' ? 1024 : 1)) } : {}),
+    ...(type ? { type } : {}),
+  };
+}
+
+export function parseScreen(value: string): StructuredSpecs['screen'] {
+  const size = value.match(/(\d{2}(?:\.\d)?)\s*(?:"|”|''|-?\s*inch|in\b)/i) ?? value.match(/^\s*(\d{2}(?:\.\d)?)\b/);
+  const pixels = value.match(/(\d{3,4})\s*[x×]\s*(\d{3,4})/);
+  const resolution = pixels ? `${pixels[1]}x${pixels[2]}` : RESOLUTION_LABELS.find(([pattern]) => pattern.test(value))?.[1];
+  const refresh = value.match(/(\d{2,3})\s*hz/i);
+  if (!size && !resolution && !refresh) return undefined;
+  return {
+    ...(size ? { sizeInches: Number(size[1]) } : {}),
+    ...(resolution ? { resolution } : {}),
+    ...(refresh ? { refreshHz: Number(refresh[1]) } : {}),
+  };
+}
+
+// The GPU and OS are not separate spec fields yet, so they are read from the
+// "Graphics:" / "Operating System:" lines most descriptions already contain.
+function fromDescription(description: string, label: RegExp) {
+  return description.match(new RegExp(`${label.source}\\s*:\\s*([^\\n]+)`, 'i'))?.[1].trim();
+}
+
+export function parseGpu(description: string): string | undefined {
+  return fromDescription(description, /(?:graphics|gpu)/);
+}
+
+export function parseOs(description: string): string | undefined {
+  return fromDescription(description, /(?:operating system|os)/) ?? description.match(/\b(windows\s*\d+(?:\/\d+)?|macos|chrome\s*os|ubuntu)\b/i)?.[1];
+}
+
+export function normalizeSpecs(specs: Partial<Product['specs']>, description = ''): StructuredSpecs {
+  const structured: StructuredSpecs = {
+    cpu: parseCpu(specs.processor ?? ''),
+    ramGb: parseRamGb(specs.ram ?? ''),
+    storage: parseStorage(specs.storage ?? ''),
+    screen: parseScreen(specs.display ?? ''),
+    gpu: parseGpu(description),
+    os: parseOs(description),
+  };
+  // Drop unknowns so stored records only carry what was actually recognised.
+  return Object.fromEntries(Object.entries(structured).filter(([, value]) => value !== undefined)) as StructuredSpecs;
+}
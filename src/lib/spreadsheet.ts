@@ -0,0 +1,20 @@
+// Spreadsheet apps treat a cell starting with =, +, -, @, a tab or a carriage
+// return as a formula, so text typed by someone else (a username, a product
+// name) could run when an export is opened. Such text is prefixed with an
+// apostrophe, which makes the app show it as plain text.
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export function escapeSpreadsheetCell<T>(value: T): T | string {
+  return typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+// The row with every text cell escaped.
+export function escapeSpreadsheetRow<T extends Record<string, unknown>>(row: T): Record<keyof T, unknown> {
+  return Object.fromEntries(Object.entries(row).map(([key, value]) => [key, escapeSpreadsheetCell(value)])) as Record<keyof T, unknown>;
+}
+
+// Undoes escapeSpreadsheetCell for text read back from an exported sheet.
+export function unescapeSpreadsheetCell(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
@@ -0,0 +1,138 @@
+import type { Availability, CartItem, Product } from '@/lib/types';
+import { findUnit, syncUnitStock } from '@/lib/units';
+import { selectedOptions, selectionErrors } from '@/lib/variants';
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  in_stock: 'In Stock',
+  reserved: 'Reserved',
+  sold: 'Sold Out',
+};
+
+// An in-stock product whose count has run down to zero is sold out, whatever
+// status was last saved.
+export function getAvailability(product: Pick<Product, 'stock' | 'availability'>): Availability {
+  if (product.availability === 'in_stock' && product.stock <= 0) return 'sold';
+  return product.availability;
+}
+
+// How many units a customer may order right now.
+export function availableQuantity(product: Pick<Product, 'stock' | 'availability'>): number {
+  return getAvailability(product) === 'in_stock' ? Math.max(0, product.stock) : 0;
+}
+
+export type StockProblem = { productId: string; name: string; requested: number; available: number };
+
+// Compares the quantities in a cart against the current catalog. Cart lines are
+// snapshots from the browser, so stock is always read from `current`.
+export function findStockProblems(cartItems: CartItem[], current: Map<string, Product>): StockProblem[] {
+  const requested = new Map<string, number>();
+  for (const item of cartItems) {
+    requested.set(item.product.id, (requested.get(item.product.id) ?? 0) + item.quantity);
+  }
+
+  const problems: StockProblem[] = [];
+
+  // A specific unit can only be bought once, and only while it is available.
+  const seenUnits = new Set<string>();
+  for (const item of cartItems) {
+    if (!item.unitId) continue;
+    const product = current.get(item.product.id);
+    const unit = product ? findUnit(product, item.unitId) : undefined;
+    const free = unit?.status === 'available' && !seenUnits.has(item.unitId) ? 1 : 0;
+    seenUnits.add(item.unitId);
+    if (item.quantity > free) {
+      const name = `${item.product.name} (unit ${unit ? unit.serialNumber.slice(-4) : 'removed'})`;
+      problems.push({ productId: item.product.id, name, requested: item.quantity, available: free });
+    }
+  }
+
+  // Each chosen option has its own stock, shared by every line that uses it.
+  const optionDemand = new Map<string, { productId: string; quantity: number }>();
+  for (const item of cartItems) {
+    const product = current.get(item.product.id);
+    if (!product) continue;
+    if (selectionErrors(product, item.variant).length > 0) {
+      problems.push({ productId: product.id, name: `${product.name} in the configuration you chose`, requested: item.quantity, available: 0 });
+      continue;
+    }
+    for (const option of selectedOptions(product, item.variant)) {
+      const demand = optionDemand.get(option.id) ?? { productId: product.id, quantity: 0 };
+      optionDemand.set(option.id, { ...demand, quantity: demand.quantity + item.quantity });
+    }
+  }
+  for (const [optionId, { productId, quantity }] of optionDemand) {
+    const product = current.get(productId)!;
+    const option = product.variants!.find(o => o.id === optionId)!;
+    if (quantity > option.stock) {
+      problems.push({ productId, name: `${product.name} with ${option.label}`, requested: quantity, available: option.stock });
+    }
+  }
+
+  for (const [productId, quantity] of requested) {
+    const product = current.get(productId);
+    const available = product && !product.deletedAt ? availableQuantity(product) : 0;
+    if (quantity > available) {
+      const name = product?.name ?? cartItems.find(item => item.product.id === productId)?.product.name ?? productId;
+      problems.push({ productId, name, requested: quantity, available });
+    }
+  }
+  return problems;
+}
+
+// An older version of a product with today's inventory: its stock count and
+// availability, the units on hand and their statuses, and each option's stock.
+// Restoring a revision brings back descriptions, prices and photos, but must not
+// make sold units available again or undo stock taken by orders. Units keep the
+// details they had in the snapshot; options removed since come back out of stock.
+export function withCurrentInventory(snapshot: Product, current: Product): Product {
+  const snapshotUnits = new Map((snapshot.units ?? []).map(unit => [unit.id, unit]));
+  const currentOptions = new Map((current.variants ?? []).map(option => [option.id, option]));
+
+  const units = current.units?.map(unit => {
+    const old = snapshotUnits.get(unit.id);
+    return old ? { ...old, status: unit.status } : unit;
+  });
+  const variants = snapshot.variants?.map(option => ({ ...option, stock: currentOptions.get(option.id)?.stock ?? 0 }));
+
+  return syncUnitStock({ ...snapshot, units, variants, stock: current.stock, availability: current.availability });
+}
+
+// The stock an admin sets by hand on a listing: its count and availability, and
+// each option's stock by option id.
+export type InventoryFields = {
+  stock: number;
+  availability: Availability;
+  optionStock: Record<string, number>;
+};
+
+export function inventoryFields(product: Pick<Product, 'stock' | 'availability' | 'variants'>): InventoryFields {
+  return {
+    stock: product.stock,
+    availability: product.availability,
+    optionStock: Object.fromEntries((product.variants ?? []).map(option => [option.id, option.stock])),
+  };
+}
+
+// Applies an admin's edit of the stock fields to the listing as it is now.
+// Fields left as the form loaded them take the current value, so stock taken
+// by an order in the meantime is kept. A field the admin changed wins, unless
+// it also moved since the form loaded: the edit was then made against stale
+// numbers, and the field is reported in `conflicts` instead.
+export function mergeInventoryEdit(loaded: InventoryFields, edited: InventoryFields, current: InventoryFields) {
+  const conflicts: string[] = [];
+  const pick = <T>(field: string, before: T | undefined, after: T, now: T | undefined): T => {
+    if (before === undefined || now === undefined) return after; // Added since; nothing to compare with.
+    if (after === before) return now;
+    if (now !== before) conflicts.push(field);
+    return after;
+  };
+
+  const merged: InventoryFields = {
+    stock: pick('stock', loaded.stock, edited.stock, current.stock),
+    availability: pick('availability', loaded.availability, edited.availability, current.availability),
+    optionStock: Object.fromEntries(
+      Object.entries(edited.optionStock).map(([id, stock]) => [id, pick(id, loaded.optionStock[id], stock, current.optionStock[id])])
+    ),
+  };
+  return { merged, conflicts };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, currentTotpStep, generateRecoveryCodes, hashRecoveryCode, totpCode, totpUri, verifyTotp } from './totp';
+
+// The SHA-1 test secret from RFC 6238, appendix B.
+const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('round-trips bytes and ignores spacing, padding and case', () => {
+    expect(rfcSecret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode('gezd gnbv-gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+    expect(() => base32Decode('NOT-BASE32!')).toThrow('Invalid base32 character');
+  });
+});
+
+describe('totpCode', () => {
+  // RFC 6238 gives 8-digit codes; the last six are what a 6-digit app shows.
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+  ])('matches the RFC test vector at %i seconds', (seconds, code) => {
+    expect(totpCode(rfcSecret, currentTotpStep(seconds * 1000))).toBe(code);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000;
+  const step = currentTotpStep(now);
+
+  it('accepts the current code and one step either side, and returns its step', () => {
+    expect(verifyTotp(rfcSecret, '050471', -1, now)).toBe(step);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, step - 1), -1, now)).toBe(step - 1);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, step + 1).replace(/(\d{3})/, '$1 '), -1, now)).toBe(step + 1);
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, step - 2), -1, now)).toBeNull();
+  });
+
+  it('refuses a code whose step was already used', () => {
+    expect(verifyTotp(rfcSecret, '050471', step, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, totpCode(rfcSecret, step + 1), step, now)).toBe(step + 1);
+  });
+
+  it('refuses anything that is not six digits', () => {
+    expect(verifyTotp(rfcSecret, '', -1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, '05047', -1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, '0504711', -1, now)).toBeNull();
+    expect(verifyTotp(rfcSecret, 'abcdef', -1, now)).toBeNull();
+  });
+});
+
+describe('totpUri', () => {
+  it('labels the account with the issuer', () => {
+    expect(totpUri(rfcSecret, 'owner@example.com')).toBe(
+      `otpauth://totp/Lapzen%3Aowner%40example.com?secret=${rfcSecret}&issuer=Lapzen&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
+
+describe('recovery codes', () => {
+  it('are distinct, and match their hash however they are typed', () => {
+    const { codes, hashes } = generateRecoveryCodes();
+
+    expect(new Set(codes).size).toBe(10);
+    expect(codes.every(code => /^[a-z2-7]{5}-[a-z2-7]{5}$/.test(code))).toBe(true);
+    expect(hashRecoveryCode(codes[0].toUpperCase().replace('-', ' '))).toBe(hashes[0]);
+  });
+});
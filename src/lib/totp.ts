@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+
+// Time-based one-time passwords (RFC 6238) as used by Google Authenticator,
+// Authy, 1Password and the like: HMAC-SHA1, 6 digits, 30-second steps, with the
+// shared secret in base32. Everything is computed locally.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const SECRET_BYTES = 20;
+// Codes from one step either side are accepted, for clocks that have drifted.
+const WINDOW = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(bytes: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string) {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// The step a code matches, or null. Steps up to `lastUsedStep` are refused, so
+// a code that has been used once cannot be replayed.
+export function verifyTotp(secret: string, code: string, lastUsedStep = -1, now = Date.now()): number | null {
+  const candidate = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(candidate)) return null;
+  const step = currentTotpStep(now);
+  for (let offset = -WINDOW; offset <= WINDOW; offset++) {
+    const tried = step + offset;
+    if (tried <= lastUsedStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(totpCode(secret, tried)), Buffer.from(candidate))) return tried;
+  }
+  return null;
+}
+
+// The otpauth:// URI that authenticator apps read from the QR code.
+export function totpUri(secret: string, account: string, issuer = 'Lapzen') {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// --- Recovery codes ---
+
+const RECOVERY_CODE_COUNT = 10;
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[\s-]/g, '');
+}
+
+export function hashRecoveryCode(code: string) {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+// Fresh single-use codes, shown to the user once; only their hashes are kept.
+export function generateRecoveryCodes() {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
@@ -0,0 +1,54 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { Product } from '@/lib/types';
+import { createMemoryProductRepository, setProductRepository, type ProductRepository } from '@/lib/repository';
+import { getAuditEntries } from '@/lib/audit-log';
+import { getProductRevisions } from '@/lib/revisions';
+import { purgeExpiredTrash } from './trash-purge';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-10-19T12:00:00.000Z');
+
+function trashed(id: string, daysAgo: number): Product {
+  return {
+    id,
+    name: `Laptop ${id}`,
+    brand: 'Lenovo',
+    price: 150000,
+    condition: 'Used',
+    images: [],
+    specs: { processor: 'Core i5', ram: '16GB', storage: '512GB SSD', display: '14"', battery: 'Good' },
+    description: '',
+    stock: 1,
+    availability: 'in_stock',
+    deletedAt: new Date(now.getTime() - daysAgo * DAY_MS).toISOString(),
+  };
+}
+
+let repository: ProductRepository;
+
+beforeEach(() => {
+  fs.rmSync(path.join(process.cwd(), 'data'), { recursive: true, force: true });
+  repository = createMemoryProductRepository([trashed('prod_old', 31), trashed('prod_recent', 2)]);
+  setProductRepository(repository);
+});
+
+describe('purgeExpiredTrash', () => {
+  it('removes only products past the retention period and records who did it', async () => {
+    const purged = await purgeExpiredTrash(now);
+
+    expect(purged.map(product => product.id)).toEqual(['prod_old']);
+    expect(await repository.getById('prod_old')).toBeNull();
+    expect(await repository.getById('prod_recent')).not.toBeNull();
+    expect(await getProductRevisions('prod_old')).toMatchObject([{ action: 'purge', actor: 'system' }]);
+    expect(await getAuditEntries()).toMatchObject([{ action: 'product.purge', actor: 'system', target: { id: 'prod_old' } }]);
+  });
+
+  it('purges each product once when runs overlap', async () => {
+    const [first, second] = await Promise.all([purgeExpiredTrash(now), purgeExpiredTrash(now)]);
+
+    expect([...first, ...second].map(product => product.id)).toEqual(['prod_old']);
+    expect(await getProductRevisions('prod_old')).toHaveLength(1);
+  });
+});
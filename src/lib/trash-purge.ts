@@ -0,0 +1,37 @@
+import type { Product } from '@/lib/types';
+import { getProductRepository } from '@/lib/repository';
+import { recordRevision } from '@/lib/revisions';
+import { recordAudit } from '@/lib/audit-log';
+import { deleteProductImages } from '@/lib/images';
+import { withFileLock } from '@/lib/json-store';
+import { isTrashExpired, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+// Permanently removes products that have been in the trash longer than
+// TRASH_RETENTION_DAYS. Runs when the server starts, every PURGE_INTERVAL_MS
+// after that (see src/instrumentation.ts) and whenever the trash page loads.
+
+export const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function purgeExpiredTrash(now = new Date()): Promise<Product[]> {
+  // The startup run and a page load can overlap; one at a time keeps a
+  // product from being purged and logged twice.
+  return withFileLock('lapzen:trash-purge', async () => {
+    const repository = await getProductRepository();
+    const expired = (await repository.query({ status: 'trashed' })).filter(product => isTrashExpired(product, now));
+
+    for (const product of expired) {
+      await deleteProductImages(product);
+      await repository.delete(product.id);
+      const revision = await recordRevision({ action: 'purge', actor: 'system', before: product, after: null });
+      await recordAudit({
+        actor: 'system',
+        action: 'product.purge',
+        summary: `Purged "${product.name}" after ${TRASH_RETENTION_DAYS} days in the trash`,
+        target: { type: 'product', id: product.id, name: product.name },
+        details: { revisionId: revision.id },
+      }).catch(error => console.error('Failed to write audit log:', error));
+    }
+
+    return expired;
+  });
+}
@@ -0,0 +1,17 @@
+import type { Product } from '@/lib/types';
+
+// Trashed products are purged automatically once they have been in the trash
+// for this many days. Configure with TRASH_RETENTION_DAYS.
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trashPurgeDate(product: Product): Date | null {
+  if (!product.deletedAt) return null;
+  return new Date(new Date(product.deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+}
+
+export function isTrashExpired(product: Product, now = new Date()): boolean {
+  const purgeDate = trashPurgeDate(product);
+  return purgeDate !== null && purgeDate <= now;
+}
@@ -1,3 +1,59 @@
+export type ImageVariantSize = 'thumb' | 'card' | 'full';
+
+// The resized copies generated for one uploaded image.
+export type ProcessedImage = {
+  width: number;
+  height: number;
+  variants: Record<ImageVariantSize, { width: number; avif: string; webp: string }>;
+};
+
+// Machine-readable specs derived from the display strings (see lib/specs.ts).
+export type StructuredSpecs = {
+  cpu?: { vendor: string; family?: string; generation?: number };
+  ramGb?: number;
+  storage?: { sizeGb?: number; type?: string };
+  screen?: { sizeInches?: number; resolution?: string; refreshHz?: number };
+  gpu?: string;
+  os?: string;
+};
+
+export type Availability = 'in_stock' | 'reserved' | 'sold';
+
+export type UnitGrade = 'A' | 'B' | 'C';
+
+// One physical machine of a listing. The listing holds the shared specs; the
+// unit holds what differs from machine to machine.
+export type InventoryUnit = {
+  id: string;
+  serialNumber: string;
+  grade: UnitGrade;
+  // Percentage of the battery's design capacity.
+  batteryHealth?: number;
+  // What we paid for it. Admin-only; stripped before products reach the storefront.
+  purchaseCost?: number;
+  images: string[];
+  imageVariants?: Record<string, ProcessedImage>;
+  status: 'available' | 'reserved' | 'sold';
+  notes?: string;
+  createdAt: string;
+};
+
+export type VariantKind = 'ram' | 'storage' | 'colour';
+
+// One choice in a listing's configurator, e.g. "16GB RAM" for +PKR 8,000.
+export type VariantOption = {
+  id: string;
+  kind: VariantKind;
+  label: string;
+  // Added to the listing's base price; negative for downgrades.
+  priceDelta: number;
+  // How many orders this option can still be fitted to.
+  stock: number;
+};
+
+// The chosen option id for each variant kind the listing offers.
+export type VariantSelection = Partial<Record<VariantKind, string>>;
+
 export type Product = {
   id: string;
   name: string;
@@ -5,6 +61,8 @@ export type Product = {
   price: number;
   condition: 'New' | 'Used' | 'Refurbished';
   images: string[];
+  // Resized variants keyed by the URL in `images`. Older uploads have none.
+  imageVariants?: Record<string, ProcessedImage>;
   specs: {
     processor: string;
     ram: string;
@@ -12,12 +70,133 @@ export type Product = {
     display: string;
     battery: string;
   };
+  structuredSpecs?: StructuredSpecs;
   description: string;
+  // Units on hand. Most used laptops are one-offs, so this is usually 1.
+  stock: number;
+  availability: Availability;
+  // Individual machines of this model. When present, `stock` follows the number
+  // of available units.
+  units?: InventoryUnit[];
+  variants?: VariantOption[];
+  // Id of the category the product is listed under; see Category.
+  categoryId?: string;
+  // Free-form, lower-case labels such as "backlit keyboard".
+  tags?: string[];
+  featured?: boolean;
+  newArrival?: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+  schemaVersion?: number;
+  // Set while the product sits in the trash; hidden from the storefront.
+  deletedAt?: string;
+};
+
+// Everything the admin submits for a product; the repository assigns the rest.
+export type ProductInput = Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'schemaVersion' | 'deletedAt'>;
+
+export type Brand = {
+  id: string;
+  name: string;
+  // URL form of the name, used in /products?brand=<slug>.
+  slug: string;
+  // Public URL of the uploaded logo (a transparent WebP).
+  logo?: string;
+  // Lower numbers come first in lists and on the home page.
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type Category = {
+  id: string;
+  name: string;
+  // URL form of the name, used in /category/<slug>.
+  slug: string;
+  // Set for subcategories. A category page also lists its subcategories' products.
+  parentId?: string;
+  description?: string;
+  // Lower numbers come first among siblings.
+  sortOrder: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProductQuery = {
+  // Defaults to 'active', i.e. products that are not in the trash.
+  status?: 'active' | 'trashed' | 'all';
+  // Brand names, matched case-insensitively.
+  brands?: string[];
+  // Category ids; callers include subcategories when they want them.
+  categoryIds?: string[];
+  // Products carrying any of these tags.
+  tags?: string[];
+  conditions?: Product['condition'][];
+  minPrice?: number;
+  maxPrice?: number;
   featured?: boolean;
   newArrival?: boolean;
+  search?: string;
+  cpuFamilies?: string[];
+  ramGb?: number[];
+  storageTypes?: string[];
+  sort?: 'newest' | 'price-asc' | 'price-desc';
+  limit?: number;
 };
 
 export type CartItem = {
   product: Product;
   quantity: number;
+  // Set when the shopper picked a specific machine; quantity is then always 1.
+  unitId?: string;
+  variant?: VariantSelection;
+};
+
+export type OrderStatus = 'pending' | 'confirmed' | 'packed' | 'dispatched' | 'delivered' | 'cancelled' | 'returned';
+
+// One line of an order, copied from the catalog at checkout so later price or
+// name changes do not rewrite what the customer agreed to.
+export type OrderItem = {
+  productId: string;
+  name: string;
+  // The unit and options chosen, as in the cart, e.g. "Grade A, S/N ••••1234".
+  configuration?: string;
+  unitId?: string;
+  variant?: VariantSelection;
+  quantity: number;
+  // Price of one, including variant price deltas, in PKR.
+  unitPrice: number;
+  lineTotal: number;
+};
+
+// One step in an order's life, with the internal note left by whoever made it.
+export type OrderStatusChange = {
+  status: OrderStatus;
+  at: string;
+  // The admin who made the change; absent for the checkout that placed the order.
+  actor?: string;
+  note?: string;
+};
+
+export type Order = {
+  id: string;
+  // Short code quoted in the WhatsApp message, e.g. "LZ-250301-7KQ4".
+  reference: string;
+  status: OrderStatus;
+  items: OrderItem[];
+  customer: {
+    name: string;
+    phone: string;
+    address: string;
+  };
+  itemCount: number;
+  subtotal: number;
+  total: number;
+  // Oldest first, starting with the order being placed.
+  history: OrderStatusChange[];
+  // Set while the order's items are deducted from stock, i.e. from confirmation
+  // until it is cancelled.
+  stockDeducted?: boolean;
+  createdAt: string;
+  updatedAt: string;
 };
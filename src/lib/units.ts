@@ -0,0 +1,50 @@
+import type { InventoryUnit, Product, UnitGrade } from '@/lib/types';
+
+export const GRADE_LABELS: Record<UnitGrade, string> = {
+  A: 'Grade A: like new',
+  B: 'Grade B: light wear',
+  C: 'Grade C: visible wear',
+};
+
+export const UNIT_STATUS_LABELS: Record<InventoryUnit['status'], string> = {
+  available: 'Available',
+  reserved: 'Reserved',
+  sold: 'Sold',
+};
+
+export function createUnitId() {
+  return `unit_${Date.now()}_${Math.round(Math.random() * 1e6)}`;
+}
+
+export function availableUnits(product: Pick<Product, 'units'>): InventoryUnit[] {
+  return (product.units ?? []).filter(unit => unit.status === 'available');
+}
+
+export function findUnit(product: Pick<Product, 'units'>, unitId: string): InventoryUnit | undefined {
+  return product.units?.find(unit => unit.id === unitId);
+}
+
+// Keeps the listing's stock count in step with its units. Listings without
+// units keep the count entered by hand.
+export function syncUnitStock<T extends Pick<Product, 'stock' | 'units'>>(product: T): T {
+  if (!product.units?.length) return product;
+  return { ...product, stock: availableUnits(product).length };
+}
+
+// Shows enough of the serial to tell units apart without publishing it.
+export function maskSerial(serialNumber: string) {
+  return serialNumber.length <= 4 ? serialNumber : `••••${serialNumber.slice(-4)}`;
+}
+
+// Drops admin-only unit fields before a product is handed to the storefront,
+// where it may be serialized to the browser.
+export function toStorefrontProduct(product: Product): Product {
+  if (!product.units) return product;
+  return {
+    ...product,
+    units: product.units.map(({ purchaseCost, notes, serialNumber, ...unit }) => ({
+      ...unit,
+      serialNumber: maskSerial(serialNumber),
+    })),
+  };
+}
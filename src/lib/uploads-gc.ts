@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getProductRepository } from '@/lib/repository';
+import { getAllRevisions } from '@/lib/revisions';
+import { getImageStorage, localUploadPath, uploadsDir } from '@/lib/image-storage';
+import { productImageFiles } from '@/lib/images';
+import { getBrands } from '@/lib/brands';
+import { getHomepageConfig } from '@/lib/homepage-store';
+
+// Cross-references the uploads folder against every image the catalog refers to.
+//
+// A file counts as referenced if any product (trashed ones included), revision
+// snapshot, brand logo or home page banner points at it, so rolling back a
+// revision never loses its photos. Files younger than MIN_AGE_MS are left alone:
+// an upload is written to disk a moment before the product that uses it is saved.
+
+const MIN_AGE_MS = 60 * 60 * 1000;
+
+export type OrphanedUpload = { url: string; size: number; modifiedAt: string };
+export type MissingImage = { productId: string; productName: string; url: string };
+
+export type UploadsReport = {
+  totalFiles: number;
+  totalBytes: number;
+  orphans: OrphanedUpload[];
+  orphanBytes: number;
+  missing: MissingImage[];
+};
+
+async function listUploads() {
+  let names: string[];
+  try {
+    names = await fs.readdir(uploadsDir);
+  } catch {
+    return [];
+  }
+  const files = await Promise.all(
+    names.map(async name => {
+      const stat = await fs.stat(path.join(uploadsDir, name));
+      return stat.isFile() ? { url: `/uploads/${name}`, size: stat.size, modifiedAt: stat.mtime } : null;
+    })
+  );
+  return files.filter(file => file !== null);
+}
+
+async function referencedUrls(): Promise<Set<string>> {
+  const repository = await getProductRepository();
+  const [products, revisions, brands, homepage] = await Promise.all([
+    repository.list(),
+    getAllRevisions(),
+    getBrands(),
+    getHomepageConfig(),
+  ]);
+  const urls = new Set<string>();
+  for (const record of [...products, ...revisions.map(revision => revision.snapshot)]) {
+    productImageFiles(record).forEach(url => urls.add(url));
+  }
+  brands.forEach(brand => brand.logo && urls.add(brand.logo));
+  for (const banner of homepage.banners) {
+    productImageFiles({ images: banner.image ? [banner.image] : [], imageVariants: banner.imageVariants }).forEach(url => urls.add(url));
+  }
+  return urls;
+}
+
+export async function scanUploads(): Promise<UploadsReport> {
+  const [files, referenced] = await Promise.all([listUploads(), referencedUrls()]);
+  const cutoff = Date.now() - MIN_AGE_MS;
+
+  const orphans = files
+    .filter(file => !referenced.has(file.url) && file.modifiedAt.getTime() < cutoff)
+    .map(file => ({ url: file.url, size: file.size, modifiedAt: file.modifiedAt.toISOString() }))
+    .sort((a, b) => b.size - a.size);
+
+  const storage = getImageStorage();
+  const repository = await getProductRepository();
+  const missing: MissingImage[] = [];
+  for (const product of await repository.list()) {
+    for (const url of productImageFiles(product)) {
+      // Remote URLs (e.g. old Firebase uploads) cannot be checked from here.
+      if (localUploadPath(url) && !(await storage.exists(url))) {
+        missing.push({ productId: product.id, productName: product.name, url });
+      }
+    }
+  }
+
+  return {
+    totalFiles: files.length,
+    totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+    orphans,
+    orphanBytes: orphans.reduce((sum, file) => sum + file.size, 0),
+    missing,
+  };
+}
+
+// Deletes the given files, but only those a fresh scan still reports as orphaned.
+export async function deleteOrphanedUploads(urls: string[]): Promise<{ deleted: number; freedBytes: number }> {
+  const { orphans } = await scanUploads();
+  const requested = new Set(urls);
+  const storage = getImageStorage();
+  let deleted = 0;
+  let freedBytes = 0;
+
+  for (const orphan of orphans) {
+    if (!requested.has(orphan.url)) continue;
+    await storage.delete(orphan.url);
+    deleted++;
+    freedBytes += orphan.size;
+  }
+
+  return { deleted, freedBytes };
+}
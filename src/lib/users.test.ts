@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { checkCredentials, redeemSetupToken } from '@/lib/auth';
+import { findUserBySetupToken, getUsers, issueOwnerSetupLink } from '@/lib/users';
+
+// Each test starts without data/users.json, as a fresh or upgrading install would.
+beforeEach(() => {
+  fs.rmSync(path.join(process.cwd(), 'data'), { recursive: true, force: true });
+});
+
+describe('the first owner', () => {
+  it('has no password on a fresh install, only a one-time setup link', async () => {
+    const [owner] = await getUsers();
+    expect(owner).toMatchObject({ username: 'admin', role: 'owner' });
+    expect(owner.password).toBeUndefined();
+    expect(owner.passwordHash).toBeUndefined();
+    expect(await checkCredentials('admin', 'password')).toBeNull();
+
+    const setup = await issueOwnerSetupLink();
+    expect(setup?.username).toBe('admin');
+    expect(findUserBySetupToken(await getUsers(), setup!.token)?.id).toBe(owner.id);
+  });
+
+  it('keeps the login from an old data/auth.json and needs no setup link', async () => {
+    fs.mkdirSync('data', { recursive: true });
+    fs.writeFileSync(path.join('data', 'auth.json'), JSON.stringify({ username: 'shopkeeper', password: 'an-old-password' }));
+
+    expect(await checkCredentials('shopkeeper', 'an-old-password')).toMatchObject({ username: 'shopkeeper', role: 'owner' });
+    expect(fs.existsSync(path.join('data', 'auth.json'))).toBe(false);
+    expect(await issueOwnerSetupLink()).toBeNull();
+  });
+});
+
+describe('a setup link', () => {
+  it('sets a password once, even when submitted twice at the same time', async () => {
+    const setup = await issueOwnerSetupLink();
+
+    const results = await Promise.all([
+      redeemSetupToken(setup!.token, 'first-choice-1'),
+      redeemSetupToken(setup!.token, 'second-choice-2'),
+    ]);
+
+    expect(results.filter(result => 'user' in result)).toHaveLength(1);
+    expect(results.filter(result => 'error' in result)).toEqual([{ error: 'invalid_link' }]);
+    const winner = 'user' in results[0] ? 'first-choice-1' : 'second-choice-2';
+    expect(await checkCredentials('admin', winner)).toMatchObject({ username: 'admin' });
+    expect(findUserBySetupToken(await getUsers(), setup!.token)).toBeUndefined();
+  });
+
+  it('stays usable when the password is refused', async () => {
+    const setup = await issueOwnerSetupLink();
+
+    expect(await redeemSetupToken(setup!.token, 'my-admin-password')).toEqual({ error: 'contains_username' });
+    expect(findUserBySetupToken(await getUsers(), setup!.token)).toBeDefined();
+  });
+});
@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { AdminRole } from '@/lib/permissions';
+import { updateJsonFile, readJsonFile } from '@/lib/json-store';
+
+// The admin users, stored in data/users.json. The first run migrates the single
+// account from data/auth.json into an owner, keeping its password. Without that
+// file the first owner starts with no password at all; see issueOwnerSetupLink.
+
+const usersFilePath = path.join(process.cwd(), 'data', 'users.json');
+const legacyAuthFilePath = path.join(process.cwd(), 'data', 'auth.json');
+
+// How long an invitation or password-reset link stays valid.
+export const SETUP_LINK_TTL_MS = (Number(process.env.SETUP_LINK_TTL_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+export type AdminUser = {
+  id: string;
+  username: string;
+  role: AdminRole;
+  // Disabled users cannot log in and their sessions are ended.
+  disabled?: boolean;
+  // Absent for invited users until they pick a password, and after a reset.
+  passwordHash?: string;
+  // Plaintext carried over from an old data/auth.json; replaced on the next login.
+  password?: string;
+  // SHA-256 of the one-time link for setting a password, and when it lapses.
+  setupTokenHash?: string;
+  setupTokenExpiresAt?: string;
+  // Base32 TOTP secret once two-factor login is on, and the step of the last
+  // code accepted, so it cannot be used twice.
+  totpSecret?: string;
+  totpLastStep?: number;
+  // A secret being set up, until the user confirms it with a code.
+  totpPendingSecret?: string;
+  // SHA-256 of the unused recovery codes.
+  recoveryCodeHashes?: string[];
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+};
+
+// What the user management page sees: no password or link hashes.
+export type AdminUserSummary = Pick<AdminUser, 'id' | 'username' | 'role' | 'createdAt' | 'lastLoginAt'> & {
+  status: 'active' | 'invited' | 'disabled';
+  twoFactor: boolean;
+};
+
+export function createUserId() {
+  return `user_${Date.now()}_${Math.round(Math.random() * 1e6)}`;
+}
+
+export function findUserByUsername(users: AdminUser[], username: string) {
+  const name = username.trim().toLowerCase();
+  return users.find(user => user.username.toLowerCase() === name);
+}
+
+export function toUserSummary(user: AdminUser): AdminUserSummary {
+  const status = user.disabled ? 'disabled' : user.passwordHash || user.password ? 'active' : 'invited';
+  return { id: user.id, username: user.username, role: user.role, createdAt: user.createdAt, lastLoginAt: user.lastLoginAt, status, twoFactor: Boolean(user.totpSecret) };
+}
+
+export function hashSetupToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// A fresh one-time link token. Only its hash is stored; the token itself is
+// shown once, to the owner who created it.
+export function createSetupToken() {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return {
+    token,
+    fields: { setupTokenHash: hashSetupToken(token), setupTokenExpiresAt: new Date(Date.now() + SETUP_LINK_TTL_MS).toISOString() },
+  };
+}
+
+// Fields to spread into a user to turn two-factor login off.
+export const TWO_FACTOR_CLEARED: Partial<AdminUser> = {
+  totpSecret: undefined,
+  totpLastStep: undefined,
+  totpPendingSecret: undefined,
+  recoveryCodeHashes: undefined,
+};
+
+async function fileExists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function seedUsers(): Promise<AdminUser[]> {
+  let legacy: { username?: string; passwordHash?: string; password?: string } = {};
+  try {
+    legacy = JSON.parse(await fs.readFile(legacyAuthFilePath, 'utf8'));
+  } catch {
+    // No old account file: the owner sets a password from a one-time link.
+  }
+  const now = new Date().toISOString();
+  return [{
+    id: createUserId(),
+    username: legacy.username || 'admin',
+    role: 'owner',
+    passwordHash: legacy.passwordHash,
+    password: legacy.passwordHash ? undefined : legacy.password,
+    createdAt: now,
+    updatedAt: now,
+  }];
+}
+
+export async function getUsers(): Promise<AdminUser[]> {
+  if (!(await fileExists(usersFilePath))) {
+    return updateUsers(users => users);
+  }
+  return readJsonFile<AdminUser[]>(usersFilePath, [], Array.isArray);
+}
+
+export async function getUserById(id: string): Promise<AdminUser | undefined> {
+  return (await getUsers()).find(user => user.id === id);
+}
+
+// Read-modify-write under the file lock; migrates data/auth.json on first use.
+export async function updateUsers(mutate: (users: AdminUser[]) => AdminUser[]): Promise<AdminUser[]> {
+  const migrating = !(await fileExists(usersFilePath));
+  const users = await updateJsonFile<AdminUser[]>(usersFilePath, migrating ? await seedUsers() : [], mutate, Array.isArray);
+  if (migrating) {
+    // The account now lives in users.json; don't leave a copy of its password behind.
+    await fs.rm(legacyAuthFilePath, { force: true });
+  }
+  return users;
+}
+
+// While no owner can log in (a fresh install, or every owner's password reset
+// with nobody left to send them a link), gives the first owner a new one-time
+// link for choosing a password. Only its hash is stored, so a link is issued on
+// every start until it has been used. Returns null when an owner can log in.
+export async function issueOwnerSetupLink(): Promise<{ username: string; token: string } | null> {
+  let issued: { username: string; token: string } | null = null;
+  await updateUsers(users => {
+    const owners = users.filter(user => user.role === 'owner' && !user.disabled);
+    if (owners.length === 0 || owners.some(user => user.passwordHash || user.password !== undefined)) return users;
+    const { token, fields } = createSetupToken();
+    issued = { username: owners[0].username, token };
+    return users.map(user => (user.id === owners[0].id ? { ...user, ...fields, updatedAt: new Date().toISOString() } : user));
+  });
+  return issued;
+}
+
+// The user a setup link belongs to, while the link is unused and unexpired.
+export function findUserBySetupToken(users: AdminUser[], token: string) {
+  const tokenHash = hashSetupToken(token);
+  return users.find(
+    user => !user.disabled && user.setupTokenHash === tokenHash && Date.parse(user.setupTokenExpiresAt ?? '') > Date.now()
+  );
+}
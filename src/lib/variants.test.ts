@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '@/lib/types';
+import { defaultSelection, describeSelection, formatPriceDelta, selectionErrors, selectionKey, variantGroups, variantPrice, withOptionIds } from './variants';
+
+const product: Pick<Product, 'price' | 'variants'> = {
+  price: 150000,
+  variants: [
+    { id: 'opt_blue', kind: 'colour', label: 'Blue', priceDelta: 0, stock: 1 },
+    { id: 'opt_8', kind: 'ram', label: '8GB', priceDelta: -5000, stock: 0 },
+    { id: 'opt_16', kind: 'ram', label: '16GB', priceDelta: 0, stock: 3 },
+    { id: 'opt_32', kind: 'ram', label: '32GB', priceDelta: 12000, stock: 1 },
+    { id: 'opt_1tb', kind: 'storage', label: '1TB SSD', priceDelta: 8000, stock: 0 },
+  ],
+};
+
+describe('variantGroups', () => {
+  it('groups options in display order and leaves out empty groups', () => {
+    expect(variantGroups(product).map(group => [group.kind, group.options.map(option => option.id)])).toEqual([
+      ['ram', ['opt_8', 'opt_16', 'opt_32']],
+      ['storage', ['opt_1tb']],
+      ['colour', ['opt_blue']],
+    ]);
+    expect(variantGroups({})).toEqual([]);
+  });
+});
+
+describe('defaultSelection', () => {
+  it('picks the first option in stock, or the first option when a group has none', () => {
+    expect(defaultSelection(product)).toEqual({ ram: 'opt_16', storage: 'opt_1tb', colour: 'opt_blue' });
+  });
+});
+
+describe('a selection', () => {
+  const selection = { ram: 'opt_32', storage: 'opt_1tb', colour: 'opt_blue' };
+
+  it('adds the chosen options to the base price', () => {
+    expect(variantPrice(product, selection)).toBe(170000);
+    expect(variantPrice(product, { ram: 'opt_8' })).toBe(145000);
+    expect(variantPrice(product)).toBe(150000);
+  });
+
+  it('describes and keys the options in display order', () => {
+    expect(describeSelection(product, { colour: 'opt_blue', ram: 'opt_32' })).toBe('32GB, Blue');
+    expect(selectionKey({ colour: 'opt_blue', ram: 'opt_32' })).toBe('opt_32+opt_blue');
+    expect(selectionKey()).toBe('');
+  });
+
+  it('needs one existing option from every group', () => {
+    expect(selectionErrors(product, selection)).toEqual([]);
+    expect(selectionErrors(product, { ram: 'opt_removed', colour: 'opt_blue' })).toEqual([
+      'Choose a RAM option.',
+      'Choose a Storage option.',
+    ]);
+    expect(selectionErrors({}, {})).toEqual([]);
+  });
+});
+
+describe('formatPriceDelta', () => {
+  it.each([
+    [0, 'included'],
+    [8000, '+ PKR 8,000'],
+    [-5000, '− PKR 5,000'],
+  ])('formats %i', (delta, text) => {
+    expect(formatPriceDelta(delta)).toBe(text);
+  });
+});
+
+describe('withOptionIds', () => {
+  it('gives new options an id and keeps existing ones', () => {
+    const options = withOptionIds([
+      { id: 'opt_16', kind: 'ram', label: '16GB', priceDelta: 0, stock: 1 },
+      { kind: 'ram', label: '32GB', priceDelta: 12000, stock: 1 },
+    ]);
+
+    expect(options?.[0].id).toBe('opt_16');
+    expect(options?.[1].id).toMatch(/^opt_\d+_\d+$/);
+    expect(withOptionIds(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import type { Product, VariantKind, VariantOption, VariantSelection } from '@/lib/types';
+
+export const VARIANT_KIND_LABELS: Record<VariantKind, string> = {
+  ram: 'RAM',
+  storage: 'Storage',
+  colour: 'Colour',
+};
+
+const KIND_ORDER: VariantKind[] = ['ram', 'storage', 'colour'];
+
+export function createVariantOptionId() {
+  return `opt_${Date.now()}_${Math.round(Math.random() * 1e6)}`;
+}
+
+// The option groups a listing offers, in display order. A shopper picks one
+// option from each.
+export function variantGroups(product: Pick<Product, 'variants'>): { kind: VariantKind; options: VariantOption[] }[] {
+  return KIND_ORDER
+    .map(kind => ({ kind, options: (product.variants ?? []).filter(option => option.kind === kind) }))
+    .filter(group => group.options.length > 0);
+}
+
+// First in-stock option of every group, for preselecting the selector.
+export function defaultSelection(product: Pick<Product, 'variants'>): VariantSelection {
+  const selection: VariantSelection = {};
+  for (const { kind, options } of variantGroups(product)) {
+    selection[kind] = (options.find(option => option.stock > 0) ?? options[0]).id;
+  }
+  return selection;
+}
+
+export function selectedOptions(product: Pick<Product, 'variants'>, selection: VariantSelection = {}): VariantOption[] {
+  return variantGroups(product)
+    .map(({ kind, options }) => options.find(option => option.id === selection[kind]))
+    .filter((option): option is VariantOption => option !== undefined);
+}
+
+// Problems with a selection against the listing as it is now: a group left
+// unpicked, or an option that no longer exists.
+export function selectionErrors(product: Pick<Product, 'variants'>, selection: VariantSelection = {}): string[] {
+  return variantGroups(product)
+    .filter(({ kind, options }) => !options.some(option => option.id === selection[kind]))
+    .map(({ kind }) => `Choose a ${VARIANT_KIND_LABELS[kind]} option.`);
+}
+
+export function variantPrice(product: Pick<Product, 'price' | 'variants'>, selection?: VariantSelection) {
+  return product.price + selectedOptions(product, selection).reduce((sum, option) => sum + option.priceDelta, 0);
+}
+
+export function describeSelection(product: Pick<Product, 'variants'>, selection?: VariantSelection) {
+  return selectedOptions(product, selection).map(option => option.label).join(', ');
+}
+
+// Stable string form of a selection, used in cart line keys.
+export function selectionKey(selection: VariantSelection = {}) {
+  return KIND_ORDER.map(kind => selection[kind]).filter(Boolean).join('+');
+}
+
+export function formatPriceDelta(delta: number) {
+  if (delta === 0) return 'included';
+  return `${delta > 0 ? '+' : '−'} PKR ${Math.abs(delta).toLocaleString()}`;
+}
+
+// Gives options added in the admin form an id; existing options keep theirs so
+// carts that reference them stay valid.
+export function withOptionIds(options?: (Omit<VariantOption, 'id'> & { id?: string })[]): VariantOption[] | undefined {
+  return options?.map(option => ({ ...option, id: option.id || createVariantOptionId() }));
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { middleware } from './middleware';
+import { CSRF_COOKIE_NAME, CSRF_HEADER_NAME } from '@/lib/csrf';
+
+const SITE = 'http://localhost:9002';
+const TOKEN = 'csrf-token-from-the-cookie';
+
+function post(pathname: string, headers: Record<string, string>, body = 'username=admin&password=guess') {
+  return new NextRequest(`${SITE}${pathname}`, {
+    method: 'POST',
+    headers: { host: 'localhost:9002', 'content-type': 'application/x-www-form-urlencoded', ...headers },
+    body,
+  });
+}
+
+// NextResponse.next() marks the request as passed on to the route.
+const passedOn = (response: Response) => response.headers.get('x-middleware-next') === '1';
+
+describe('middleware CSRF protection', () => {
+  it('rejects a form posted from another site', async () => {
+    const response = await middleware(post('/api/login', {
+      origin: 'https://evil.example',
+      cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`,
+      [CSRF_HEADER_NAME]: TOKEN,
+    }));
+    expect(response.status).toBe(403);
+    expect(passedOn(response)).toBe(false);
+  });
+
+  it('rejects a server action posted from another site', async () => {
+    const response = await middleware(post('/admin', { origin: 'https://evil.example', 'next-action': 'abc123' }));
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a post with no Origin and a Referer from another site', async () => {
+    const response = await middleware(post('/api/logout', {
+      referer: 'https://evil.example/page',
+      cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`,
+      [CSRF_HEADER_NAME]: TOKEN,
+    }));
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a post that names no origin at all', async () => {
+    const response = await middleware(post('/api/logout', { cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`, [CSRF_HEADER_NAME]: TOKEN }));
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a same-origin API post without the CSRF header', async () => {
+    const response = await middleware(post('/api/login', { origin: SITE, cookie: `${CSRF_COOKIE_NAME}=${TOKEN}` }));
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects a same-origin API post whose header does not match the cookie', async () => {
+    const response = await middleware(post('/api/login', {
+      origin: SITE,
+      cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`,
+      [CSRF_HEADER_NAME]: 'something-else',
+    }));
+    expect(response.status).toBe(403);
+  });
+
+  it('passes on a same-origin API post carrying the token', async () => {
+    const response = await middleware(post('/api/login', {
+      origin: SITE,
+      cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`,
+      [CSRF_HEADER_NAME]: TOKEN,
+    }));
+    expect(passedOn(response)).toBe(true);
+  });
+
+  it('accepts a same-origin Referer when the browser sends no Origin', async () => {
+    const response = await middleware(post('/api/login', {
+      referer: `${SITE}/login`,
+      cookie: `${CSRF_COOKIE_NAME}=${TOKEN}`,
+      [CSRF_HEADER_NAME]: TOKEN,
+    }));
+    expect(passedOn(response)).toBe(true);
+  });
+
+  it('hands out a token cookie on the login page', async () => {
+    const response = await middleware(new NextRequest(`${SITE}/login`));
+    const cookie = response.cookies.get(CSRF_COOKIE_NAME);
+    expect(cookie?.value).toMatch(/^[\w-]{43}$/);
+    expect(cookie?.sameSite).toBe('strict');
+  });
+});
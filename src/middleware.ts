@@ -1,23 +1,72 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  SESSION_COOKIE_NAME,
+  renewedExpiry,
+  sessionCookieOptions,
+  signSessionToken,
+  verifySessionToken,
+} from '@/lib/session-token';
+import {
+  CSRF_COOKIE_NAME,
+  csrfCookieOptions,
+  generateCsrfToken,
+  hasValidCsrfToken,
+  isSafeMethod,
+  isSameOrigin,
+} from '@/lib/csrf';
 
-const AUTH_COOKIE_NAME = 'lapzen_auth';
+function forbidden(message: string) {
+  return NextResponse.json({ message }, { status: 403 });
+}
 
-export function middleware(request: NextRequest) {
+// Checks the session token's signature and expiry. Revocation is checked by the
+// admin layout and actions, which can read the session store.
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+  const csrfToken = request.cookies.get(CSRF_COOKIE_NAME)?.value;
 
-  if (pathname.startsWith('/admin')) {
-    const isAuthenticated = request.cookies.has(AUTH_COOKIE_NAME);
+  // Requests that change something must come from our own pages (see csrf.ts).
+  // Server actions cannot carry the CSRF header, so they rely on the origin
+  // check and the SameSite=strict session cookie.
+  if (!isSafeMethod(request.method)) {
+    if (!isSameOrigin(request)) {
+      return forbidden('Cross-site request blocked');
+    }
+    if (pathname.startsWith('/api/') && !hasValidCsrfToken(request, csrfToken)) {
+      return forbidden('Missing or invalid CSRF token. Reload the page and try again.');
+    }
+  }
 
-    if (!isAuthenticated) {
+  const response = await sessionResponse(request);
+  if (!csrfToken) {
+    response.cookies.set(CSRF_COOKIE_NAME, generateCsrfToken(), csrfCookieOptions());
+  }
+  return response;
+}
+
+async function sessionResponse(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const token = await verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+
+  if (pathname.startsWith('/admin')) {
+    if (!token) {
       const loginUrl = new URL('/login', request.url);
-      return NextResponse.redirect(loginUrl);
+      const response = NextResponse.redirect(loginUrl);
+      response.cookies.delete(SESSION_COOKIE_NAME);
+      return response;
+    }
+
+    const exp = renewedExpiry(token);
+    if (exp) {
+      const response = NextResponse.next();
+      response.cookies.set(SESSION_COOKIE_NAME, await signSessionToken({ ...token, exp }), sessionCookieOptions(exp));
+      return response;
     }
   }
     
   if (pathname.startsWith('/login')) {
-      const isAuthenticated = request.cookies.has(AUTH_COOKIE_NAME);
-      if (isAuthenticated) {
+      if (token) {
           const adminUrl = new URL('/admin', request.url);
           return NextResponse.redirect(adminUrl);
       }
@@ -27,5 +76,5 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/admin/:path*', '/login'],
+  matcher: ['/admin/:path*', '/login', '/set-password', '/api/:path*'],
 };
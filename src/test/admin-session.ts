@@ -0,0 +1,19 @@
+import type { AdminRole } from '@/lib/permissions';
+import { SESSION_COOKIE_NAME } from '@/lib/session-token';
+import { createSession } from '@/lib/sessions';
+import { createUserId, updateUsers, type AdminUser } from '@/lib/users';
+import { cookieJar } from './next-headers';
+
+// Adds an admin user with the given role and makes the following calls as them.
+export async function signInAs(role: AdminRole, changes: Partial<AdminUser> = {}) {
+  const now = new Date().toISOString();
+  const user: AdminUser = { id: createUserId(), username: `${role}-${cookieJar.size}-${Date.now()}`, role, createdAt: now, updatedAt: now, ...changes };
+  await updateUsers(users => [...users, user]);
+  const { token, session } = await createSession(user);
+  cookieJar.set(SESSION_COOKIE_NAME, token);
+  return { user, session };
+}
+
+export function signOut() {
+  cookieJar.clear();
+}
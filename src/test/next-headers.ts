@@ -0,0 +1,14 @@
+// Stands in for next/headers, which only works inside a Next request. Tests
+// mock the module with mockNextHeaders() and set cookies in `cookieJar`.
+export const cookieJar = new Map<string, string>();
+
+export function mockNextHeaders() {
+  return {
+    cookies: async () => ({
+      get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name)! } : undefined),
+      set: (name: string, value: string) => void cookieJar.set(name, value),
+      delete: (name: string) => void cookieJar.delete(name),
+    }),
+    headers: async () => new Headers(),
+  };
+}
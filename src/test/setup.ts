@@ -0,0 +1,7 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The stores keep their files under process.cwd()/data, so every test file
+// starts in an empty scratch directory instead of the real data.
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'lapzen-test-')));